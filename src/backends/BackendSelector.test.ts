@@ -0,0 +1,94 @@
+// Copyright (c) Frédéric Maquin <fred@ephread.com>
+// Licensed under the MIT License.
+// See LICENSE in the project root for license information.
+
+import { Emitter } from "vscode-languageserver";
+
+import { IInkCompiler, IInkRunner } from "../types/backend";
+import { InkBackend, InkWorkspace } from "../types/types";
+
+import { createTestConnection } from "../tests/helpers/connection";
+
+import StoryRenderer from "../helpers/Class/StoryRenderer";
+
+import BackendSelector from "./BackendSelector";
+
+const workspace: InkWorkspace = { folder: { uri: "file:///story", name: "story" } };
+
+function createBackend(): IInkCompiler & IInkRunner & { stopEmitter: Emitter<string> } {
+  const stopEmitter = new Emitter<string>();
+
+  return {
+    stopEmitter,
+    onDidStopStory: stopEmitter.event,
+    compileStory: jest.fn(async () => undefined),
+    runStory: jest.fn(),
+    chooseOption: jest.fn(),
+    stopStory: jest.fn(sessionId => stopEmitter.fire(sessionId)),
+    getChoicePath: jest.fn(() => []),
+    rewindStory: jest.fn(),
+    getStoryState: jest.fn(() => undefined),
+    createSnapshot: jest.fn(() => undefined)
+  };
+}
+
+function createSelector() {
+  const inklecate = createBackend();
+  const inkjs = createBackend();
+  const selector = new BackendSelector({
+    [InkBackend.Inklecate]: inklecate,
+    [InkBackend.Inkjs]: inkjs
+  });
+
+  return { inklecate, inkjs, selector };
+}
+
+describe("BackendSelector", () => {
+  it("compiles with the backend selected by the settings", async () => {
+    const { inklecate, inkjs, selector } = createSelector();
+
+    await selector.compileStory({ backend: InkBackend.Inkjs }, workspace);
+    await selector.compileStory({}, workspace);
+
+    expect(inkjs.compileStory).toHaveBeenCalledTimes(1);
+    expect(inklecate.compileStory).toHaveBeenCalledTimes(1);
+  });
+
+  it("routes commands to the backend which started the session", () => {
+    const { inklecate, inkjs, selector } = createSelector();
+    const storyRenderer = new StoryRenderer(createTestConnection(), "session");
+
+    selector.runStory({ backend: InkBackend.Inkjs }, workspace, storyRenderer);
+    selector.chooseOption("session", 1);
+    selector.stopStory("session");
+    selector.chooseOption("session", 1);
+
+    expect(inkjs.runStory).toHaveBeenCalledTimes(1);
+    expect(inkjs.chooseOption).toHaveBeenCalledTimes(1);
+    expect(inkjs.stopStory).toHaveBeenCalledWith("session");
+    expect(inklecate.chooseOption).not.toHaveBeenCalled();
+  });
+
+  it("forgets the sessions once they stopped", () => {
+    const { inklecate, inkjs, selector } = createSelector();
+    const onDidStopStory = jest.fn();
+    selector.onDidStopStory(onDidStopStory);
+
+    selector.runStory(
+      { backend: InkBackend.Inkjs },
+      workspace,
+      new StoryRenderer(createTestConnection(), "session")
+    );
+
+    // Both backends play their stories with the same player.
+    inklecate.stopEmitter.fire("session");
+    selector.chooseOption("session", 1);
+    expect(inkjs.chooseOption).toHaveBeenCalledTimes(1);
+
+    inkjs.stopEmitter.fire("session");
+    selector.chooseOption("session", 1);
+    expect(inkjs.chooseOption).toHaveBeenCalledTimes(1);
+    expect(onDidStopStory).toHaveBeenCalledTimes(1);
+    expect(onDidStopStory).toHaveBeenCalledWith("session");
+  });
+});
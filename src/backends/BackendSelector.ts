@@ -0,0 +1,115 @@
+// Copyright (c) Frédéric Maquin <fred@ephread.com>
+// Licensed under the MIT License.
+// See LICENSE in the project root for license information.
+
+import { CancellationToken, Emitter, Event } from "vscode-languageserver";
+
+import {
+  InkBackend,
+  InkWorkspace,
+  PartialInkConfigurationSettings,
+  PlayOptions,
+  RuntimeChoice,
+  RuntimeStoryState,
+  StorySnapshot
+} from "../types/types";
+
+import { IInkCompiler, IInkRunner } from "../types/backend";
+
+import { getDefaultSettings, mergeSettings } from "../helpers/configuration";
+
+import StoryRenderer from "../helpers/Class/StoryRenderer";
+
+/**
+ * Routes compilations and play sessions to the backend selected by the `ink.backend`
+ * setting, which is scoped to the resource.
+ *
+ * Commands sent to a play session are routed to the backend which started it,
+ * until the session stops.
+ */
+export default class BackendSelector implements IInkCompiler, IInkRunner {
+  public readonly onDidStopStory: Event<string>;
+
+  /** Backends which started the play sessions, keyed by session id. */
+  private sessionRunners: Map<string, IInkRunner> = new Map();
+
+  private didStopStoryEmitter = new Emitter<string>();
+
+  constructor(private backends: Record<InkBackend, IInkCompiler & IInkRunner>) {
+    this.onDidStopStory = this.didStopStoryEmitter.event;
+
+    for (const name of Object.keys(backends) as InkBackend[]) {
+      const backend = backends[name];
+      backend.onDidStopStory(sessionId => {
+        // Backends may share their sessions, only the one which started it is listened to.
+        if (this.sessionRunners.get(sessionId) === backend) {
+          this.sessionRunners.delete(sessionId);
+          this.didStopStoryEmitter.fire(sessionId);
+        }
+      });
+    }
+  }
+
+  public compileStory(
+    settings: PartialInkConfigurationSettings,
+    inkWorkspace: InkWorkspace,
+    token?: CancellationToken
+  ): Promise<void> {
+    return this.getBackend(settings).compileStory(settings, inkWorkspace, token);
+  }
+
+  public runStory(
+    settings: PartialInkConfigurationSettings,
+    inkWorkspace: InkWorkspace,
+    storyRenderer: StoryRenderer,
+    playOptions?: PlayOptions,
+    snapshot?: StorySnapshot
+  ) {
+    const backend = this.getBackend(settings);
+
+    // Starting the session stops any previous session with the same id,
+    // so the new one is only registered afterwards.
+    backend.runStory(settings, inkWorkspace, storyRenderer, playOptions, snapshot);
+    this.sessionRunners.set(storyRenderer.sessionId, backend);
+  }
+
+  public chooseOption(sessionId: string, index: number) {
+    const runner = this.sessionRunners.get(sessionId);
+    if (runner) {
+      runner.chooseOption(sessionId, index);
+    }
+  }
+
+  public stopStory(sessionId: string) {
+    const runner = this.sessionRunners.get(sessionId);
+    if (runner) {
+      runner.stopStory(sessionId);
+    }
+  }
+
+  public getChoicePath(sessionId: string): RuntimeChoice[] | undefined {
+    const runner = this.sessionRunners.get(sessionId);
+    return runner ? runner.getChoicePath(sessionId) : undefined;
+  }
+
+  public rewindStory(sessionId: string, choiceCount: number) {
+    const runner = this.sessionRunners.get(sessionId);
+    if (runner) {
+      runner.rewindStory(sessionId, choiceCount);
+    }
+  }
+
+  public getStoryState(sessionId: string): RuntimeStoryState | undefined {
+    const runner = this.sessionRunners.get(sessionId);
+    return runner ? runner.getStoryState(sessionId) : undefined;
+  }
+
+  public createSnapshot(sessionId: string): StorySnapshot | undefined {
+    const runner = this.sessionRunners.get(sessionId);
+    return runner ? runner.createSnapshot(sessionId) : undefined;
+  }
+
+  private getBackend(settings: PartialInkConfigurationSettings): IInkCompiler & IInkRunner {
+    return this.backends[mergeSettings(settings, getDefaultSettings()).backend];
+  }
+}
@@ -0,0 +1,181 @@
+// Copyright (c) Frédéric Maquin <fred@ephread.com>
+// Licensed under the MIT License.
+// See LICENSE in the project root for license information.
+
+import * as Fs from "fs-extra";
+import * as Os from "os";
+import * as Path from "path";
+
+import { TextDocument } from "vscode-languageserver";
+import URI from "vscode-uri";
+
+import { RuntimeNotification } from "../types/identifiers";
+import { InkBackend, InkErrorType, InkWorkspace } from "../types/types";
+
+import { createTestConnection } from "../tests/helpers/connection";
+import { createDocumentManager } from "../tests/helpers/documents";
+import mockedLogger from "../tests/helpers/logger";
+
+import DiagnosticManager from "../helpers/Class/DiagnosticManager";
+import StoryPlayer from "../helpers/Class/StoryPlayer";
+import StoryRenderer from "../helpers/Class/StoryRenderer";
+import VirtualFileSystem from "../helpers/Class/VirtualFileSystem";
+
+import InkjsBackend from "./InkjsBackend";
+
+const directory = Path.join(Os.tmpdir(), "ink.language.server.inkjs.test");
+const temporaryDirectory = Path.join(directory, "temp");
+
+const workspace: InkWorkspace = {
+  folder: { uri: URI.file(directory).toString(), name: "story" },
+  temporaryCompilationDirectory: temporaryDirectory
+};
+
+function createBackend(documents: TextDocument[] = []) {
+  const connection = createTestConnection();
+  const sendNotification = jest.spyOn(connection, "sendNotification").mockReturnValue(undefined);
+  const documentManager = createDocumentManager(documents);
+  const diagnosticManager = new DiagnosticManager(connection, documentManager, mockedLogger.logger);
+  jest.spyOn(diagnosticManager, "notifyClientAndPushDiagnostics").mockResolvedValue(undefined);
+
+  const backend = new InkjsBackend(
+    diagnosticManager,
+    new StoryPlayer(mockedLogger.logger),
+    new VirtualFileSystem(documentManager),
+    mockedLogger.logger
+  );
+  const storyRenderer = new StoryRenderer(connection, "session");
+
+  return { backend, connection: { sendNotification }, diagnosticManager, storyRenderer };
+}
+
+function writeStory(main: string, chapter: string) {
+  Fs.outputFileSync(Path.join(directory, "main.ink"), `\uFEFF${main}`);
+  Fs.outputFileSync(Path.join(directory, "chapter.ink"), chapter);
+}
+
+function waitForEndOfStory(connection: { sendNotification: jest.SpyInstance }) {
+  return new Promise(resolve => {
+    connection.sendNotification.mockImplementation(method => {
+      if (method === RuntimeNotification.endOfStory) {
+        resolve();
+      }
+    });
+  });
+}
+
+describe("InkjsBackend", () => {
+  afterEach(() => {
+    Fs.removeSync(directory);
+  });
+
+  it("reports errors like inklecate", async () => {
+    const { backend, diagnosticManager } = createBackend();
+    writeStory(
+      "INCLUDE chapter.ink\n-> nowhere\nTODO: write",
+      "=== chapter ===\n  {unknown}\n-> END\n"
+    );
+
+    await backend.compileStory({}, workspace);
+
+    expect(diagnosticManager.notifyClientAndPushDiagnostics).toHaveBeenCalledWith(
+      workspace,
+      Path.join(temporaryDirectory, "main.ink.json"),
+      [
+        {
+          type: InkErrorType.Todo,
+          filePath: Path.join(directory, "main.ink"),
+          lineNumber: 3,
+          message: "write"
+        },
+        {
+          type: InkErrorType.Error,
+          filePath: Path.join(directory, "main.ink"),
+          lineNumber: 2,
+          message: "Divert target not found: '-> nowhere'"
+        },
+        {
+          type: InkErrorType.Error,
+          filePath: Path.join(directory, "chapter.ink"),
+          lineNumber: 2,
+          message: "Unresolved variable: unknown"
+        }
+      ],
+      InkBackend.Inkjs
+    );
+  });
+
+  it("writes the compiled story", async () => {
+    const { backend, diagnosticManager } = createBackend();
+    writeStory("INCLUDE chapter.ink\n-> chapter", "=== chapter ===\nHello.\n-> END\n");
+
+    await backend.compileStory({}, workspace);
+
+    const json = Fs.readJsonSync(Path.join(temporaryDirectory, "main.ink.json"));
+    expect(json.inkVersion).toBeDefined();
+    expect(diagnosticManager.notifyClientAndPushDiagnostics).toHaveBeenCalledWith(
+      workspace,
+      Path.join(temporaryDirectory, "main.ink.json"),
+      [],
+      InkBackend.Inkjs
+    );
+  });
+
+  it("compiles the documents opened by the client", async () => {
+    const chapter = TextDocument.create(
+      URI.file(Path.join(directory, "chapter.ink")).toString(),
+      "ink",
+      1,
+      "=== chapter ===\nHello again.\n-> END\n"
+    );
+    const { backend, connection, storyRenderer } = createBackend([chapter]);
+    writeStory("INCLUDE chapter.ink\n-> chapter", "=== chapter ===\nHello.\n-> END\n");
+
+    const endOfStory = waitForEndOfStory(connection);
+    backend.runStory({}, workspace, storyRenderer, { seed: 1 });
+    await endOfStory;
+
+    expect(connection.sendNotification).toHaveBeenCalledWith(RuntimeNotification.text, {
+      sessionId: "session",
+      text: "Hello again."
+    });
+    expect(Fs.existsSync(temporaryDirectory)).toBe(false);
+  });
+
+  it("plays the story", async () => {
+    const { backend, connection, storyRenderer } = createBackend();
+    writeStory("INCLUDE chapter.ink\n-> chapter", "=== chapter ===\nHello.\n-> END\n");
+
+    const endOfStory = waitForEndOfStory(connection);
+    backend.runStory({}, workspace, storyRenderer, { seed: 1 });
+    await endOfStory;
+
+    expect(connection.sendNotification.mock.calls).toEqual([
+      [RuntimeNotification.text, { sessionId: "session", text: "Hello." }],
+      [RuntimeNotification.endOfStory, { sessionId: "session" }]
+    ]);
+  });
+
+  it("reports compilation errors to the session", async () => {
+    const { backend, connection, storyRenderer } = createBackend();
+    writeStory("INCLUDE chapter.ink\n-> nowhere", "=== chapter ===\n-> END\n");
+
+    const endOfStory = waitForEndOfStory(connection);
+    backend.runStory({}, workspace, storyRenderer);
+    await endOfStory;
+
+    expect(connection.sendNotification.mock.calls).toEqual([
+      [
+        RuntimeNotification.error,
+        {
+          sessionId: "session",
+          error: `ERROR while compiling the story: Divert target not found: '-> nowhere' (in '${Path.join(
+            directory,
+            "main.ink"
+          )}' at line 2)`
+        }
+      ],
+      [RuntimeNotification.endOfStory, { sessionId: "session" }]
+    ]);
+  });
+});
@@ -0,0 +1,178 @@
+// Copyright (c) Frédéric Maquin <fred@ephread.com>
+// Licensed under the MIT License.
+// See LICENSE in the project root for license information.
+
+import * as Fs from "fs-extra";
+import * as Path from "path";
+
+import { Compiler } from "inkjs/compiler/Compiler";
+import { CompilerOptions } from "inkjs/compiler/CompilerOptions";
+import { IFileHandler } from "inkjs/compiler/IFileHandler";
+import { CancellationToken } from "vscode-languageserver";
+import URI from "vscode-uri";
+
+import {
+  IConnectionLogger,
+  InkBackend,
+  InkError,
+  InkErrorType,
+  InkWorkspace,
+  PartialInkConfigurationSettings
+} from "../types/types";
+
+import { PlayableStory } from "../types/backend";
+
+import { getDefaultSettings, mergeSettings } from "../helpers/configuration";
+import { getCompiledStoryPath, parseInkErrors } from "../helpers/utils";
+
+import DiagnosticManager from "../helpers/Class/DiagnosticManager";
+import StoryPlayer from "../helpers/Class/StoryPlayer";
+import VirtualFileSystem from "../helpers/Class/VirtualFileSystem";
+
+import StoryPlayerBackend from "./StoryPlayerBackend";
+
+/** Result of an inkjs compilation. */
+interface InkjsCompilation {
+  /** Path of the compiled story, once written by `compileStory`. */
+  outputStoryPath: string;
+
+  /** The compiled story, `undefined` if the compilation failed. */
+  json?: string;
+  errors: InkError[];
+}
+
+/**
+ * Compiles and plays the stories within the server process, with the JavaScript
+ * port of the ink compiler. Neither inklecate nor mono are needed.
+ *
+ * The workspaces are read through the virtual file system, unsaved documents
+ * included, so the temporary directories only receive the compiled stories.
+ *
+ * Errors are reported in the same format as inklecate's, so that diagnostics
+ * and runtime notifications don't depend on the backend.
+ */
+export default class InkjsBackend extends StoryPlayerBackend {
+  constructor(
+    private diagnosticManager: DiagnosticManager,
+    storyPlayer: StoryPlayer,
+    private virtualFileSystem: VirtualFileSystem,
+    logger: IConnectionLogger
+  ) {
+    super(storyPlayer, logger);
+  }
+
+  public async compileStory(
+    settings: PartialInkConfigurationSettings,
+    inkWorkspace: InkWorkspace,
+    token?: CancellationToken
+  ): Promise<void> {
+    if (token && token.isCancellationRequested) {
+      return;
+    }
+
+    const compilation = await this.compile(settings, inkWorkspace);
+    if (!compilation || (token && token.isCancellationRequested)) {
+      return;
+    }
+
+    if (compilation.json) {
+      await Fs.outputFile(compilation.outputStoryPath, compilation.json);
+    }
+
+    await this.diagnosticManager.notifyClientAndPushDiagnostics(
+      inkWorkspace,
+      compilation.outputStoryPath,
+      compilation.errors,
+      InkBackend.Inkjs
+    );
+  }
+
+  protected compilePlayableStory(
+    settings: PartialInkConfigurationSettings,
+    inkWorkspace: InkWorkspace
+  ): Promise<PlayableStory | undefined> {
+    return this.compile(settings, inkWorkspace);
+  }
+
+  /**
+   * Compile the project with inkjs.
+   *
+   * @param settings the configuration settings to use.
+   * @param inkWorkspace the workspace to compile.
+   * @returns a promise resolved with the compiled story and the errors reported,
+   *          or with `undefined` if the story couldn't be compiled.
+   */
+  private async compile(
+    settings: PartialInkConfigurationSettings,
+    inkWorkspace: InkWorkspace
+  ): Promise<InkjsCompilation | undefined> {
+    const mergedSettings = mergeSettings(settings, getDefaultSettings());
+    const outputStoryPath = getCompiledStoryPath(mergedSettings, inkWorkspace);
+    if (!inkWorkspace.temporaryCompilationDirectory || !outputStoryPath) {
+      this.logger.console.warn(
+        `Temporary directory for ${inkWorkspace.folder.name} is \`undefined\`, ignoring…`
+      );
+      return undefined;
+    }
+
+    const mainStoryPath = Path.join(
+      URI.parse(inkWorkspace.folder.uri).fsPath,
+      mergedSettings.mainStoryPath
+    );
+
+    let source: string;
+    try {
+      source = await this.virtualFileSystem.readFile(mainStoryPath);
+    } catch (error) {
+      const storyErrorMessage = `'mainStoryPath' (${mergedSettings.mainStoryPath}) is not readable.`;
+      this.logger.console.error(`${storyErrorMessage} - ${error.message}`);
+      this.logger.showErrorMessage(storyErrorMessage, false);
+      return undefined;
+    }
+
+    // Messages are formatted like inklecate's output, e. g.
+    // "ERROR: 'main.ink' line 3: Divert target not found: '-> nowhere'".
+    const messages: string[] = [];
+    const options = new CompilerOptions(
+      Path.basename(mainStoryPath),
+      [],
+      true,
+      message => messages.push(message),
+      createFileHandler(Path.dirname(mainStoryPath), this.virtualFileSystem)
+    );
+
+    let json: string | undefined;
+    try {
+      json = new Compiler(stripByteOrderMark(source), options).Compile().ToJson() as string;
+    } catch (error) {
+      // Failed compilations throw once their errors have been reported.
+      if (!messages.some(message => message.startsWith(InkErrorType.Error))) {
+        throw error;
+      }
+    }
+
+    const errors = parseInkErrors(
+      messages.join("\n"),
+      Path.dirname(mergedSettings.mainStoryPath),
+      inkWorkspace
+    );
+
+    return { outputStoryPath, json, errors };
+  }
+}
+
+/**
+ * Returns a file handler resolving included files relative to the directory
+ * of the main story, and reading them through the virtual file system.
+ */
+function createFileHandler(rootPath: string, virtualFileSystem: VirtualFileSystem): IFileHandler {
+  return {
+    ResolveInkFilename: (filename: string) => Path.resolve(rootPath, filename),
+    LoadInkFileContents: (filename: string) =>
+      stripByteOrderMark(virtualFileSystem.readFileSync(filename))
+  };
+}
+
+function stripByteOrderMark(text: string): string {
+  return text.replace(/^\uFEFF/, "");
+}
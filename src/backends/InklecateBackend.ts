@@ -6,20 +6,20 @@ import * as ChildProcess from "child_process";
 import * as Fs from "fs-extra";
 import * as Path from "path";
 
-import Uri from "vscode-uri";
+import { CancellationToken } from "vscode-languageserver";
 
 import {
   IConnectionLogger,
+  InkBackend,
   InkConfigurationSettings,
   InkError,
   InkErrorType,
   InkWorkspace,
   PartialInkConfigurationSettings,
-  Platform,
-  RuntimeChoice
+  Platform
 } from "../types/types";
 
-import { IInkCompiler, IInkRunner } from "../types/backend";
+import { PlayableStory } from "../types/backend";
 
 import {
   determinePlatform,
@@ -27,113 +27,187 @@ import {
   getMonoPath,
   mergeSettings
 } from "../helpers/configuration";
+import { parseInkErrors } from "../helpers/utils";
 
-import StoryRenderer from "../helpers/Class/StoryRenderer";
-
+import CompilationDirectoryManager from "../helpers/Class/CompilationDirectoryManager";
 import DiagnosticManager from "../helpers/Class/DiagnosticManager";
+import StoryPlayer from "../helpers/Class/StoryPlayer";
+
+import StoryPlayerBackend from "./StoryPlayerBackend";
 
-export default class InklecateBackend implements IInkCompiler, IInkRunner {
-  private inklecateProcess: ChildProcess.ChildProcess | undefined;
+/** Result of an inklecate compilation. */
+interface InklecateCompilation {
+  /** Path of the compiled story, a JSON file. */
+  outputStoryPath: string;
+  errors: InkError[];
+}
 
+/**
+ * Compiles the stories with inklecate, then plays them with the ink runtime.
+ *
+ * inklecate only reads files from the disk, so the workspaces are compiled from
+ * their mirrors, kept up to date with the documents opened by the client.
+ */
+export default class InklecateBackend extends StoryPlayerBackend {
   constructor(
-    private storyRenderer: StoryRenderer,
+    private compilationDirectoryManager: CompilationDirectoryManager,
     private diagnosticManager: DiagnosticManager,
-    private logger: IConnectionLogger
-  ) {}
-
-  public compileStory(settings: PartialInkConfigurationSettings, inkWorkspace: InkWorkspace) {
-    this.runInklecate(settings, inkWorkspace, false);
+    storyPlayer: StoryPlayer,
+    logger: IConnectionLogger
+  ) {
+    super(storyPlayer, logger);
   }
 
-  public runStory(settings: PartialInkConfigurationSettings, inkWorkspace: InkWorkspace) {
-    this.runInklecate(settings, inkWorkspace, true);
+  public compileStory(
+    settings: PartialInkConfigurationSettings,
+    inkWorkspace: InkWorkspace,
+    token?: CancellationToken
+  ): Promise<void> {
+    return this.runInklecate(settings, inkWorkspace, token).then(compilation => {
+      if (compilation && (!token || !token.isCancellationRequested)) {
+        this.diagnosticManager.notifyClientAndPushDiagnostics(
+          inkWorkspace,
+          compilation.outputStoryPath,
+          compilation.errors,
+          InkBackend.Inklecate
+        );
+      }
+    });
   }
 
   /**
-   * Compile the project and report any errors through `completion`.
+   * Mirror the project, then compile it with inklecate.
    *
    * @param settings the configuration settings to use.
    * @param inkWorkspace the workspace to compile.
-   * @param connection the client connection.
-   * @param completion the callback to call upon completion.
+   * @param token a token cancelling the compilation.
+   * @param outputFileName the name of the compiled story, relative to the main story,
+   *                       `<mainStoryPath>.json` by default.
+   * @returns a promise resolved with the errors reported by inklecate when it exits,
+   *          or with `undefined` if the story couldn't be compiled.
    */
-  public runInklecate(
+  public async runInklecate(
     settings: PartialInkConfigurationSettings,
     inkWorkspace: InkWorkspace,
-    isPlaying: boolean = false
-  ) {
+    token?: CancellationToken,
+    outputFileName?: string
+  ): Promise<InklecateCompilation | undefined> {
     const tempDir = inkWorkspace.temporaryCompilationDirectory;
     if (!tempDir) {
       this.logger.console.warn(
         `Temporary directory for ${inkWorkspace.folder.name} is \`undefined\`, ignoring…`
       );
-      return;
+      return undefined;
+    }
+
+    try {
+      await this.compilationDirectoryManager.mirrorWorkspace(inkWorkspace);
+    } catch (error) {
+      this.logger.console.error(`Could not mirror ${inkWorkspace.folder.name} - ${error.message}`);
+      this.logger.reportServerError();
+      return undefined;
     }
 
     const mergedSettings = mergeSettings(settings, getDefaultSettings());
 
     const mainStoryTempPath = Path.join(tempDir, mergedSettings.mainStoryPath);
+    const outputStoryPath = outputFileName
+      ? Path.join(Path.dirname(mainStoryTempPath), outputFileName)
+      : `${mainStoryTempPath}.json`;
+
+    return Promise.resolve(
+      this.testThatInklecateIsExecutable(mergedSettings, mainStoryTempPath)
+    ).then(async () => {
+      if (token && token.isCancellationRequested) {
+        return undefined;
+      }
+
+      const errors = await this.spawnInklecate(
+        mergedSettings,
+        mainStoryTempPath,
+        outputStoryPath,
+        inkWorkspace,
+        token
+      );
 
-    this.testThatInklecateIsExecutable(mergedSettings, mainStoryTempPath).then(() => {
-      this.spawnInklecate(mergedSettings, mainStoryTempPath, inkWorkspace, isPlaying);
+      return { outputStoryPath, errors };
     });
   }
 
-  public chooseOption(index: number) {
-    if (this.inklecateProcess) {
-      if (this.inklecateProcess.stdin) {
-        this.inklecateProcess.stdin.write(`${index}\n`);
-      } else {
-        const errorMessage = "Inklecate subprocess has no stdin set, something's wrong.";
-        this.logger.console.error(`${errorMessage}`);
-        this.logger.showErrorMessage(errorMessage, false);
-      }
+  /**
+   * Compile the story into a file of its own, removed once read, so that
+   * sessions never read a story being compiled by `compileStory`.
+   */
+  protected async compilePlayableStory(
+    settings: PartialInkConfigurationSettings,
+    inkWorkspace: InkWorkspace,
+    sessionId: string
+  ): Promise<PlayableStory | undefined> {
+    const compilation = await this.runInklecate(
+      settings,
+      inkWorkspace,
+      undefined,
+      `.play-${sessionId}.json`
+    );
+
+    if (!compilation) {
+      return undefined;
     }
-  }
 
-  public stopCurrentStory() {
-    if (this.inklecateProcess) {
-      this.inklecateProcess.kill();
+    const { outputStoryPath, errors } = compilation;
+
+    try {
+      const hasErrors = errors.some(error => error.type === InkErrorType.Error);
+      const json = hasErrors ? undefined : await Fs.readFile(outputStoryPath, "utf8");
+
+      return { json, errors };
+    } finally {
+      Fs.remove(outputStoryPath).catch(error => {
+        this.logger.console.warn(`Could not remove '${outputStoryPath}' - ${error.message}`);
+      });
     }
   }
 
   /**
-   * Spawn a child process of `inklecatePath` to cimpile the project.
+   * Spawn a child process of `inklecatePath` to compile the project.
    *
-   * @param inklecatePath the path to the inklecate executable.
-   * @param mainStoryPath the path to the main ink file (in the client workspace).
+   * @param settings the configuration settings to use.
    * @param mainStoryTempPath the path to the main ink file (in the temporary compilation directory).
+   * @param outputStoryPath the path of the compiled story.
    * @param inkWorkspace the workspace to compile.
+   * @param token a token cancelling the compilation.
+   * @returns a promise resolved with the errors reported by inklecate when it exits.
    */
   private spawnInklecate(
     settings: InkConfigurationSettings,
     mainStoryTempPath: string,
+    outputStoryPath: string,
     inkWorkspace: InkWorkspace,
-    isPlaying: boolean = false
-  ) {
+    token?: CancellationToken
+  ): Promise<InkError[]> {
     const monoPath = getMonoPath(settings.runThroughMono);
     const command = monoPath ? monoPath : settings.inklecateExecutablePath;
-    const outputStoryPath = `${mainStoryTempPath}.json`;
-    let args: string[];
 
-    if (isPlaying) {
-      args = settings.runThroughMono
-        ? [settings.inklecateExecutablePath, "-p", mainStoryTempPath]
-        : ["-p", mainStoryTempPath];
-    } else {
-      args = settings.runThroughMono
-        ? [settings.inklecateExecutablePath, "-o", outputStoryPath, mainStoryTempPath]
-        : ["-o", outputStoryPath, mainStoryTempPath];
-    }
+    // Visits are counted everywhere, so that the state of the stories played can be inspected.
+    const inklecateArgs = ["-c", "-o", outputStoryPath, mainStoryTempPath];
+    const args = settings.runThroughMono
+      ? [settings.inklecateExecutablePath, ...inklecateArgs]
+      : inklecateArgs;
 
-    this.inklecateProcess = ChildProcess.spawn(command, args, {
+    const inklecateProcess = ChildProcess.spawn(command, args, {
       cwd: Path.dirname(settings.inklecateExecutablePath),
       env: {
         MONO_BUNDLED_OPTIONS: "--debug"
       }
     });
 
-    this.inklecateProcess.on("error", error => {
+    // Compilations are superseded by newer ones, in which case their process is killed
+    // and their results are discarded.
+    const cancellation = token
+      ? token.onCancellationRequested(() => inklecateProcess.kill())
+      : undefined;
+
+    inklecateProcess.on("error", error => {
       const platform = determinePlatform();
       const inklecateMessage = "The inklecate process could not be created or crashed: ";
       const possibleReasons: string[] = [];
@@ -165,17 +239,9 @@ export default class InklecateBackend implements IInkCompiler, IInkRunner {
 
     let errors: InkError[] = [];
 
-    if (this.inklecateProcess.stdin) {
-      this.inklecateProcess.stdin.setDefaultEncoding("utf8");
-    } else {
-      const errorMessage = "Inklecate subprocess has no stdin set, something's wrong.";
-      this.logger.console.error(`${errorMessage}`);
-      this.logger.showErrorMessage(errorMessage, false);
-    }
-
-    if (this.inklecateProcess.stderr) {
-      this.inklecateProcess.stderr.setEncoding("utf8");
-      this.inklecateProcess.stderr.on("data", text => {
+    if (inklecateProcess.stderr) {
+      inklecateProcess.stderr.setEncoding("utf8");
+      inklecateProcess.stderr.on("data", text => {
         if (typeof text === "string") {
           // Strip Byte order mark
           text = text.replace(/^\uFEFF/, "");
@@ -193,130 +259,38 @@ export default class InklecateBackend implements IInkCompiler, IInkRunner {
       this.logger.showErrorMessage(errorMessage, false);
     }
 
-    if (this.inklecateProcess.stdout) {
-      this.inklecateProcess.stdout.setEncoding("utf8");
-      this.inklecateProcess.stdout.on("data", text => {
+    if (inklecateProcess.stdout) {
+      inklecateProcess.stdout.setEncoding("utf8");
+      inklecateProcess.stdout.on("data", text => {
         if (typeof text === "string") {
-          const newErrors = this.parseErrorsOrRenderStory(
+          const newErrors = parseInkErrors(
             text,
             Path.dirname(settings.mainStoryPath),
-            inkWorkspace,
-            isPlaying
+            inkWorkspace
           );
           errors = errors.concat(newErrors);
         }
       });
-
-      this.inklecateProcess.stdout.on("close", () => {
-        if (isPlaying) {
-          this.storyRenderer.showEndOfStory();
-        }
-        this.diagnosticManager.notifyClientAndPushDiagnostics(inkWorkspace, outputStoryPath, errors);
-      });
     } else {
       const errorMessage = "Inklecate subprocess has no stdout set, something's wrong.";
       this.logger.console.error(`${errorMessage}`);
       this.logger.showErrorMessage(errorMessage, false);
     }
 
-    this.inklecateProcess.on("exit", () => {
-      this.inklecateProcess = undefined;
-    });
-  }
-
-  /**
-   * Parse the output of Inklecate and returns any errors or warnings found.
-   *
-   * @param text inklecate's output
-   * @param mainStoryPathPrefix the prefix path for the real files locations (i. e. not the
-   *                            temporary directory).
-   * @param workspace the workspace for which the compilation took place.
-   */
-  private parseErrorsOrRenderStory(
-    text: string,
-    mainStoryPathPrefix: string,
-    workspace: InkWorkspace,
-    isPlaying: boolean
-  ): InkError[] {
-    // Strip Byte order mark
-    text = text.replace(/^\uFEFF/, "");
-    if (text.length === 0) {
-      return [];
-    }
-
-    const lines = text.split("\n");
-    const inkErrors: InkError[] = [];
-
-    for (const line of lines) {
-      const trimmedLine = line.trim();
-
-      const choiceMatches = trimmedLine.match(/^(\d+):\s*(.*)/);
-      const errorMatches = trimmedLine.match(
-        /^(ERROR|WARNING|RUNTIME ERROR|RUNTIME WARNING|TODO): ('([^']+)' )?line (\d+): (.+)/
-      );
-      const tagMatches = trimmedLine.match(/^(# tags:) (.+)/);
-      const promptMatches = trimmedLine.match(/^\?>/);
-      const endOfStoryMatches = trimmedLine.match(/^--- End of story ---/);
-
-      if (errorMatches) {
-        const errorType = InkErrorType.parse(errorMatches[1]);
-        const path = Path.join(
-          Uri.parse(workspace.folder.uri).fsPath,
-          mainStoryPathPrefix,
-          errorMatches[3]
-        );
-
-        if (errorType) {
-          if (
-            errorType === InkErrorType.RuntimeError ||
-            errorType === InkErrorType.RuntimeWarning
-          ) {
-            if (isPlaying) {
-              this.storyRenderer.reportError(
-                `${errorType} while playing the story: ${
-                  errorMatches[5]
-                } (in '${path}' at line ${parseInt(errorMatches[4])})`
-              );
-            }
-          } else {
-            inkErrors.push({
-              filePath: path,
-              lineNumber: parseInt(errorMatches[4]),
-              message: errorMatches[5],
-              type: errorType
-            });
-          }
-        }
-      } else if (tagMatches) {
-        if (isPlaying) {
-          const tags = tagMatches[2].split(", ");
-          this.storyRenderer.showTag(tags);
-        }
-      } else if (choiceMatches) {
-        if (isPlaying) {
-          const choice: RuntimeChoice = {
-            index: parseInt(choiceMatches[1]),
-            text: choiceMatches[2]
-          };
-
-          this.storyRenderer.showChoice(choice);
+    return new Promise(resolve => {
+      // "close" is emitted once the output has been read entirely, but may not be
+      // emitted if the process couldn't be spawned.
+      const finish = () => {
+        if (cancellation) {
+          cancellation.dispose();
         }
-      } else if (promptMatches) {
-        if (isPlaying) {
-          this.storyRenderer.showPrompt();
-        }
-      } else if (endOfStoryMatches) {
-        if (isPlaying) {
-          this.storyRenderer.showEndOfStory();
-        }
-      } else if (line.length > 0) {
-        if (isPlaying) {
-          this.storyRenderer.showText(line);
-        }
-      }
-    }
 
-    return inkErrors;
+        resolve(errors);
+      };
+
+      inklecateProcess.on("error", finish);
+      inklecateProcess.on("close", finish);
+    });
   }
 
   private testThatInklecateIsExecutable(
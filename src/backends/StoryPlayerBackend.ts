@@ -0,0 +1,136 @@
+// Copyright (c) Frédéric Maquin <fred@ephread.com>
+// Licensed under the MIT License.
+// See LICENSE in the project root for license information.
+
+import { CancellationToken, Event } from "vscode-languageserver";
+
+import {
+  IConnectionLogger,
+  InkErrorType,
+  InkWorkspace,
+  PartialInkConfigurationSettings,
+  PlayOptions,
+  RuntimeChoice,
+  RuntimeStoryState,
+  StorySnapshot
+} from "../types/types";
+
+import { IInkCompiler, IInkRunner, PlayableStory } from "../types/backend";
+
+import { getDefaultSettings, mergeSettings } from "../helpers/configuration";
+import { createSeed, getCompilationErrorMessage } from "../helpers/play";
+import { getCompiledStoryPath } from "../helpers/utils";
+
+import StoryPlayer from "../helpers/Class/StoryPlayer";
+import StoryRenderer from "../helpers/Class/StoryRenderer";
+
+/**
+ * Plays the stories compiled by a backend with the ink runtime, through the
+ * `StoryPlayer` shared by every backend.
+ *
+ * Backends only differ in how stories are compiled, see `compilePlayableStory`.
+ */
+export default abstract class StoryPlayerBackend implements IInkCompiler, IInkRunner {
+  public readonly onDidStopStory: Event<string>;
+
+  constructor(protected storyPlayer: StoryPlayer, protected logger: IConnectionLogger) {
+    this.onDidStopStory = this.storyPlayer.onDidStopSession;
+  }
+
+  public abstract compileStory(
+    settings: PartialInkConfigurationSettings,
+    inkWorkspace: InkWorkspace,
+    token?: CancellationToken
+  ): Promise<void>;
+
+  /**
+   * Compile the story, then play it with the ink runtime. Compilation errors
+   * are reported to the session, diagnostics are left to `compileStory`.
+   */
+  public runStory(
+    settings: PartialInkConfigurationSettings,
+    inkWorkspace: InkWorkspace,
+    storyRenderer: StoryRenderer,
+    playOptions: PlayOptions = {},
+    snapshot?: StorySnapshot
+  ) {
+    const sessionId = storyRenderer.sessionId;
+
+    // The session reloads the story compiled by `compileStory`, once edited.
+    this.storyPlayer.createSession(
+      storyRenderer,
+      {
+        ...playOptions,
+        seed: playOptions.seed !== undefined ? playOptions.seed : createSeed()
+      },
+      getCompiledStoryPath(mergeSettings(settings, getDefaultSettings()), inkWorkspace)
+    );
+
+    this.compilePlayableStory(settings, inkWorkspace, sessionId)
+      .then(playableStory => {
+        if (!playableStory) {
+          this.storyPlayer.stopSession(sessionId);
+          return;
+        }
+
+        const errors = playableStory.errors.filter(error => error.type === InkErrorType.Error);
+        if (errors.length > 0 || !playableStory.json) {
+          for (const error of errors) {
+            storyRenderer.reportError(getCompilationErrorMessage(error));
+          }
+
+          this.storyPlayer.stopSession(sessionId);
+          return;
+        }
+
+        // The session may have been stopped in the meantime.
+        if (this.storyPlayer.hasSession(sessionId)) {
+          this.storyPlayer.loadStory(sessionId, playableStory.json, snapshot);
+        }
+      })
+      .catch(error => {
+        this.logger.console.error(`Could not play ${inkWorkspace.folder.name} - ${error.message}`);
+        storyRenderer.reportError(`The story could not be played: ${error.message}`);
+        this.storyPlayer.stopSession(sessionId);
+      });
+  }
+
+  public chooseOption(sessionId: string, index: number) {
+    this.storyPlayer.chooseOption(sessionId, index);
+  }
+
+  public stopStory(sessionId: string) {
+    this.storyPlayer.stopSession(sessionId);
+  }
+
+  public getChoicePath(sessionId: string): RuntimeChoice[] | undefined {
+    return this.storyPlayer.getChoicePath(sessionId);
+  }
+
+  public rewindStory(sessionId: string, choiceCount: number) {
+    this.storyPlayer.rewind(sessionId, choiceCount);
+  }
+
+  public getStoryState(sessionId: string): RuntimeStoryState | undefined {
+    return this.storyPlayer.getStoryState(sessionId);
+  }
+
+  public createSnapshot(sessionId: string): StorySnapshot | undefined {
+    return this.storyPlayer.createSnapshot(sessionId);
+  }
+
+  /**
+   * Compile the story to play in the given session.
+   *
+   * @param settings the configuration settings to use.
+   * @param inkWorkspace the workspace to compile.
+   * @param sessionId the id of the session which will play the story.
+   * @returns a promise resolved with the compiled story and the errors reported,
+   *          or with `undefined` if the story couldn't be compiled.
+   */
+  protected abstract compilePlayableStory(
+    settings: PartialInkConfigurationSettings,
+    inkWorkspace: InkWorkspace,
+    sessionId: string
+  ): Promise<PlayableStory | undefined>;
+}
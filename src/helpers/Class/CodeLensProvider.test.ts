@@ -0,0 +1,49 @@
+// Copyright (c) Frédéric Maquin <fred@ephread.com>
+// Licensed under the MIT License.
+// See LICENSE in the project root for license information.
+
+import { TextDocument } from "vscode-languageserver";
+
+import { Commands } from "../../types/identifiers";
+
+import { createDocumentManager } from "../../tests/helpers/documents";
+import mockedLogger from "../../tests/helpers/logger";
+
+import CodeLensProvider from "./CodeLensProvider";
+import SyntaxTreeManager from "./SyntaxTreeManager";
+
+const uri = "file:///project/main.ink";
+const document = TextDocument.create(
+  uri,
+  "ink",
+  1,
+  [
+    "-> intro",
+    "=== intro ===",
+    "Hello.",
+    "-> meet(-> intro)",
+    "=== meet(-> target) ===",
+    "-> target",
+    "=== function add(a, b) ===",
+    "~ return a + b",
+    "=== outro",
+    "-> END"
+  ].join("\n")
+);
+
+const provider = new CodeLensProvider(
+  new SyntaxTreeManager(createDocumentManager([document]), mockedLogger.logger)
+);
+
+describe("provideCodeLenses", () => {
+  it("offers to play from knots without parameters", () => {
+    const lenses = provider.provideCodeLenses({ textDocument: { uri } });
+
+    expect(lenses.map(lens => lens.range.start.line)).toEqual([1, 8]);
+    expect(lenses[0].command).toEqual({
+      title: "Play from here",
+      command: Commands.playStory,
+      arguments: [uri, { startPath: "intro" }]
+    });
+  });
+});
@@ -0,0 +1,46 @@
+// Copyright (c) Frédéric Maquin <fred@ephread.com>
+// Licensed under the MIT License.
+// See LICENSE in the project root for license information.
+
+import { CodeLens, CodeLensParams, Command } from "vscode-languageserver";
+
+import { Commands } from "../../types/identifiers";
+import { SyntaxKind } from "../../types/syntax";
+import { PlayOptions } from "../../types/types";
+
+import SyntaxTreeManager from "./SyntaxTreeManager";
+
+/**
+ * Provides "Play from here" code lenses, above the header of each knot
+ * which can be played directly.
+ */
+export default class CodeLensProvider {
+  constructor(private syntaxTreeManager: SyntaxTreeManager) {}
+
+  /**
+   * Returns the code lenses of the requested document.
+   *
+   * @param params parameters sent by the client.
+   */
+  public provideCodeLenses(params: CodeLensParams): CodeLens[] {
+    const tree = this.syntaxTreeManager.getSyntaxTree(params.textDocument.uri);
+    if (!tree) {
+      return [];
+    }
+
+    // Functions and knots expecting parameters can't be diverted to without arguments.
+    return tree.knots
+      .filter(knot => knot.kind === SyntaxKind.Knot && knot.parameters.length === 0)
+      .map(knot => {
+        const playOptions: PlayOptions = { startPath: knot.name.name };
+        const command = Command.create(
+          "Play from here",
+          Commands.playStory,
+          params.textDocument.uri,
+          playOptions
+        );
+
+        return { range: knot.name.range, command };
+      });
+  }
+}
@@ -0,0 +1,287 @@
+// Copyright (c) Frédéric Maquin <fred@ephread.com>
+// Licensed under the MIT License.
+// See LICENSE in the project root for license information.
+
+import * as Fs from "fs-extra";
+import * as Os from "os";
+import * as Path from "path";
+
+import { Emitter } from "vscode-languageserver";
+import URI from "vscode-uri";
+
+import { IInkCompiler, IInkRunner } from "../../types/backend";
+import { Commands, RuntimeNotification } from "../../types/identifiers";
+import { InkWorkspace, PartialInkConfigurationSettings } from "../../types/types";
+
+import { getDefaultSettings } from "../configuration";
+
+import { createTestConnection } from "../../tests/helpers/connection";
+import { createDocumentManager } from "../../tests/helpers/documents";
+import mockedLogger from "../../tests/helpers/logger";
+import { createWorkspaceManager } from "../../tests/helpers/workspace";
+
+import CommandRunner from "./CommandRunner";
+import StoryRenderer from "./StoryRenderer";
+
+const workspace: InkWorkspace = { folder: { uri: "file:///story", name: "story" } };
+
+function createRunner(): IInkRunner {
+  return {
+    onDidStopStory: new Emitter<string>().event,
+    runStory: jest.fn(),
+    chooseOption: jest.fn(),
+    stopStory: jest.fn(),
+    getChoicePath: jest.fn(() => [
+      { index: 1, text: "Go left" },
+      { index: 2, text: "Open the door" },
+      { index: 1, text: "Run" }
+    ]),
+    rewindStory: jest.fn(),
+    getStoryState: jest.fn(() => undefined),
+    createSnapshot: jest.fn(() => undefined)
+  };
+}
+
+function createCommandRunner() {
+  const connection = createTestConnection();
+  const sendNotification = jest.spyOn(connection, "sendNotification").mockReturnValue(undefined);
+
+  const compiler: IInkCompiler = { compileStory: jest.fn(async () => undefined) };
+  const runner = createRunner();
+
+  const workspaceManager = createWorkspaceManager(createDocumentManager(), [workspace]);
+  jest
+    .spyOn(workspaceManager, "getDocumentPathFromParams")
+    .mockResolvedValue({ documentPath: "/story/main.ink", workspace });
+  jest.spyOn(workspaceManager, "getCompilationSettings").mockResolvedValue(getDefaultSettings());
+
+  const commandRunner = new CommandRunner(
+    connection,
+    workspaceManager,
+    compiler,
+    runner,
+    mockedLogger.logger
+  );
+
+  return { commandRunner, compiler, connection: { sendNotification }, runner, workspaceManager };
+}
+
+function flushPromises() {
+  return new Promise(resolve => setImmediate(resolve));
+}
+
+describe("CommandRunner", () => {
+  it("plays each story in its own session", async () => {
+    const { commandRunner, compiler, runner } = createCommandRunner();
+
+    const firstSessionId = commandRunner.playStory({ command: Commands.playStory });
+    const secondSessionId = commandRunner.playStory({ command: Commands.playStory });
+    await flushPromises();
+
+    expect(firstSessionId).not.toEqual(secondSessionId);
+    expect(compiler.compileStory).not.toHaveBeenCalled();
+
+    const renderers: StoryRenderer[] = (runner.runStory as jest.Mock).mock.calls.map(
+      ([, , storyRenderer]) => storyRenderer
+    );
+    expect(renderers.map(renderer => renderer.sessionId)).toEqual([
+      firstSessionId,
+      secondSessionId
+    ]);
+  });
+
+  it("ends the session if the story can't be played", async () => {
+    const { commandRunner, connection, runner, workspaceManager } = createCommandRunner();
+    workspaceManager.canCompile = false;
+
+    const sessionId = commandRunner.playStory({ command: Commands.playStory });
+    await flushPromises();
+
+    expect(runner.runStory).not.toHaveBeenCalled();
+    expect(connection.sendNotification).toHaveBeenCalledWith(RuntimeNotification.endOfStory, {
+      sessionId
+    });
+  });
+
+  it("plays stories from the given start path", async () => {
+    const { commandRunner, runner } = createCommandRunner();
+
+    commandRunner.playStory({
+      command: Commands.playStory,
+      arguments: ["file:///story/main.ink", { startPath: "chapter_2", variables: { gold: 1 } }]
+    });
+    await flushPromises();
+
+    expect((runner.runStory as jest.Mock).mock.calls[0][3]).toEqual({
+      startPath: "chapter_2",
+      variables: { gold: 1 }
+    });
+  });
+
+  it("ends the session if the play options are invalid", async () => {
+    const { commandRunner, connection, runner } = createCommandRunner();
+
+    const sessionId = commandRunner.playStory({
+      command: Commands.playStory,
+      arguments: ["file:///story/main.ink", { startPath: "-> END" }]
+    });
+    await flushPromises();
+
+    expect(runner.runStory).not.toHaveBeenCalled();
+    expect(connection.sendNotification).toHaveBeenCalledWith(RuntimeNotification.endOfStory, {
+      sessionId
+    });
+  });
+
+  it("routes choices and stops to the given session", () => {
+    const { commandRunner, runner } = createCommandRunner();
+
+    commandRunner.selectOption({ command: Commands.selectOption, arguments: ["session", 0] });
+    commandRunner.stopStory({ command: Commands.killInklecate, arguments: ["session"] });
+
+    expect(runner.chooseOption).toHaveBeenCalledWith("session", 0);
+    expect(runner.stopStory).toHaveBeenCalledWith("session");
+  });
+
+  it("steps back by the given number of choices", () => {
+    const { commandRunner, runner } = createCommandRunner();
+
+    commandRunner.stepBack({ command: Commands.stepBack, arguments: ["session"] });
+    commandRunner.stepBack({ command: Commands.stepBack, arguments: ["session", 2] });
+    commandRunner.stepBack({ command: Commands.stepBack, arguments: ["session", 5] });
+
+    expect((runner.rewindStory as jest.Mock).mock.calls).toEqual([
+      ["session", 2],
+      ["session", 1],
+      ["session", 0]
+    ]);
+  });
+
+  it("rewinds to earlier choice points only", () => {
+    const { commandRunner, runner } = createCommandRunner();
+
+    commandRunner.rewindToChoice({ command: Commands.rewindToChoice, arguments: ["session", 1] });
+    commandRunner.rewindToChoice({ command: Commands.rewindToChoice, arguments: ["session", 3] });
+
+    expect((runner.rewindStory as jest.Mock).mock.calls).toEqual([["session", 1]]);
+  });
+
+  it("doesn't save snapshots of sessions which aren't being played", async () => {
+    const { commandRunner, runner } = createCommandRunner();
+
+    await commandRunner.saveSnapshot({
+      command: Commands.saveSnapshot,
+      arguments: ["file:///story/main.ink", "session", "chapter_2"]
+    });
+
+    expect(runner.createSnapshot).toHaveBeenCalledWith("session");
+    expect(mockedLogger.mocks.showErrorMessage).toHaveBeenCalledWith(
+      "The snapshot could not be saved: the session 'session' isn't being played.",
+      true
+    );
+  });
+
+  it("ends the session if the snapshot can't be restored", async () => {
+    const { commandRunner, connection, runner } = createCommandRunner();
+
+    const sessionId = commandRunner.restoreSnapshot({
+      command: Commands.restoreSnapshot,
+      arguments: ["file:///story/main.ink", "../chapter_2"]
+    });
+    await flushPromises();
+
+    expect(runner.runStory).not.toHaveBeenCalled();
+    expect(connection.sendNotification).toHaveBeenCalledWith(RuntimeNotification.endOfStory, {
+      sessionId
+    });
+  });
+
+  it("ignores choices which don't specify a session", () => {
+    const { commandRunner, runner } = createCommandRunner();
+
+    commandRunner.selectOption({ command: Commands.selectOption, arguments: [0] });
+
+    expect(runner.chooseOption).not.toHaveBeenCalled();
+  });
+});
+
+describe("compileStory", () => {
+  // '#' would start the fragment of a uri, paths can't be parsed as uris.
+  const directory = Path.join(Os.tmpdir(), "ink.language.server.compile#command");
+
+  /**
+   * Run the compile command through the actual workspace manager, resolving
+   * with the settings with which the story was compiled.
+   */
+  function compileStory(relativePath?: string): Promise<PartialInkConfigurationSettings> {
+    return new Promise(resolve => {
+      const connection = createTestConnection();
+      const compiler: IInkCompiler = { compileStory: async settings => resolve(settings) };
+      const workspaceManager = createWorkspaceManager(
+        createDocumentManager(),
+        [{ folder: { uri: URI.file(directory).toString(), name: "story" } }],
+        compiler,
+        connection
+      );
+      const commandRunner = new CommandRunner(
+        connection,
+        workspaceManager,
+        compiler,
+        createRunner(),
+        mockedLogger.logger
+      );
+
+      commandRunner.compileStory({
+        command: Commands.compileStory,
+        arguments: relativePath
+          ? [URI.file(Path.join(directory, relativePath)).toString()]
+          : undefined
+      });
+    });
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  afterEach(() => {
+    Fs.removeSync(directory);
+  });
+
+  it("compiles the story including the given document", async () => {
+    Fs.outputFileSync(Path.join(directory, "demo.ink"), "INCLUDE demo_chapter.ink\n-> demo");
+    Fs.outputFileSync(Path.join(directory, "demo_chapter.ink"), "=== demo ===\n-> END");
+    Fs.outputFileSync(Path.join(directory, "story.ink"), "INCLUDE chapter.ink\n-> chapter");
+    Fs.outputFileSync(Path.join(directory, "chapter.ink"), "=== chapter ===\n-> END");
+
+    const settings = await compileStory("chapter.ink");
+
+    expect(settings.mainStoryPath).toBe("story.ink");
+    expect(settings.compilationDelay).toBe(0);
+    expect(mockedLogger.mocks.showWarningMessage).not.toHaveBeenCalled();
+  });
+
+  it("compiles the story of the workspace when no document is given", async () => {
+    Fs.outputFileSync(Path.join(directory, "story.ink"), "INCLUDE chapter.ink\n-> chapter");
+    Fs.outputFileSync(Path.join(directory, "chapter.ink"), "=== chapter ===\n-> END");
+
+    const settings = await compileStory();
+
+    expect(settings.mainStoryPath).toBe("story.ink");
+    expect(mockedLogger.mocks.showWarningMessage).not.toHaveBeenCalled();
+  });
+
+  it("tells the user which story was compiled when no document is given", async () => {
+    Fs.outputFileSync(Path.join(directory, "demo.ink"), "-> END");
+    Fs.outputFileSync(Path.join(directory, "story.ink"), "-> END");
+
+    const settings = await compileStory();
+
+    expect(settings.mainStoryPath).toBe("demo.ink");
+    expect(mockedLogger.mocks.showWarningMessage).toHaveBeenCalledWith(
+      "The workspace contains several stories ('demo.ink', 'story.ink'), 'demo.ink' was " +
+        "compiled. Set 'ink.mainStoryPath' to choose the main story.",
+      true
+    );
+  });
+});
@@ -2,15 +2,27 @@
 // Licensed under the MIT License.
 // See LICENSE in the project root for license information.
 
+import * as Uuid from "uuid/v4";
+
 import { ExecuteCommandParams, IConnection } from "vscode-languageserver/lib/main";
+import URI from "vscode-uri";
 
 import { IInkCompiler, IInkRunner } from "../../types/backend";
 import { Commands } from "../../types/identifiers";
-import { IConnectionLogger, InkWorkspace } from "../../types/types";
+import {
+  IConnectionLogger,
+  InkWorkspace,
+  PlayOptions,
+  RuntimeSessionParams,
+  RuntimeStoryState,
+  StorySnapshot
+} from "../../types/types";
+
+import { parsePlayOptions } from "../play";
+import { readSnapshot, writeSnapshot } from "../snapshot";
 
 import StoryRenderer from "./StoryRenderer";
 import WorkspaceManager from "./WorkspaceManager";
-import { getDefaultSettings, mergeSettings } from "../configuration";
 
 /**
  * Runs command sent by the client.
@@ -34,7 +46,10 @@ export default class CommandRunner {
 
     this.workspaceManager.getDocumentPathFromParams(params).then(
       pathAndWorkspace => {
-        this.executeCompileCommand(pathAndWorkspace.documentPath, pathAndWorkspace.workspace);
+        this.executeCompileCommand(
+          URI.file(pathAndWorkspace.documentPath).toString(),
+          pathAndWorkspace.workspace
+        );
       },
       errorMessage => {
         const message = `The project could not be compiled: ${errorMessage}`;
@@ -46,69 +61,261 @@ export default class CommandRunner {
   }
 
   /**
-   * Run the story to which the given URI belong.
+   * Run the story to which the given URI belong, in a new play session.
    *
-   * @param params compile parameters, containing a file URI.
+   * @param params compile parameters, containing a file URI and optional `PlayOptions`.
+   * @returns the id of the play session, sent with every runtime notification.
    */
-  public playStory(params: ExecuteCommandParams) {
+  public playStory(params: ExecuteCommandParams): string {
     this.logger.console.info("Received play story command.");
 
+    const storyRenderer = new StoryRenderer(this.connection, Uuid());
+
+    let playOptions: PlayOptions | undefined;
+    try {
+      playOptions = parsePlayOptions(params.arguments && params.arguments[1]);
+    } catch (error) {
+      const message = `The story could not be played: ${error.message}`;
+      this.logger.showErrorMessage(message, true);
+      storyRenderer.showEndOfStory();
+
+      return storyRenderer.sessionId;
+    }
+
     this.workspaceManager.getDocumentPathFromParams(params).then(
       pathAndWorkspace => {
-        this.executeCompileCommand(pathAndWorkspace.documentPath, pathAndWorkspace.workspace, true);
+        this.executeCompileCommand(
+          URI.file(pathAndWorkspace.documentPath).toString(),
+          pathAndWorkspace.workspace,
+          storyRenderer,
+          playOptions
+        );
       },
       errorMessage => {
         const message = `The project could not be compiled: ${errorMessage}`;
         this.logger.showErrorMessage(message, true);
+        storyRenderer.showEndOfStory();
       }
     );
 
-    return true;
+    return storyRenderer.sessionId;
   }
 
   /**
-   * If a story is currently playing and prompting for a choice selection,
+   * If the given session is prompting for a choice selection,
    * select the choice at the given index.
    *
-   * @param params parameters, containing the index of the chocie to select.
+   * @param params parameters, containing the id of the session and
+   *               the index of the choice to select.
    */
   public selectOption(params: ExecuteCommandParams) {
     this.logger.console.info("Received select option command.");
 
-    if (!params.arguments || !params.arguments[0]) {
+    if (!params.arguments || params.arguments.length < 2) {
       this.logger.showErrorMessage(
-        `${Commands.selectOption} error: the command was called with no arguments.`,
+        `${Commands.selectOption} error: the command expects a session id and a choice index.`,
         true
       );
       return;
     }
 
-    const index = parseInt(params.arguments[0]);
+    const sessionId = `${params.arguments[0]}`;
+    const index = parseInt(params.arguments[1]);
 
-    this.runner.chooseOption(index);
+    this.runner.chooseOption(sessionId, index);
   }
 
   /**
-   * Kill the current Inklecate process, if applicable.
+   * Stop the given play session, if it's still running.
+   *
+   * @param params parameters, containing the id of the session.
    */
-  public stopCurrentStory() {
+  public stopStory(params: ExecuteCommandParams) {
     this.logger.console.info("Received stop story command.");
 
-    this.runner.stopCurrentStory();
+    if (!params.arguments || params.arguments.length < 1) {
+      this.logger.showErrorMessage(
+        `${Commands.killInklecate} error: the command expects a session id.`,
+        true
+      );
+      return;
+    }
+
+    this.runner.stopStory(`${params.arguments[0]}`);
+  }
+
+  /**
+   * Rewind the given play session by a number of choices, one by default.
+   *
+   * @param params parameters, containing the id of the session and
+   *               the number of choices to undo.
+   */
+  public stepBack(params: ExecuteCommandParams) {
+    this.logger.console.info("Received step back command.");
+
+    if (!params.arguments || params.arguments.length < 1) {
+      this.logger.showErrorMessage(
+        `${Commands.stepBack} error: the command expects a session id.`,
+        true
+      );
+      return;
+    }
+
+    const sessionId = `${params.arguments[0]}`;
+    const stepCount = params.arguments.length > 1 ? parseInt(params.arguments[1]) : 1;
+    const choicePath = this.runner.getChoicePath(sessionId);
+
+    if (!choicePath || isNaN(stepCount) || stepCount < 1) {
+      return;
+    }
+
+    this.runner.rewindStory(sessionId, Math.max(0, choicePath.length - stepCount));
+  }
+
+  /**
+   * Rewind the given play session to an earlier choice point.
+   *
+   * @param params parameters, containing the id of the session and the
+   *               position of the choice in the choice path.
+   */
+  public rewindToChoice(params: ExecuteCommandParams) {
+    this.logger.console.info("Received rewind to choice command.");
+
+    if (!params.arguments || params.arguments.length < 2) {
+      this.logger.showErrorMessage(
+        `${Commands.rewindToChoice} error: the command expects a session id and a choice position.`,
+        true
+      );
+      return;
+    }
+
+    const sessionId = `${params.arguments[0]}`;
+    const position = parseInt(params.arguments[1]);
+    const choicePath = this.runner.getChoicePath(sessionId);
+
+    if (!choicePath || isNaN(position) || position < 0 || position >= choicePath.length) {
+      return;
+    }
+
+    this.runner.rewindStory(sessionId, position);
+  }
+
+  /**
+   * Save the runtime state of the given play session into a named snapshot,
+   * stored in the workspace to which the given URI belong.
+   *
+   * @param params parameters, containing a file URI, the id of the session
+   *               and the name of the snapshot.
+   * @returns a promise resolved once the snapshot was saved or couldn't be.
+   */
+  public saveSnapshot(params: ExecuteCommandParams): Promise<void> {
+    this.logger.console.info("Received save snapshot command.");
+
+    if (!params.arguments || params.arguments.length < 3) {
+      this.logger.showErrorMessage(
+        `${Commands.saveSnapshot} error: the command expects a file URI, a session id and a name.`,
+        true
+      );
+      return Promise.resolve();
+    }
+
+    const sessionId = `${params.arguments[1]}`;
+    const name = params.arguments[2];
+    const snapshot = this.runner.createSnapshot(sessionId);
+
+    if (!snapshot) {
+      const message = `The snapshot could not be saved: the session '${sessionId}' isn't being played.`;
+      this.logger.showErrorMessage(message, true);
+      return Promise.resolve();
+    }
+
+    return this.workspaceManager
+      .getDocumentPathFromParams(params)
+      .then(pathAndWorkspace => writeSnapshot(pathAndWorkspace.workspace, name, snapshot))
+      .then(
+        () => {
+          this.logger.showInformationMessage(`The snapshot '${name}' was saved.`, true);
+        },
+        error => {
+          const message = `The snapshot could not be saved: ${error.message || error}`;
+          this.logger.showErrorMessage(message, true);
+        }
+      );
+  }
+
+  /**
+   * Restore a named snapshot, stored in the workspace to which the given URI belong,
+   * in a new play session.
+   *
+   * @param params parameters, containing a file URI and the name of the snapshot.
+   * @returns the id of the play session, sent with every runtime notification.
+   */
+  public restoreSnapshot(params: ExecuteCommandParams): string {
+    this.logger.console.info("Received restore snapshot command.");
+
+    const storyRenderer = new StoryRenderer(this.connection, Uuid());
+
+    if (!params.arguments || params.arguments.length < 2) {
+      this.logger.showErrorMessage(
+        `${Commands.restoreSnapshot} error: the command expects a file URI and a name.`,
+        true
+      );
+      storyRenderer.showEndOfStory();
+
+      return storyRenderer.sessionId;
+    }
+
+    const name = params.arguments[1];
+
+    this.workspaceManager
+      .getDocumentPathFromParams(params)
+      .then(async pathAndWorkspace => {
+        const snapshot = await readSnapshot(pathAndWorkspace.workspace, name);
+
+        this.executeCompileCommand(
+          URI.file(pathAndWorkspace.documentPath).toString(),
+          pathAndWorkspace.workspace,
+          storyRenderer,
+          snapshot.playOptions,
+          snapshot
+        );
+      })
+      .catch(error => {
+        const message = `The snapshot could not be restored: ${error.message || error}`;
+        this.logger.showErrorMessage(message, true);
+        storyRenderer.showEndOfStory();
+      });
+
+    return storyRenderer.sessionId;
+  }
+
+  /**
+   * Returns the state of the story played by the given session, or `null` if
+   * the session doesn't exist or hasn't started yet.
+   *
+   * @param params parameters, containing the id of the session.
+   */
+  public getStoryState(params: RuntimeSessionParams): RuntimeStoryState | null {
+    return this.runner.getStoryState(params.sessionId) || null;
   }
 
   /**
    * Compile the story contained in `workspace`.
-   * `documentPath` is required to retrieve the proper settings, which
+   * `documentUri` is required to retrieve the proper settings, which
    * are scoped to the resource.
    *
    * @param documentUri the document URI used to retrieved the settings.
    * @param workspace the ink workspace to compile.
+   * @param storyRenderer the renderer of the play session, if the story should be played.
+   * @param playOptions the options of the play session.
+   * @param snapshot the snapshot from which the play session should resume.
    */
   private async executeCompileCommand(
     documentUri: string,
     workspace: InkWorkspace,
-    play: boolean = false
+    storyRenderer?: StoryRenderer,
+    playOptions?: PlayOptions,
+    snapshot?: StorySnapshot
   ) {
     if (!this.workspaceManager.canCompile) {
       this.logger.console.info(
@@ -118,16 +325,21 @@ export default class CommandRunner {
         "Ink support is still initializing, please try again in a few seconds.",
         false
       );
+
+      if (storyRenderer) {
+        storyRenderer.showEndOfStory();
+      }
+
       return;
     }
 
-    let documentSettings = await this.workspaceManager.fetchDocumentConfigurationSettings(documentUri);
-    let defaultSettings = getDefaultSettings();
-    let settings = mergeSettings(documentSettings, this.workspaceManager.initializationOptions);
-    settings = mergeSettings(settings, defaultSettings);
+    const settings = await this.workspaceManager.getCompilationSettings(workspace, documentUri);
 
-    const storyRenderer = play ? new StoryRenderer(this.connection) : undefined;
-
-    this.compiler.compileStory(settings, workspace);
+    if (storyRenderer) {
+      this.runner.runStory(settings, workspace, storyRenderer, playOptions, snapshot);
+    } else {
+      // Explicit compilations aren't debounced.
+      this.compiler.compileStory({ ...settings, compilationDelay: 0 }, workspace);
+    }
   }
 }
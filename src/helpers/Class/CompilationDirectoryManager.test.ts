@@ -4,22 +4,22 @@
 
 jest.mock("uuid/v4", () => () => "00000000-0000-0000-0000-000000000000");
 
-import { Position, Range, TextDocument, WorkspaceFolder } from "vscode-languageserver";
+import { TextDocument, WorkspaceFolder } from "vscode-languageserver";
 
 import {
-  IConnectionLogger,
   InkWorkspace
 } from "../../types/types";
 
+import { createDocumentManager, TestTextDocuments } from "../../tests/helpers/documents";
 import mockedLogger from '../../tests/helpers/logger';
 
 import CompilationDirectoryManager from "../../helpers/Class/CompilationDirectoryManager";
+import VirtualFileSystem from "../../helpers/Class/VirtualFileSystem";
 
 import * as Fs from "fs";
 import * as FsExtra from "fs-extra";
 import * as Os from "os";
 import * as Path from "path";
-import Uri from "vscode-uri";
 
 const defaultUuid = "00000000-0000-0000-0000-000000000000";
 
@@ -32,22 +32,49 @@ const workspaceFolder: WorkspaceFolder = {
   name: "ink"
 };
 
+const inkWorkspace: InkWorkspace = {
+  folder: workspaceFolder,
+  temporaryCompilationDirectory: compileTmpDirectory
+};
+
 const logger = mockedLogger.logger;
 const mocks = mockedLogger.mocks;
 
-const directoryManager = new CompilationDirectoryManager(logger);
+const documentManager = createDocumentManager();
+const virtualFileSystem = new VirtualFileSystem(documentManager);
+
+let directoryManager = new CompilationDirectoryManager(virtualFileSystem, logger);
 
-describe("prepareTempDirectoryForCompilation", () => {
-  beforeEach(() => {
-    jest.clearAllMocks();
-    FsExtra.removeSync(compileTmpDirectory);
-    FsExtra.removeSync(projectDirectory);
+beforeEach(() => {
+  jest.clearAllMocks();
+  FsExtra.removeSync(compileTmpDirectory);
+  FsExtra.removeSync(projectDirectory);
+
+  openDocuments([]);
+  directoryManager = new CompilationDirectoryManager(virtualFileSystem, logger);
+});
+
+describe("createTempDirectoryPath", () => {
+  it("returns a path without creating the directory", () => {
+    expect(directoryManager.createTempDirectoryPath()).toBe(compileTmpDirectory);
+    expect(Fs.existsSync(compileTmpDirectory)).toBe(false);
+  });
+});
+
+describe("mirrorWorkspace", () => {
+  it("reject the promise if the workspace has no temporary directory", done => {
+    directoryManager.mirrorWorkspace({ folder: workspaceFolder }).then(() => {
+      fail('then() should not have been called.');
+    }).catch((error) => {
+      expect(error).toBeTruthy();
+      done();
+    });
   });
 
   it("reject the promise if the temp directory could not be created", done => {
-    Fs.mkdirSync(compileTmpDirectory);
+    Fs.closeSync(Fs.openSync(compileTmpDirectory, "w"));
 
-    directoryManager.prepareTempDirectoryForCompilation(workspaceFolder).then(() => {
+    directoryManager.mirrorWorkspace(inkWorkspace).then(() => {
       fail('then() should not have been called.');
     }).catch(() => {
       expect(mocks.consoleInfo.mock.calls.length).toBe(1);
@@ -57,7 +84,7 @@ describe("prepareTempDirectoryForCompilation", () => {
   });
 
   it("reject the promise if the workspace directory doesn't exist", done => {
-    directoryManager.prepareTempDirectoryForCompilation(workspaceFolder).then(() => {
+    directoryManager.mirrorWorkspace(inkWorkspace).then(() => {
       fail('then() should not have been called.');
       done();
     }).catch(() => {
@@ -71,7 +98,7 @@ describe("prepareTempDirectoryForCompilation", () => {
     createFakeProject();
     Fs.chmodSync(Path.join(projectDirectory, "main.ink"), 0o000);
 
-    directoryManager.prepareTempDirectoryForCompilation(workspaceFolder).then(() => {
+    directoryManager.mirrorWorkspace(inkWorkspace).then(() => {
       fail('then() should not have been called.');
       done();
     }).catch(() => {
@@ -85,8 +112,7 @@ describe("prepareTempDirectoryForCompilation", () => {
   it("copies correctly", done => {
     createFakeProject();
 
-    directoryManager.prepareTempDirectoryForCompilation(workspaceFolder).then((tempDirectory) => {
-      expect(tempDirectory).toBe(compileTmpDirectory);
+    directoryManager.mirrorWorkspace(inkWorkspace).then(() => {
       expect(mocks.consoleInfo.mock.calls.length).toBe(3);
 
       expect(() => {
@@ -104,7 +130,7 @@ describe("prepareTempDirectoryForCompilation", () => {
   it("copies only ink files", done => {
     createFakeProject();
 
-    directoryManager.prepareTempDirectoryForCompilation(workspaceFolder).then((tempDirectory) => {
+    directoryManager.mirrorWorkspace(inkWorkspace).then(() => {
       expect(() => {
         Fs.statSync(Path.join(compileTmpDirectory, "main.ink"));
         Fs.statSync(Path.join(compileTmpDirectory, "story/story.ink2"));
@@ -120,98 +146,137 @@ describe("prepareTempDirectoryForCompilation", () => {
       done();
     });
   });
-});
 
-// describe("copyNewlyCreatedFile", () => {
-
-// });
-
-describe("updateFile", () => {
-  const content = "Hello world!\n";
-
-  class TestTextDocument implements TextDocument {
-    public uri = `file://${Path.join(projectDirectory, "main.ink")}`;
-    public languageId = "";
-    public version = 0;
-    public lineCount = 0;
-    public getText(range?: Range): string {
-      return content;
-    }
-    public positionAt(offset: number): Position {
-      return Position.create(0, 0);
-    }
-    public offsetAt(position: Position): number {
-      return 0;
-    }
-  }
-
-  const textDocument = new TestTextDocument();
-
-  const emptyInkWorkspace: InkWorkspace = {
-    folder: workspaceFolder
-  };
-
-  const inkWorkspace: InkWorkspace = {
-    folder: workspaceFolder,
-    temporaryCompilationDirectory: compileTmpDirectory
-  };
-
-  beforeEach(() => {
-    jest.clearAllMocks();
-    FsExtra.removeSync(compileTmpDirectory);
-    FsExtra.removeSync(projectDirectory);
-  });
-
-  it("Logs an error if the workspace does not exist", done => {
-    // tslint:disable-next-line no-empty
-    directoryManager.updateFile(textDocument, emptyInkWorkspace).then(() => {
-      fail('then() should not have been called.');
-    }).catch((error) => {
-      expect(error).toBeTruthy();
-      done();
-    });
+  it("copies the workspace only once", async () => {
+    createFakeProject();
+
+    await directoryManager.mirrorWorkspace(inkWorkspace);
+    Fs.writeFileSync(Path.join(projectDirectory, "main.ink"), "Hello world!\n");
+    await directoryManager.mirrorWorkspace(inkWorkspace);
+
+    expect(mocks.consoleInfo.mock.calls.length).toBe(3);
+    expect(Fs.readFileSync(Path.join(compileTmpDirectory, "main.ink"), "utf8")).toBe("");
   });
 
-  it("Calls the callback with an error if the file could not be updated", done => {
-    const filePath = Path.relative(
-      Uri.parse(inkWorkspace.folder.uri).fsPath,
-      Uri.parse(textDocument.uri).fsPath
+  it("writes the documents opened by the client", async () => {
+    createFakeProject();
+    openDocuments([createDocument("main.ink", "Hello world!\n")]);
+
+    await directoryManager.mirrorWorkspace(inkWorkspace);
+    expect(Fs.readFileSync(Path.join(compileTmpDirectory, "main.ink"), "utf8")).toBe(
+      "Hello world!\n"
     );
 
-    const temporaryfilePath = Path.join(
-      inkWorkspace.temporaryCompilationDirectory!,
-      filePath
+    openDocuments([createDocument("main.ink", "Hello again!\n")]);
+
+    await directoryManager.mirrorWorkspace(inkWorkspace);
+    expect(Fs.readFileSync(Path.join(compileTmpDirectory, "main.ink"), "utf8")).toBe(
+      "Hello again!\n"
     );
+  });
 
+  it("restores the documents closed by the client", async () => {
     createFakeProject();
+    openDocuments([
+      createDocument("main.ink", "Hello world!\n"),
+      createDocument("story/unsaved.ink", "Hello world!\n")
+    ]);
 
-    directoryManager.prepareTempDirectoryForCompilation(workspaceFolder).then((tempDirectory) => {
-      Fs.chmodSync(temporaryfilePath, 0o000);
+    await directoryManager.mirrorWorkspace(inkWorkspace);
 
-      directoryManager.updateFile(textDocument, inkWorkspace).then(() => {
-        fail('then() should not have been called.');
-      }).catch((error) => {
-        expect(error).toBeTruthy();
-        done();
-      });
-    });
+    openDocuments([]);
+
+    await directoryManager.mirrorWorkspace(inkWorkspace);
+    expect(Fs.readFileSync(Path.join(compileTmpDirectory, "main.ink"), "utf8")).toBe("");
+    expect(Fs.existsSync(Path.join(compileTmpDirectory, "story/unsaved.ink"))).toBe(false);
   });
+});
 
-  it("Updates the file", done => {
-    Fs.mkdirSync(Path.join(compileTmpDirectory));
-    Fs.closeSync(Fs.openSync(Path.join(compileTmpDirectory, "main.ink"), "w"));
+describe("synchronizePath", () => {
+  it("ignores workspaces which aren't mirrored yet", async () => {
+    createFakeProject();
 
-    directoryManager.updateFile(textDocument, inkWorkspace).then(() => {
-      const fileContent = Fs.readFileSync(Path.join(compileTmpDirectory, "main.ink"), "utf8");
-      expect(fileContent).toBe(content);
+    await directoryManager.synchronizePath(Path.join(projectDirectory, "main.ink"), inkWorkspace);
 
-      done();
-    }).catch(() => {
-      fail('catch() should not have been called.');
-    });
+    expect(Fs.existsSync(compileTmpDirectory)).toBe(false);
+  });
+
+  it("copies the files created or changed on disk", async () => {
+    createFakeProject();
+    await directoryManager.mirrorWorkspace(inkWorkspace);
+
+    Fs.writeFileSync(Path.join(projectDirectory, "main.ink"), "Hello world!\n");
+    Fs.writeFileSync(Path.join(projectDirectory, "story/new.ink"), "Hello world!\n");
+    Fs.writeFileSync(Path.join(projectDirectory, "notes.txt"), "Hello world!\n");
+
+    await directoryManager.synchronizePath(Path.join(projectDirectory, "main.ink"), inkWorkspace);
+    await directoryManager.synchronizePath(Path.join(projectDirectory, "story/new.ink"), inkWorkspace);
+    await directoryManager.synchronizePath(Path.join(projectDirectory, "notes.txt"), inkWorkspace);
+
+    expect(Fs.readFileSync(Path.join(compileTmpDirectory, "main.ink"), "utf8")).toBe(
+      "Hello world!\n"
+    );
+    expect(Fs.existsSync(Path.join(compileTmpDirectory, "story/new.ink"))).toBe(true);
+    expect(Fs.existsSync(Path.join(compileTmpDirectory, "notes.txt"))).toBe(false);
+  });
+
+  it("removes the files deleted from disk", async () => {
+    createFakeProject();
+    await directoryManager.mirrorWorkspace(inkWorkspace);
+
+    FsExtra.removeSync(Path.join(projectDirectory, "main.ink"));
+    await directoryManager.synchronizePath(Path.join(projectDirectory, "main.ink"), inkWorkspace);
+
+    expect(Fs.existsSync(Path.join(compileTmpDirectory, "main.ink"))).toBe(false);
+  });
+
+  it("moves the directories renamed", async () => {
+    createFakeProject();
+    await directoryManager.mirrorWorkspace(inkWorkspace);
+
+    Fs.renameSync(Path.join(projectDirectory, "story"), Path.join(projectDirectory, "chapters"));
+    await directoryManager.synchronizePath(Path.join(projectDirectory, "story"), inkWorkspace);
+    await directoryManager.synchronizePath(Path.join(projectDirectory, "chapters"), inkWorkspace);
+
+    expect(Fs.existsSync(Path.join(compileTmpDirectory, "story"))).toBe(false);
+    expect(Fs.existsSync(Path.join(compileTmpDirectory, "chapters/story.ink2"))).toBe(true);
+  });
+
+  it("keeps the documents opened by the client over the files on disk", async () => {
+    createFakeProject();
+    openDocuments([createDocument("main.ink", "Hello world!\n")]);
+    await directoryManager.mirrorWorkspace(inkWorkspace);
+
+    await directoryManager.synchronizePath(Path.join(projectDirectory, "main.ink"), inkWorkspace);
+    expect(Fs.readFileSync(Path.join(compileTmpDirectory, "main.ink"), "utf8")).toBe("");
+
+    await directoryManager.mirrorWorkspace(inkWorkspace);
+    expect(Fs.readFileSync(Path.join(compileTmpDirectory, "main.ink"), "utf8")).toBe(
+      "Hello world!\n"
+    );
   });
 });
 
+describe("removeTempDirectories", () => {
+  it("removes the temporary directories", async () => {
+    createFakeProject();
+
+    await directoryManager.mirrorWorkspace(inkWorkspace);
+    await directoryManager.removeTempDirectories([inkWorkspace, { folder: workspaceFolder }]);
+
+    expect(Fs.existsSync(compileTmpDirectory)).toBe(false);
+  });
+});
+
+function createDocument(relativePath: string, content: string) {
+  return TextDocument.create(
+    `file://${Path.join(projectDirectory, relativePath)}`,
+    "ink",
+    0,
+    content
+  );
+}
+
 function createFakeProject() {
   Fs.mkdirSync(Path.join(projectDirectory));
   Fs.closeSync(Fs.openSync(Path.join(projectDirectory, "main.ink"), "w"));
@@ -219,3 +284,8 @@ function createFakeProject() {
   Fs.mkdirSync(Path.join(projectDirectory, "story"));
   Fs.closeSync(Fs.openSync(Path.join(projectDirectory, "story/story.ink2"), "w"));
 }
+
+/** Replace the documents opened by the client. */
+function openDocuments(documents: TextDocument[]) {
+  documentManager.documents = new TestTextDocuments(documents);
+}
@@ -7,11 +7,6 @@ import * as Os from "os";
 import * as Path from "path";
 import * as Uuid from "uuid/v4";
 
-import {
-  TextDocument,
-  WorkspaceFolder
-} from "vscode-languageserver/lib/main";
-
 import URI from "vscode-uri/lib/umd";
 
 import {
@@ -19,34 +14,169 @@ import {
   InkWorkspace
 } from "../../types/types";
 
-import { isInkFile } from '../utils';
+import { isFilePathChildOfDirPath, isInkFile } from '../utils';
+
+import VirtualFileSystem from "./VirtualFileSystem";
 
 /**
+ * Manages the temporary directories of the workspaces, which receive the
+ * compiled stories.
  *
+ * inklecate can only compile files from the disk, so for this backend,
+ * the directories also mirror the ink files of the workspaces, as seen through
+ * the virtual file system. The mirrors are created on first use.
  */
 export default class CompilationDirectoryManager {
+  /**
+   * Mirrors created, keyed by temporary directory. Each mirror resolves with
+   * the content of the documents written over the files copied from the disk,
+   * keyed by the absolute paths of the documents.
+   */
+  private mirrors: Map<string, Promise<Map<string, string>>> = new Map();
+
+  constructor(
+    private virtualFileSystem: VirtualFileSystem,
+    private logger: IConnectionLogger
+  ) { }
+
+  /**
+   * Returns a new path for the temporary directory of a workspace. The directory
+   * itself is only created once something is written into it.
+   */
+  public createTempDirectoryPath(): string {
+    return Path.join(Os.tmpdir(), Uuid());
+  }
+
+  /**
+   * Mirror the ink files of the workspace into its temporary directory, while
+   * preserving the subdirectory hierarchy.
+   *
+   * The first call copies all the ink files found on disk, subsequent calls only
+   * write the documents opened by the client which changed since the last call,
+   * and restore the ones which were closed.
+   *
+   * @param workspace the workspace containing all the ink files.
+   */
+  public mirrorWorkspace(workspace: InkWorkspace): Promise<void> {
+    const tempDirectory = workspace.temporaryCompilationDirectory;
+    if (!tempDirectory) {
+      return Promise.reject(new Error(`Could not mirror: ${workspace.folder.uri}`));
+    }
+
+    let mirror = this.mirrors.get(tempDirectory);
+    if (!mirror) {
+      mirror = this.copyWorkspace(workspace, tempDirectory).then(() => new Map());
+      this.mirrors.set(tempDirectory, mirror);
+
+      // Failed copies can be tried again on the next compilation.
+      mirror.catch(() => this.mirrors.delete(tempDirectory));
+    }
+
+    return mirror.then(writtenOverlays => this.writeOverlays(workspace, tempDirectory, writtenOverlays));
+  }
+
+  /**
+   * Bring the mirror of the given file or directory in line with the disk, after
+   * it was created, changed, deleted or renamed outside of the client. Documents
+   * opened by the client are written over the mirror again on the next call to
+   * `mirrorWorkspace`.
+   *
+   * Workspaces which aren't mirrored yet are left alone, the files will be copied
+   * along with the others.
+   *
+   * @param filePath the absolute path of the file or directory which changed.
+   * @param workspace the workspace containing the file.
+   */
+  public async synchronizePath(
+    filePath: string,
+    workspace: InkWorkspace,
+  ): Promise<void> {
+    const basename = Path.basename(filePath);
+
+    if (!workspace.temporaryCompilationDirectory) {
+      this.logger.console.warn(`The temporary compilation directory is undefined, cannot copy ${filePath}.`);
+      const message = `The server could not process '${filePath}'. ` +
+                      'As subsequent compilations may fail, you should reload your project.';
+      this.logger.showWarningMessage(message, true);
+      return;
+    }
+
+    const mirror = this.mirrors.get(workspace.temporaryCompilationDirectory);
+    if (!mirror) { return; }
+
+    let writtenOverlays: Map<string, string>;
+    try {
+      writtenOverlays = await mirror;
+    } catch (error) {
+      return;
+    }
 
-  constructor(private logger: IConnectionLogger) { }
+    const workspaceFolderPath = URI.parse(workspace.folder.uri).fsPath;
+    const mirroredFilePath = Path.join(
+      workspace.temporaryCompilationDirectory,
+      Path.relative(workspaceFolderPath, filePath)
+    );
+
+    // The mirrored documents are about to be replaced.
+    for (const overlayPath of Array.from(writtenOverlays.keys())) {
+      if (overlayPath === filePath || isFilePathChildOfDirPath(overlayPath, filePath)) {
+        writtenOverlays.delete(overlayPath);
+      }
+    }
+
+    try {
+      const stats = await Fs.lstat(filePath).catch(() => undefined);
+      if (!stats) {
+        await Fs.remove(mirroredFilePath);
+      } else if (stats.isDirectory()) {
+        await Fs.copy(filePath, mirroredFilePath, {
+          filter: (src: string) => Fs.lstatSync(src).isDirectory() || isInkFile(src, false, this.logger)
+        });
+      } else if (isInkFile(filePath, false, this.logger)) {
+        await Fs.copy(filePath, mirroredFilePath);
+      }
+    } catch (error) {
+      const erroMessage = `Could not update ${basename} for compilation – please see the log for more details`;
+      this.logger.console.error(`Could not update the compilation directory: ${error.message}`);
+      this.logger.showErrorMessage(erroMessage, false);
+    }
+  }
 
   /**
-   * Prepare the workspace for compilation. Create a temporary directory and
-   * copies all of the project ink files into it, while preserving the subdirectory
-   * hierarchy. The resulting directory should be kept safely for the remaining
-   * of the session.
+   * Remove the temporary directories of the given workspaces, along with
+   * their mirrors.
+   *
+   * @param workspaces the workspaces of which remove the temporary directories.
+   */
+  public removeTempDirectories(workspaces: Iterable<InkWorkspace>): Promise<void> {
+    const promises: Array<Promise<void>> = [];
+    for (const workspace of workspaces) {
+      const tempDirectory = workspace.temporaryCompilationDirectory;
+      if (!tempDirectory) { continue; }
+
+      this.mirrors.delete(tempDirectory);
+      promises.push(Fs.remove(tempDirectory).catch(error => {
+        this.logger.console.warn(`Could not remove '${tempDirectory}' - ${error.message}`);
+      }));
+    }
+
+    return Promise.all(promises).then(() => undefined);
+  }
+
+  /**
+   * Create the temporary directory and copy all of the workspace's ink files
+   * into it.
    *
    * @param workspace the workspace containing all the ink files.
-   * @param connection the client connection.
-   * @returns the temporary directory containing copies of the workspace's ink files.
+   * @param tempDirectory the temporary directory of the workspace.
    */
-  public prepareTempDirectoryForCompilation(
-    workspaceFolder: WorkspaceFolder
-  ): Promise<string | void> {
+  private copyWorkspace(workspace: InkWorkspace, tempDirectory: string): Promise<void> {
+    const workspaceFolder = workspace.folder;
     this.logger.console.info(`Creating temporary compilation directory for: '${workspaceFolder.name}'.`);
 
-    const tempDirectory = Path.join(Os.tmpdir(), Uuid());
     const workspacePath = URI.parse(workspaceFolder.uri).fsPath;
 
-    return Fs.mkdir(tempDirectory).then(() => {
+    return Fs.mkdirp(tempDirectory).then(() => {
       this.logger.console.info(`'${workspaceFolder.name}': Mirror directory created.`);
 
       return Fs.copy(workspacePath, tempDirectory, {
@@ -72,78 +202,45 @@ export default class CompilationDirectoryManager {
       return Promise.reject(error);
     }).then(() => {
       this.logger.console.info(`'${workspaceFolder.name}': File hierarchy copied.`);
-      return Promise.resolve(tempDirectory);
     });
   }
 
-  public async copyNewlyCreatedFile(
-    fileUri: string,
-    workspace: InkWorkspace,
-  ) {
-    const filePath = URI.parse(fileUri).fsPath;
-    const basename = Path.basename(filePath);
-
-    if (!isInkFile(filePath, true, this.logger)) { return; }
-
-    if (!workspace.temporaryCompilationDirectory) {
-      this.logger.console.warn(`The temporary compilation directory is undefined, cannot copy ${fileUri}.`);
-      const message = `The server could not process '${filePath}'. ` +
-                      'As subsequent compilations may fail, you should reload your project.';
-      this.logger.showWarningMessage(message, true);
-      return;
-    }
-
-    const workspaceFolderPath = URI.parse(workspace.folder.uri).fsPath;
-
-    const relativeFilePath = Path.relative(workspaceFolderPath, filePath);
-    const relativeParentDirectoryPath = Path.dirname(relativeFilePath);
-
-    const temporaryDirectoryPath = Path.join(
-      workspace.temporaryCompilationDirectory,
-      relativeParentDirectoryPath
-    );
-    const temporaryFilePath = Path.join(workspace.temporaryCompilationDirectory, relativeFilePath);
-
-    const erroMessage = `Could not compile the new file (${basename}) – please see the log for more details`;
-    Fs.mkdirp(temporaryDirectoryPath)
-      .catch(error => {
-        this.logger.console.error(`Could not create new file in the compilation directory: ${error.message}`);
-        this.logger.showErrorMessage(erroMessage, false);
-      })
-      .then(() => {
-        return Fs.copy(filePath, temporaryFilePath);
-      })
-      .catch(error => {
-        this.logger.console.error(`Could not create new file in the compilation directory: ${error.message}`);
-        this.logger.showErrorMessage(erroMessage, false);
-      });
-  }
-
   /**
-   * Replace the original ink file found in `workspace.temporaryCompilationDirectory`,
-   * with the update content of `document`.
+   * Write the documents opened by the client over the mirrored files, and restore
+   * the files of the documents which were closed since the last call.
    *
-   * @param document document holding the new content.
-   * @param workspace the workspace to which the document belongs.
-   * @param callback called once the file has been updated.
+   * @param workspace the workspace containing the documents.
+   * @param tempDirectory the temporary directory of the workspace.
+   * @param writtenOverlays the documents written during the last call, updated in place.
    */
-  public updateFile(
-    document: TextDocument,
-    workspace: InkWorkspace
+  private async writeOverlays(
+    workspace: InkWorkspace,
+    tempDirectory: string,
+    writtenOverlays: Map<string, string>
   ): Promise<void> {
-    if (!workspace.folder || !workspace.temporaryCompilationDirectory) {
-      return Promise.reject(new Error(`Could not update file: ${document.uri}`));
+    const workspacePath = URI.parse(workspace.folder.uri).fsPath;
+    const overlays = this.virtualFileSystem.getOverlays(workspacePath);
+
+    for (const [filePath, content] of overlays) {
+      if (!isInkFile(filePath, true, this.logger) || writtenOverlays.get(filePath) === content) {
+        continue;
+      }
+
+      await Fs.outputFile(Path.join(tempDirectory, Path.relative(workspacePath, filePath)), content);
+      writtenOverlays.set(filePath, content);
     }
 
-    const workspacePath = URI.parse(workspace.folder.uri).fsPath;
-    const documentContent = document.getText();
-    const path = URI.parse(document.uri).fsPath;
+    for (const filePath of Array.from(writtenOverlays.keys())) {
+      if (overlays.has(filePath)) { continue; }
 
-    const relativePath = Path.relative(workspacePath, path);
-    const fullPath = Path.join(workspace.temporaryCompilationDirectory, relativePath);
+      const mirroredFilePath = Path.join(tempDirectory, Path.relative(workspacePath, filePath));
+      if (await Fs.pathExists(filePath)) {
+        await Fs.copy(filePath, mirroredFilePath);
+      } else {
+        await Fs.remove(mirroredFilePath);
+      }
 
-    return Fs.mkdirp(Path.dirname(fullPath)).then(() => {
-      return Fs.writeFile(fullPath, documentContent);
-    });
+      writtenOverlays.delete(filePath);
+    }
   }
 }
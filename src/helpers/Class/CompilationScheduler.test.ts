@@ -0,0 +1,119 @@
+// Copyright (c) Frédéric Maquin <fred@ephread.com>
+// Licensed under the MIT License.
+// See LICENSE in the project root for license information.
+
+import { CancellationToken } from "vscode-languageserver";
+
+import { IInkCompiler } from "../../types/backend";
+import { InkWorkspace } from "../../types/types";
+
+import mockedLogger from "../../tests/helpers/logger";
+
+import CompilationScheduler from "./CompilationScheduler";
+
+const workspace: InkWorkspace = { folder: { uri: "file:///story", name: "story" } };
+const otherWorkspace: InkWorkspace = { folder: { uri: "file:///dlc", name: "dlc" } };
+
+function createScheduler() {
+  const tokens: CancellationToken[] = [];
+  const completions: Array<() => void> = [];
+
+  const compiler: IInkCompiler = {
+    compileStory: jest.fn((settings, inkWorkspace, token) => {
+      tokens.push(token as CancellationToken);
+      return new Promise<void>(resolve => completions.push(resolve));
+    })
+  };
+
+  const scheduler = new CompilationScheduler(compiler, mockedLogger.logger);
+  return { compiler, scheduler, tokens, completions };
+}
+
+describe("CompilationScheduler", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("debounces compilations of the same workspace", () => {
+    const { compiler, scheduler } = createScheduler();
+
+    scheduler.compileStory({ compilationDelay: 100 }, workspace);
+    jest.advanceTimersByTime(50);
+    scheduler.compileStory({ compilationDelay: 100 }, workspace);
+    jest.advanceTimersByTime(50);
+
+    expect(compiler.compileStory).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(50);
+    expect(compiler.compileStory).toHaveBeenCalledTimes(1);
+  });
+
+  it("cancels the running compilation of the same workspace", () => {
+    const { compiler, scheduler, tokens } = createScheduler();
+
+    scheduler.compileStory({ compilationDelay: 0 }, workspace);
+    jest.runAllTimers();
+    scheduler.compileStory({ compilationDelay: 0 }, workspace);
+
+    expect(tokens[0].isCancellationRequested).toBeTruthy();
+
+    jest.runAllTimers();
+    expect(compiler.compileStory).toHaveBeenCalledTimes(2);
+    expect(tokens[1].isCancellationRequested).toBeFalsy();
+  });
+
+  it("doesn't interfere with the compilations of other workspaces", () => {
+    const { compiler, scheduler, tokens } = createScheduler();
+
+    scheduler.compileStory({ compilationDelay: 0 }, workspace);
+    jest.runAllTimers();
+    scheduler.compileStory({ compilationDelay: 0 }, otherWorkspace);
+    jest.runAllTimers();
+
+    expect(compiler.compileStory).toHaveBeenCalledTimes(2);
+    expect(tokens[0].isCancellationRequested).toBeFalsy();
+  });
+
+  it("doesn't interfere with the compilations of other stories of the workspace", () => {
+    const { compiler, scheduler, tokens } = createScheduler();
+
+    scheduler.compileStory({ compilationDelay: 100, mainStoryPath: "main.ink" }, workspace);
+    scheduler.compileStory({ compilationDelay: 100, mainStoryPath: "dlc.ink" }, workspace);
+    jest.runAllTimers();
+
+    expect(compiler.compileStory).toHaveBeenCalledTimes(2);
+    expect(tokens[0].isCancellationRequested).toBeFalsy();
+  });
+
+  it("cancels the compilations of every story of the workspace", () => {
+    const { scheduler, tokens } = createScheduler();
+
+    scheduler.compileStory({ compilationDelay: 0, mainStoryPath: "main.ink" }, workspace);
+    scheduler.compileStory({ compilationDelay: 0, mainStoryPath: "dlc.ink" }, workspace);
+    scheduler.compileStory({ compilationDelay: 0 }, otherWorkspace);
+    jest.runAllTimers();
+
+    scheduler.cancelCompilation(workspace, "dlc.ink");
+    expect(tokens.map(token => token.isCancellationRequested)).toEqual([false, true, false]);
+
+    scheduler.cancelCompilation(workspace);
+    expect(tokens.map(token => token.isCancellationRequested)).toEqual([true, true, false]);
+  });
+
+  it("resolves superseded compilations", async () => {
+    const { scheduler, completions } = createScheduler();
+
+    const superseded = scheduler.compileStory({ compilationDelay: 100 }, workspace);
+    const latest = scheduler.compileStory({ compilationDelay: 100 }, workspace);
+
+    await superseded;
+
+    jest.runAllTimers();
+    completions[0]();
+    await latest;
+  });
+});
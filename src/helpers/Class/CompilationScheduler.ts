@@ -0,0 +1,137 @@
+// Copyright (c) Frédéric Maquin <fred@ephread.com>
+// Licensed under the MIT License.
+// See LICENSE in the project root for license information.
+
+import { CancellationToken, CancellationTokenSource } from "vscode-languageserver";
+
+import { IInkCompiler } from "../../types/backend";
+import {
+  IConnectionLogger,
+  InkWorkspace,
+  PartialInkConfigurationSettings
+} from "../../types/types";
+
+import { getDefaultSettings, mergeSettings } from "../configuration";
+
+/** A compilation waiting for its delay to elapse. */
+interface PendingCompilation {
+  timer: NodeJS.Timer;
+  resolve: () => void;
+}
+
+/**
+ * Debounces the compilations of each story, so that a burst of edits only
+ * triggers a single compilation, once `compilationDelay` has elapsed.
+ *
+ * Scheduling a compilation cancels the compilation running for the same story,
+ * since its results would be outdated. A workspace may contain several stories,
+ * identified by their main file, which compile independently.
+ */
+export default class CompilationScheduler implements IInkCompiler {
+  /**
+   * Compilations waiting for their delay to elapse. Keys are computed by
+   * `getCompilationKey`, from the workspace URI and the main story path.
+   */
+  private pendingCompilations: Map<string, PendingCompilation> = new Map();
+
+  /** Cancellation sources of the running compilations, keyed as above. */
+  private runningCompilations: Map<string, CancellationTokenSource> = new Map();
+
+  constructor(private compiler: IInkCompiler, private logger: IConnectionLogger) {}
+
+  /**
+   * Schedule the compilation of the given story, superseding any compilation
+   * pending or running for the same story.
+   *
+   * @param settings the configuration settings to use, `mainStoryPath` identifies
+   *                 the story.
+   * @param inkWorkspace the workspace containing the story.
+   * @param token a token cancelling the compilation.
+   * @returns a promise resolved when the compilation completes or is superseded.
+   */
+  public compileStory(
+    settings: PartialInkConfigurationSettings,
+    inkWorkspace: InkWorkspace,
+    token?: CancellationToken
+  ): Promise<void> {
+    const { compilationDelay, mainStoryPath } = mergeSettings(settings, getDefaultSettings());
+    const key = getCompilationKey(inkWorkspace, mainStoryPath);
+
+    this.cancelCompilationsWithKey(key);
+
+    return new Promise(resolve => {
+      const timer = setTimeout(() => {
+        this.pendingCompilations.delete(key);
+
+        const source = new CancellationTokenSource();
+        const cancellation = token
+          ? token.onCancellationRequested(() => source.cancel())
+          : undefined;
+        this.runningCompilations.set(key, source);
+
+        this.compiler
+          .compileStory(settings, inkWorkspace, source.token)
+          .catch(error => {
+            this.logger.console.error(
+              `Could not compile ${inkWorkspace.folder.name} - ${error.message}`
+            );
+          })
+          .then(() => {
+            if (this.runningCompilations.get(key) === source) {
+              this.runningCompilations.delete(key);
+            }
+
+            if (cancellation) {
+              cancellation.dispose();
+            }
+
+            source.dispose();
+            resolve();
+          });
+      }, compilationDelay);
+
+      this.pendingCompilations.set(key, { timer, resolve });
+    });
+  }
+
+  /**
+   * Cancel the pending and running compilations of the given story, or of every
+   * story of the workspace if `mainStoryPath` is omitted.
+   *
+   * @param inkWorkspace the workspace whose compilations should be cancelled.
+   * @param mainStoryPath the path of the main story, relative to the workspace.
+   */
+  public cancelCompilation(inkWorkspace: InkWorkspace, mainStoryPath?: string) {
+    if (mainStoryPath !== undefined) {
+      this.cancelCompilationsWithKey(getCompilationKey(inkWorkspace, mainStoryPath));
+      return;
+    }
+
+    const prefix = getCompilationKey(inkWorkspace, "");
+    const keys = new Set([...this.pendingCompilations.keys(), ...this.runningCompilations.keys()]);
+    for (const key of keys) {
+      if (key.startsWith(prefix)) {
+        this.cancelCompilationsWithKey(key);
+      }
+    }
+  }
+
+  private cancelCompilationsWithKey(key: string) {
+    const pendingCompilation = this.pendingCompilations.get(key);
+    if (pendingCompilation) {
+      clearTimeout(pendingCompilation.timer);
+      this.pendingCompilations.delete(key);
+      pendingCompilation.resolve();
+    }
+
+    const runningCompilation = this.runningCompilations.get(key);
+    if (runningCompilation) {
+      runningCompilation.cancel();
+      this.runningCompilations.delete(key);
+    }
+  }
+}
+
+function getCompilationKey(inkWorkspace: InkWorkspace, mainStoryPath: string) {
+  return `${inkWorkspace.folder.uri}|${mainStoryPath}`;
+}
@@ -0,0 +1,125 @@
+// Copyright (c) Frédéric Maquin <fred@ephread.com>
+// Licensed under the MIT License.
+// See LICENSE in the project root for license information.
+
+import * as Fs from "fs-extra";
+import * as Os from "os";
+import * as Path from "path";
+
+import { CompletionItem, CompletionItemKind, TextDocument } from "vscode-languageserver";
+import URI from "vscode-uri";
+
+import { createDocumentManager } from "../../tests/helpers/documents";
+import mockedLogger from "../../tests/helpers/logger";
+import { createWorkspaceManager } from "../../tests/helpers/workspace";
+
+import CompletionProvider from "./CompletionProvider";
+import SyntaxTreeManager from "./SyntaxTreeManager";
+
+const uri = "file:///project/main.ink";
+const document = TextDocument.create(
+  uri,
+  "ink",
+  1,
+  [
+    "VAR health = 10",
+    "LIST colours = red, blue",
+    "=== intro ===",
+    "-> ",
+    "= details(x)",
+    "~ temp y = 2",
+    "{x + } -> intro.",
+    "- (done) {colours.}",
+    "=== function add(a, b) ===",
+    "~ return a + b",
+    "",
+    "INCLUDE "
+  ].join("\n")
+);
+
+function createProvider(inkDocument: TextDocument, snippetCompletion: boolean = true) {
+  const documentManager = createDocumentManager([inkDocument]);
+  const capabilities = {
+    configuration: false,
+    workspaceFolder: false,
+    diagnostic: false,
+    hierarchicalDocumentSymbol: false,
+    prepareRename: false,
+    snippetCompletion,
+    markdownHover: false
+  };
+
+  return new CompletionProvider(
+    createWorkspaceManager(documentManager),
+    new SyntaxTreeManager(documentManager, mockedLogger.logger),
+    capabilities,
+    mockedLogger.logger
+  );
+}
+
+async function complete(line: number, character: number, provider = createProvider(document)) {
+  const items = await provider.provideCompletion({
+    textDocument: { uri },
+    position: { line, character }
+  });
+
+  return (items || []).map((item: CompletionItem) => item.label);
+}
+
+describe("provideCompletion", () => {
+  it("completes divert targets", async () => {
+    expect(await complete(3, 3)).toEqual(["details", "intro", "DONE", "END"]);
+  });
+
+  it("completes the children of qualified divert targets", async () => {
+    expect(await complete(6, 16)).toEqual(["details"]);
+  });
+
+  it("completes local and global names in logic", async () => {
+    const labels = await complete(6, 4);
+
+    expect(labels.slice(0, 7)).toEqual(["x", "y", "health", "colours", "add", "red", "blue"]);
+    expect(labels).toContain("RANDOM");
+    expect(labels).toContain("LIST_COUNT");
+  });
+
+  it("completes the items of qualified lists", async () => {
+    expect(await complete(7, 18)).toEqual(["red", "blue"]);
+  });
+
+  it("offers snippets at the beginning of lines, if supported", async () => {
+    expect(await complete(10, 0)).toContain("knot");
+    expect(await complete(10, 0, createProvider(document, false))).toEqual([]);
+  });
+
+  it("completes included paths relatively to the including file", async () => {
+    const directory = await Fs.mkdtemp(Path.join(Os.tmpdir(), "ink-completion-"));
+
+    try {
+      await Fs.outputFile(Path.join(directory, "chapters", "one.ink"), "");
+      await Fs.outputFile(Path.join(directory, "notes.txt"), "");
+
+      const mainPath = Path.join(directory, "main.ink");
+      const mainUri = URI.file(mainPath).toString();
+      const provider = createProvider(TextDocument.create(mainUri, "ink", 1, "INCLUDE chapters/"));
+
+      const directoryItems = await provider.provideCompletion({
+        textDocument: { uri: mainUri },
+        position: { line: 0, character: 8 }
+      });
+      const fileItems = await provider.provideCompletion({
+        textDocument: { uri: mainUri },
+        position: { line: 0, character: 17 }
+      });
+
+      expect((directoryItems || []).map(item => [item.label, item.kind])).toEqual([
+        ["chapters/", CompletionItemKind.Folder]
+      ]);
+      expect((fileItems || []).map(item => [item.label, item.kind])).toEqual([
+        ["one.ink", CompletionItemKind.File]
+      ]);
+    } finally {
+      await Fs.remove(directory);
+    }
+  });
+});
@@ -0,0 +1,397 @@
+// Copyright (c) Frédéric Maquin <fred@ephread.com>
+// Licensed under the MIT License.
+// See LICENSE in the project root for license information.
+
+import * as Fs from "fs-extra";
+import * as Path from "path";
+
+import {
+  CompletionItem,
+  CompletionItemKind,
+  CompletionParams,
+  InsertTextFormat,
+  Position,
+  Range,
+  TextEdit
+} from "vscode-languageserver";
+import URI from "vscode-uri";
+
+import {
+  DeclarationNode,
+  FlowNode,
+  InkSyntaxTree,
+  ListNode,
+  ParsedLine,
+  ReferenceKind,
+  SyntaxKind,
+  VariableNode
+} from "../../types/syntax";
+import { Capabilities, IConnectionLogger } from "../../types/types";
+
+import { BUILTIN_FUNCTIONS } from "../../parser/builtins";
+import { findFlowsAtPosition } from "../../parser/queries";
+import { resolvePath, SPECIAL_DIVERT_TARGETS } from "../../parser/resolver";
+import { isInkFile } from "../utils";
+
+import SyntaxTreeManager from "./SyntaxTreeManager";
+import WorkspaceManager from "./WorkspaceManager";
+
+/** Matches the path being typed after `INCLUDE`. */
+const INCLUDE_PATTERN = /^\s*INCLUDE\s+(.*)$/;
+
+/** Matches the (possibly qualified) target being typed after `->` or `<-`. */
+const DIVERT_PATTERN = /(?:->|<-)\s*((?:[A-Za-z0-9_\u00C0-\uFFFF]+\.)*)[A-Za-z0-9_\u00C0-\uFFFF]*$/;
+
+/** Matches the (possibly qualified) name being typed in an expression. */
+const EXPRESSION_PATTERN = /((?:[A-Za-z0-9_\u00C0-\uFFFF]+\.)*)[A-Za-z0-9_\u00C0-\uFFFF]*$/;
+
+/** Keywords declaring each kind of variable. */
+const VARIABLE_KEYWORDS: { [kind: string]: string } = {
+  [SyntaxKind.Variable]: "VAR",
+  [SyntaxKind.Constant]: "CONST",
+  [SyntaxKind.Temporary]: "temp"
+};
+
+/** Snippets offered at the beginning of a line. */
+const SNIPPETS = [
+  { label: "knot", detail: "=== knot ===", insertText: "=== ${1:name} ===\n$0" },
+  { label: "stitch", detail: "= stitch", insertText: "= ${1:name}\n$0" },
+  {
+    label: "function",
+    detail: "=== function name() ===",
+    insertText: "=== function ${1:name}($2) ===\n~ return $0"
+  },
+  { label: "choice", detail: "* [choice]", insertText: "* [${1:choice}]\n\t$0" },
+  { label: "sticky choice", detail: "+ [choice]", insertText: "+ [${1:choice}]\n\t$0" },
+  {
+    label: "conditional",
+    detail: "{ condition: … - else: … }",
+    insertText: "{ ${1:condition}:\n\t$2\n- else:\n\t$0\n}"
+  },
+  {
+    label: "multiline conditional",
+    detail: "{ - condition: … - else: … }",
+    insertText: "{\n- ${1:condition}:\n\t$2\n- else:\n\t$0\n}"
+  }
+];
+
+/**
+ * Provides completions depending on the context of the cursor: divert targets
+ * after `->`, variables, functions and list items in logic, file paths after
+ * `INCLUDE` and snippets at the beginning of lines.
+ */
+export default class CompletionProvider {
+  constructor(
+    private workspaceManager: WorkspaceManager,
+    private syntaxTreeManager: SyntaxTreeManager,
+    private capabilities: Capabilities,
+    private logger: IConnectionLogger
+  ) {}
+
+  /**
+   * Returns the completion items available at the given position.
+   *
+   * @param params parameters sent by the client.
+   */
+  public async provideCompletion(params: CompletionParams): Promise<CompletionItem[] | null> {
+    const tree = this.syntaxTreeManager.getSyntaxTree(params.textDocument.uri);
+    const line = tree ? tree.lines[params.position.line] : undefined;
+    if (!tree || !line || line.startState.isInBlockComment) {
+      return null;
+    }
+
+    const prefix = line.text.substr(0, params.position.character);
+    if (/\/\/|\/\*/.test(prefix)) {
+      return null;
+    }
+
+    const include = INCLUDE_PATTERN.exec(prefix);
+    if (include) {
+      return this.getIncludeCompletions(tree, include[1], params.position);
+    }
+
+    const divert = DIVERT_PATTERN.exec(prefix);
+    if (divert) {
+      const trees = await this.getStorySyntaxTrees(tree);
+      return this.getDivertCompletions(trees, tree, params.position, splitQualifier(divert[1]));
+    }
+
+    if (isInLogic(line, prefix)) {
+      const trees = await this.getStorySyntaxTrees(tree);
+      const expression = EXPRESSION_PATTERN.exec(prefix);
+      const qualifier = expression ? splitQualifier(expression[1]) : [];
+
+      return this.getExpressionCompletions(trees, tree, params.position, qualifier);
+    }
+
+    if (this.capabilities.snippetCompletion && /^\s*[A-Za-z]*$/.test(prefix)) {
+      return SNIPPETS.map(snippet => ({
+        ...snippet,
+        kind: CompletionItemKind.Snippet,
+        insertTextFormat: InsertTextFormat.Snippet
+      }));
+    }
+
+    return null;
+  }
+
+  /* Divert targets */
+  /****************************************************************************/
+  private getDivertCompletions(
+    trees: InkSyntaxTree[],
+    tree: InkSyntaxTree,
+    position: Position,
+    qualifier: string[]
+  ): CompletionItem[] {
+    if (qualifier.length > 0) {
+      const parent = resolvePath(trees, tree, position, qualifier, ReferenceKind.Divert);
+      return parent ? createItems(getChildren(parent.declaration)) : [];
+    }
+
+    const flows = findFlowsAtPosition(tree, position);
+    const declarations: DeclarationNode[] = [];
+
+    if (flows.stitch) {
+      declarations.push(...flows.stitch.labels, ...getDivertTargetParameters(flows.stitch));
+    }
+
+    if (flows.knot) {
+      declarations.push(
+        ...flows.knot.stitches,
+        ...flows.knot.labels,
+        ...getDivertTargetParameters(flows.knot)
+      );
+    } else {
+      declarations.push(...tree.root.stitches, ...tree.root.labels);
+    }
+
+    for (const storyTree of trees) {
+      declarations.push(...storyTree.knots.filter(knot => knot.kind === SyntaxKind.Knot));
+    }
+
+    return [
+      ...createItems(declarations),
+      ...SPECIAL_DIVERT_TARGETS.map(target => ({ label: target, kind: CompletionItemKind.Keyword }))
+    ];
+  }
+
+  /* Expressions */
+  /****************************************************************************/
+  private getExpressionCompletions(
+    trees: InkSyntaxTree[],
+    tree: InkSyntaxTree,
+    position: Position,
+    qualifier: string[]
+  ): CompletionItem[] {
+    if (qualifier.length > 0) {
+      const parent = resolvePath(trees, tree, position, qualifier, ReferenceKind.Read);
+      return parent ? createItems(getChildren(parent.declaration)) : [];
+    }
+
+    const flows = findFlowsAtPosition(tree, position);
+    const flow = flows.stitch || flows.knot;
+    const declarations: DeclarationNode[] = flow
+      ? [...flow.parameters, ...flow.temporaries]
+      : [...tree.root.temporaries];
+
+    for (const storyTree of trees) {
+      declarations.push(
+        ...storyTree.variables,
+        ...storyTree.lists,
+        ...storyTree.knots.filter(knot => knot.kind === SyntaxKind.Function),
+        ...storyTree.externals
+      );
+    }
+
+    for (const storyTree of trees) {
+      for (const list of storyTree.lists) {
+        declarations.push(...list.items);
+      }
+    }
+
+    return [
+      ...createItems(declarations),
+      ...BUILTIN_FUNCTIONS.map(builtin => ({
+        label: builtin.name,
+        kind: CompletionItemKind.Function,
+        detail: `${builtin.name}(${builtin.parameters.join(", ")})`,
+        documentation: builtin.documentation
+      }))
+    ];
+  }
+
+  /* Include paths */
+  /****************************************************************************/
+  private async getIncludeCompletions(
+    tree: InkSyntaxTree,
+    typedPath: string,
+    position: Position
+  ): Promise<CompletionItem[]> {
+    const directoryPart = typedPath.substr(0, typedPath.lastIndexOf("/") + 1);
+    const filePath = URI.parse(tree.uri).fsPath;
+    const directoryPath = Path.resolve(Path.dirname(filePath), directoryPart);
+    const range = Range.create(
+      position.line,
+      position.character - (typedPath.length - directoryPart.length),
+      position.line,
+      position.character
+    );
+
+    let entries: string[];
+    try {
+      entries = await Fs.readdir(directoryPath);
+    } catch (error) {
+      return [];
+    }
+
+    const items: CompletionItem[] = [];
+    for (const entry of entries) {
+      const entryPath = Path.join(directoryPath, entry);
+      if (entry.startsWith(".") || entryPath === filePath) {
+        continue;
+      }
+
+      try {
+        if ((await Fs.stat(entryPath)).isDirectory()) {
+          items.push({
+            label: `${entry}/`,
+            kind: CompletionItemKind.Folder,
+            textEdit: TextEdit.replace(range, `${entry}/`)
+          });
+        } else if (isInkFile(entryPath, true, this.logger)) {
+          items.push({
+            label: entry,
+            kind: CompletionItemKind.File,
+            textEdit: TextEdit.replace(range, entry)
+          });
+        }
+      } catch (error) {
+        this.logger.console.warn(`File '${entryPath}' will be ignored. - ${error.message}`);
+      }
+    }
+
+    return items;
+  }
+
+  /* Helpers */
+  /****************************************************************************/
+  private async getStorySyntaxTrees(tree: InkSyntaxTree): Promise<InkSyntaxTree[]> {
+    const workspace = this.workspaceManager.getInkWorkspaceOfFilePath(URI.parse(tree.uri).fsPath);
+    if (!workspace) {
+      return [tree];
+    }
+
+    const mainStoryPaths = await this.workspaceManager.getMainStoryPaths(workspace, tree.uri);
+    return this.syntaxTreeManager.getDocumentStorySyntaxTrees(tree, mainStoryPaths);
+  }
+}
+
+/**
+ * Returns `true` if the end of `prefix` is inside logic: a `~` line,
+ * an inline block, a `VAR` initial value or the condition of a branch.
+ */
+function isInLogic(line: ParsedLine, prefix: string): boolean {
+  if (/^\s*~/.test(prefix) || /^\s*(VAR|CONST)\s+\S+\s*=/.test(prefix)) {
+    return true;
+  }
+
+  if (line.startState.blockDepth > 0 && /^\s*-[^:]*$/.test(prefix)) {
+    return true;
+  }
+
+  let depth = 0;
+  for (let index = 0; index < prefix.length; index++) {
+    if (prefix[index] === "\\") {
+      index++;
+    } else if (prefix[index] === "{") {
+      depth++;
+    } else if (prefix[index] === "}") {
+      depth = Math.max(0, depth - 1);
+    }
+  }
+
+  return depth > 0;
+}
+
+/** Split a qualifier such as `knot.stitch.` into its names. */
+function splitQualifier(qualifier: string): string[] {
+  return qualifier.split(".").filter(name => name.length > 0);
+}
+
+function getDivertTargetParameters(flow: FlowNode): DeclarationNode[] {
+  return flow.parameters.filter(parameter => parameter.isDivertTarget);
+}
+
+/** Returns the declarations which can be qualified by `declaration`. */
+function getChildren(declaration: DeclarationNode): DeclarationNode[] {
+  switch (declaration.kind) {
+    case SyntaxKind.Knot:
+    case SyntaxKind.Function:
+    case SyntaxKind.Stitch:
+      const flow = declaration as FlowNode;
+      return [...flow.stitches, ...flow.labels];
+    case SyntaxKind.List:
+      return (declaration as ListNode).items;
+    default:
+      return [];
+  }
+}
+
+/**
+ * Create completion items from declarations. When several declarations share
+ * the same name, only the first one is kept, since it shadows the others.
+ */
+function createItems(declarations: DeclarationNode[]): CompletionItem[] {
+  const items: Map<string, CompletionItem> = new Map();
+
+  for (const declaration of declarations) {
+    if (!items.has(declaration.name.name)) {
+      items.set(declaration.name.name, {
+        label: declaration.name.name,
+        kind: getCompletionItemKind(declaration),
+        detail: getDetail(declaration)
+      });
+    }
+  }
+
+  return Array.from(items.values());
+}
+
+function getCompletionItemKind(declaration: DeclarationNode): CompletionItemKind {
+  switch (declaration.kind) {
+    case SyntaxKind.Knot:
+      return CompletionItemKind.Class;
+    case SyntaxKind.Stitch:
+      return CompletionItemKind.Method;
+    case SyntaxKind.Function:
+    case SyntaxKind.External:
+      return CompletionItemKind.Function;
+    case SyntaxKind.Label:
+      return CompletionItemKind.Field;
+    case SyntaxKind.Constant:
+      return CompletionItemKind.Constant;
+    case SyntaxKind.List:
+      return CompletionItemKind.Enum;
+    case SyntaxKind.ListItem:
+      return CompletionItemKind.EnumMember;
+    default:
+      return CompletionItemKind.Variable;
+  }
+}
+
+function getDetail(declaration: DeclarationNode): string | undefined {
+  switch (declaration.kind) {
+    case SyntaxKind.Function:
+    case SyntaxKind.External:
+      const parameters = (declaration as FlowNode).parameters.map(parameter => parameter.name.name);
+      return `${declaration.name.name}(${parameters.join(", ")})`;
+    case SyntaxKind.Variable:
+    case SyntaxKind.Constant:
+    case SyntaxKind.Temporary:
+      const variable = declaration as VariableNode;
+      const keyword = VARIABLE_KEYWORDS[variable.kind];
+      return variable.value ? `${keyword} ${variable.name.name} = ${variable.value}` : keyword;
+    default:
+      return undefined;
+  }
+}
@@ -0,0 +1,162 @@
+// Copyright (c) Frédéric Maquin <fred@ephread.com>
+// Licensed under the MIT License.
+// See LICENSE in the project root for license information.
+
+import * as Fs from "fs-extra";
+import * as Os from "os";
+import * as Path from "path";
+
+import { Location, Range, TextDocument } from "vscode-languageserver";
+import URI from "vscode-uri";
+
+import { createDocumentManager } from "../../tests/helpers/documents";
+import mockedLogger from "../../tests/helpers/logger";
+import { createWorkspaceManager } from "../../tests/helpers/workspace";
+
+import DefinitionProvider from "./DefinitionProvider";
+import SyntaxTreeManager from "./SyntaxTreeManager";
+
+const directory = Path.join(Os.tmpdir(), "ink.language.server.definition.test");
+const storiesDirectory = Path.join(Os.tmpdir(), "ink.language.server.definition.stories.test");
+
+const files: { [relativePath: string]: string } = {
+  "main.ink": [
+    "INCLUDE chapters/harbour.ink",
+    "VAR gold = 0",
+    "-> harbour",
+    "=== epilogue ===",
+    "You have {gold} gold.",
+    "-> END"
+  ].join("\n"),
+  "chapters/harbour.ink": [
+    "INCLUDE docks.ink",
+    "=== harbour ===",
+    "~ gold += 10",
+    "-> epilogue"
+  ].join("\n"),
+  "docks.ink": "=== docks ===\n-> END",
+  "chapters/docks.ink": "=== old_docks ===\n-> END"
+};
+
+/** Two stories, each declaring a `harbour` knot in the file it includes. */
+const storiesFiles: { [relativePath: string]: string } = {
+  "main.ink": "INCLUDE main_harbour.ink\n-> harbour",
+  "main_harbour.ink": "=== harbour ===\nWelcome home.\n-> END",
+  "dlc.ink": "INCLUDE dlc_harbour.ink\n-> harbour",
+  "dlc_harbour.ink": "=== harbour ===\nWelcome back.\n-> END"
+};
+
+function getUri(relativePath: string, root = directory) {
+  return URI.file(Path.join(root, relativePath)).toString();
+}
+
+/**
+ * Returns a provider for which the given files are opened by the client,
+ * in the workspace at `root`.
+ */
+function createProvider(openedPaths: string[], root = directory, contents = files) {
+  const documentManager = createDocumentManager(
+    openedPaths.map(relativePath =>
+      TextDocument.create(getUri(relativePath, root), "ink", 1, contents[relativePath])
+    )
+  );
+  const workspaceManager = createWorkspaceManager(documentManager, [
+    { folder: { uri: URI.file(root).toString(), name: "story" } }
+  ]);
+
+  return new DefinitionProvider(
+    workspaceManager,
+    new SyntaxTreeManager(documentManager, mockedLogger.logger)
+  );
+}
+
+function provideDefinition(
+  provider: DefinitionProvider,
+  relativePath: string,
+  line: number,
+  character: number
+) {
+  return provider.provideDefinition({
+    textDocument: { uri: getUri(relativePath) },
+    position: { line, character }
+  });
+}
+
+describe("DefinitionProvider", () => {
+  beforeAll(() => {
+    for (const relativePath of Object.keys(files)) {
+      Fs.outputFileSync(Path.join(directory, relativePath), files[relativePath]);
+    }
+  });
+
+  afterAll(() => {
+    Fs.removeSync(directory);
+  });
+
+  it("finds declarations in included files which aren't opened", async () => {
+    const provider = createProvider(["main.ink"]);
+
+    expect(await provideDefinition(provider, "main.ink", 2, 5)).toEqual(
+      Location.create(getUri("chapters/harbour.ink"), Range.create(1, 4, 1, 11))
+    );
+  });
+
+  it("finds declarations in the including files", async () => {
+    const provider = createProvider(["chapters/harbour.ink"]);
+
+    expect(await provideDefinition(provider, "chapters/harbour.ink", 2, 3)).toEqual(
+      Location.create(getUri("main.ink"), Range.create(1, 4, 1, 8))
+    );
+    expect(await provideDefinition(provider, "chapters/harbour.ink", 3, 5)).toEqual(
+      Location.create(getUri("main.ink"), Range.create(3, 4, 3, 12))
+    );
+  });
+
+  it("opens included files", async () => {
+    const provider = createProvider(["main.ink"]);
+
+    expect(await provideDefinition(provider, "main.ink", 0, 12)).toEqual(
+      Location.create(getUri("chapters/harbour.ink"), Range.create(0, 0, 0, 0))
+    );
+  });
+
+  it("opens included files relatively to the main story", async () => {
+    const provider = createProvider(["chapters/harbour.ink"]);
+
+    expect(await provideDefinition(provider, "chapters/harbour.ink", 0, 10)).toEqual(
+      Location.create(getUri("docks.ink"), Range.create(0, 0, 0, 0))
+    );
+  });
+
+  it("finds nothing outside of references, or in documents which aren't opened", async () => {
+    const provider = createProvider(["main.ink"]);
+
+    expect(await provideDefinition(provider, "main.ink", 4, 2)).toBeNull();
+    expect(await provideDefinition(provider, "chapters/harbour.ink", 3, 5)).toBeNull();
+  });
+});
+
+describe("DefinitionProvider with several stories", () => {
+  beforeAll(() => {
+    for (const relativePath of Object.keys(storiesFiles)) {
+      Fs.outputFileSync(Path.join(storiesDirectory, relativePath), storiesFiles[relativePath]);
+    }
+  });
+
+  afterAll(() => {
+    Fs.removeSync(storiesDirectory);
+  });
+
+  it("finds declarations in the story of the document only", async () => {
+    const provider = createProvider(["main.ink"], storiesDirectory, storiesFiles);
+
+    expect(
+      await provider.provideDefinition({
+        textDocument: { uri: getUri("main.ink", storiesDirectory) },
+        position: { line: 1, character: 5 }
+      })
+    ).toEqual(
+      Location.create(getUri("main_harbour.ink", storiesDirectory), Range.create(0, 4, 0, 11))
+    );
+  });
+});
@@ -0,0 +1,70 @@
+// Copyright (c) Frédéric Maquin <fred@ephread.com>
+// Licensed under the MIT License.
+// See LICENSE in the project root for license information.
+
+import { Location, Range, TextDocumentPositionParams } from "vscode-languageserver";
+import URI from "vscode-uri";
+
+import { findReferenceAtPosition, isPositionInRange } from "../../parser/queries";
+import { resolveReference } from "../../parser/resolver";
+
+import SyntaxTreeManager from "./SyntaxTreeManager";
+import WorkspaceManager from "./WorkspaceManager";
+
+/**
+ * Finds the declarations of divert targets, variables and functions, across the
+ * stories which include the document.
+ */
+export default class DefinitionProvider {
+  constructor(
+    private workspaceManager: WorkspaceManager,
+    private syntaxTreeManager: SyntaxTreeManager
+  ) {}
+
+  /**
+   * Returns the location of the declaration referenced at the given position,
+   * or the location of the included file if the position is on an `INCLUDE` path.
+   *
+   * @param params parameters sent by the client.
+   */
+  public async provideDefinition(params: TextDocumentPositionParams): Promise<Location | null> {
+    const tree = this.syntaxTreeManager.getSyntaxTree(params.textDocument.uri);
+    if (!tree) {
+      return null;
+    }
+
+    const workspace = this.workspaceManager.getInkWorkspaceOfFilePath(URI.parse(tree.uri).fsPath);
+
+    const include = tree.includes.find(node => isPositionInRange(params.position, node.pathRange));
+    if (include) {
+      const mainStoryPath = workspace
+        ? await this.workspaceManager.getMainStoryPath(workspace, tree.uri)
+        : URI.parse(tree.uri).fsPath;
+
+      const filePath = await this.syntaxTreeManager.resolveIncludePath(include, mainStoryPath);
+      return filePath
+        ? Location.create(URI.file(filePath).toString(), Range.create(0, 0, 0, 0))
+        : null;
+    }
+
+    const referenceAtPosition = findReferenceAtPosition(tree, params.position);
+    if (!referenceAtPosition) {
+      return null;
+    }
+
+    const trees = workspace
+      ? await this.syntaxTreeManager.getDocumentStorySyntaxTrees(
+          tree,
+          await this.workspaceManager.getMainStoryPaths(workspace, tree.uri)
+        )
+      : [tree];
+    const symbol = resolveReference(
+      trees,
+      tree,
+      referenceAtPosition.reference,
+      referenceAtPosition.componentIndex
+    );
+
+    return symbol ? Location.create(symbol.tree.uri, symbol.declaration.name.range) : null;
+  }
+}
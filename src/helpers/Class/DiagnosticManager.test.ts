@@ -0,0 +1,268 @@
+// Copyright (c) Frédéric Maquin <fred@ephread.com>
+// Licensed under the MIT License.
+// See LICENSE in the project root for license information.
+
+import * as Fs from "fs-extra";
+import * as Os from "os";
+import * as Path from "path";
+
+import { Range, TextDocument } from "vscode-languageserver";
+import URI from "vscode-uri";
+
+import { InkBackend, InkErrorType, InkWorkspace } from "../../types/types";
+
+import { createTestConnection } from "../../tests/helpers/connection";
+import { createDocumentManager } from "../../tests/helpers/documents";
+import mockedLogger from "../../tests/helpers/logger";
+
+import DiagnosticManager from "./DiagnosticManager";
+
+const directory = Path.join(Os.tmpdir(), "ink.language.server.diagnostics.test");
+const mainPath = Path.join(directory, "main.ink");
+const chapterPath = Path.join(directory, "chapter.ink");
+
+const workspace: InkWorkspace = {
+  folder: { uri: URI.file(directory).toString(), name: "story" }
+};
+
+function createManager() {
+  const connection = createTestConnection();
+  const sendDiagnostics = jest.spyOn(connection, "sendDiagnostics").mockReturnValue(undefined);
+  const sendNotification = jest.spyOn(connection, "sendNotification").mockReturnValue(undefined);
+
+  const documentManager = createDocumentManager([
+    TextDocument.create(URI.file(mainPath).toString(), "ink", 1, "INCLUDE chapter.ink\n-> nowhere")
+  ]);
+
+  const manager = new DiagnosticManager(connection, documentManager, mockedLogger.logger);
+
+  return { connection: { sendDiagnostics, sendNotification }, manager };
+}
+
+function describePublishedDiagnostics(sendDiagnostics: jest.SpyInstance) {
+  return sendDiagnostics.mock.calls.map(([params]) => [
+    URI.parse(params.uri).fsPath,
+    params.diagnostics.map((diagnostic: { range: Range }) => diagnostic.range)
+  ]);
+}
+
+describe("notifyClientAndPushDiagnostics", () => {
+  beforeAll(() => {
+    Fs.outputFileSync(chapterPath, "=== chapter ===\n  {unknown}\n");
+  });
+
+  afterAll(() => {
+    Fs.removeSync(directory);
+  });
+
+  it("publishes diagnostics for files which aren't opened", async () => {
+    const { connection, manager } = createManager();
+
+    await manager.notifyClientAndPushDiagnostics(
+      workspace,
+      "main.json",
+      [
+        {
+          type: InkErrorType.Error,
+          filePath: chapterPath,
+          lineNumber: 2,
+          message: "Unresolved variable: unknown"
+        }
+      ],
+      InkBackend.Inklecate
+    );
+
+    expect(describePublishedDiagnostics(connection.sendDiagnostics)).toEqual([
+      [chapterPath, [Range.create(1, 3, 1, 10)]]
+    ]);
+    expect(connection.sendNotification).not.toHaveBeenCalled();
+  });
+
+  it("reports the backend which compiled the story as the source", async () => {
+    const { connection, manager } = createManager();
+
+    await manager.notifyClientAndPushDiagnostics(
+      workspace,
+      "main.json",
+      [
+        {
+          type: InkErrorType.Error,
+          filePath: chapterPath,
+          lineNumber: 2,
+          message: "Unresolved variable: unknown"
+        }
+      ],
+      InkBackend.Inkjs
+    );
+
+    expect(connection.sendDiagnostics.mock.calls[0][0].diagnostics).toMatchObject([
+      { source: "inkjs" }
+    ]);
+  });
+
+  it("clears the diagnostics of files which no longer have errors", async () => {
+    const { connection, manager } = createManager();
+
+    await manager.notifyClientAndPushDiagnostics(
+      workspace,
+      "main.json",
+      [
+        {
+          type: InkErrorType.Error,
+          filePath: chapterPath,
+          lineNumber: 2,
+          message: "Unresolved variable: unknown"
+        }
+      ],
+      InkBackend.Inklecate
+    );
+
+    connection.sendDiagnostics.mockClear();
+    await manager.notifyClientAndPushDiagnostics(workspace, "main.json", [], InkBackend.Inklecate);
+
+    expect(describePublishedDiagnostics(connection.sendDiagnostics)).toEqual([[chapterPath, []]]);
+    expect(connection.sendNotification).toHaveBeenCalledTimes(1);
+
+    connection.sendDiagnostics.mockClear();
+    await manager.notifyClientAndPushDiagnostics(workspace, "main.json", [], InkBackend.Inklecate);
+
+    expect(connection.sendDiagnostics).not.toHaveBeenCalled();
+  });
+
+  it("doesn't clear the diagnostics reported by other workspaces", async () => {
+    const { connection, manager } = createManager();
+    const otherWorkspace: InkWorkspace = {
+      folder: { uri: URI.file(Path.join(directory, "dlc")).toString(), name: "dlc" }
+    };
+
+    await manager.notifyClientAndPushDiagnostics(
+      workspace,
+      "main.json",
+      [
+        {
+          type: InkErrorType.Error,
+          filePath: chapterPath,
+          lineNumber: 2,
+          message: "Unresolved variable: unknown"
+        }
+      ],
+      InkBackend.Inklecate
+    );
+    await manager.notifyClientAndPushDiagnostics(
+      otherWorkspace,
+      "dlc.json",
+      [
+        {
+          type: InkErrorType.Warning,
+          filePath: chapterPath,
+          lineNumber: 1,
+          message: "Apparent loose end"
+        }
+      ],
+      InkBackend.Inklecate
+    );
+
+    connection.sendDiagnostics.mockClear();
+    await manager.notifyClientAndPushDiagnostics(
+      otherWorkspace,
+      "dlc.json",
+      [],
+      InkBackend.Inklecate
+    );
+
+    expect(describePublishedDiagnostics(connection.sendDiagnostics)).toEqual([
+      [chapterPath, [Range.create(1, 3, 1, 10)]]
+    ]);
+  });
+
+  it("fires an event once stories compiled without errors", async () => {
+    const { manager } = createManager();
+    const listener = jest.fn();
+    manager.onDidCompileStory(listener);
+
+    await manager.notifyClientAndPushDiagnostics(
+      workspace,
+      "main.json",
+      [
+        {
+          type: InkErrorType.Error,
+          filePath: chapterPath,
+          lineNumber: 2,
+          message: "Unresolved variable: unknown"
+        }
+      ],
+      InkBackend.Inklecate
+    );
+    await manager.notifyClientAndPushDiagnostics(
+      workspace,
+      "main.json",
+      [
+        {
+          type: InkErrorType.Warning,
+          filePath: chapterPath,
+          lineNumber: 1,
+          message: "Apparent loose end"
+        }
+      ],
+      InkBackend.Inklecate
+    );
+
+    expect(listener.mock.calls).toEqual([[{ workspace, outputStoryPath: "main.json" }]]);
+  });
+});
+
+describe("removeStoryDiagnostics", () => {
+  const compiledWorkspace: InkWorkspace = {
+    ...workspace,
+    temporaryCompilationDirectory: Path.join(directory, "compiled")
+  };
+
+  beforeAll(() => {
+    Fs.outputFileSync(chapterPath, "=== chapter ===\n  {unknown}\n");
+  });
+
+  afterAll(() => {
+    Fs.removeSync(directory);
+  });
+
+  it("clears the diagnostics of a root once it's included by another file", async () => {
+    const { connection, manager } = createManager();
+    const error = {
+      type: InkErrorType.Error,
+      filePath: chapterPath,
+      lineNumber: 2,
+      message: "Unresolved variable: unknown"
+    };
+    const warning = {
+      type: InkErrorType.Warning,
+      filePath: chapterPath,
+      lineNumber: 1,
+      message: "Apparent loose end"
+    };
+
+    await manager.notifyClientAndPushDiagnostics(
+      compiledWorkspace,
+      Path.join(directory, "compiled", "main.ink.json"),
+      [error],
+      InkBackend.Inklecate
+    );
+    await manager.notifyClientAndPushDiagnostics(
+      compiledWorkspace,
+      Path.join(directory, "compiled", "chapter.ink.json"),
+      [warning],
+      InkBackend.Inklecate
+    );
+
+    connection.sendDiagnostics.mockClear();
+    manager.removeStoryDiagnostics(compiledWorkspace, [chapterPath]);
+
+    expect(describePublishedDiagnostics(connection.sendDiagnostics)).toEqual([
+      [chapterPath, [Range.create(1, 3, 1, 10)]]
+    ]);
+
+    connection.sendDiagnostics.mockClear();
+    manager.removeStoryDiagnostics(compiledWorkspace, [chapterPath]);
+
+    expect(connection.sendDiagnostics).not.toHaveBeenCalled();
+  });
+});
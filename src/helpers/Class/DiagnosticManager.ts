@@ -2,72 +2,216 @@
 // Licensed under the MIT License.
 // See LICENSE in the project root for license information.
 
-import { Diagnostic, IConnection } from "vscode-languageserver";
+import * as Fs from "fs-extra";
+import * as Path from "path";
+
+import { Diagnostic, Emitter, Event, IConnection } from "vscode-languageserver";
 import URI from "vscode-uri";
 
 import {
+  DidCompileStoryEvent,
   DidCompileStoryParams,
   IConnectionLogger,
+  InkBackend,
   InkError,
   InkErrorType,
   InkWorkspace
 } from "../../types/types";
 
-import { getDiagnosticSeverityFromInkErrorType } from "../utils";
+import { getDefaultSettings } from "../configuration";
+import {
+  getCompiledStoryPath,
+  getDiagnosticRange,
+  getDiagnosticSeverityFromInkErrorType
+} from "../utils";
 
 import { CompilationNotification } from "../../types/identifiers";
 import DocumentManager from "./DocumentManager";
 
+/** Diagnostics of a single file. */
+interface FileDiagnostics {
+  uri: string;
+  diagnostics: Diagnostic[];
+}
+
 /**
- * Manages the diagnostic reported by Inklecate.
+ * Manages the diagnostic reported by the compilers.
  */
 export default class DiagnosticManager {
-  constructor(private connection: IConnection, private documentManager: DocumentManager, private logger: IConnectionLogger) { }
+  /**
+   * Fired when a story compiled without errors, warnings and todos aside,
+   * once its diagnostics have been pushed.
+   */
+  public readonly onDidCompileStory: Event<DidCompileStoryEvent>;
+
+  /**
+   * Diagnostics of each compiled story, keyed by file path, so that compiling
+   * a story never clears the diagnostics reported for another one.
+   *
+   * Keys are computed by `getStoryKey`, from the workspace and the output path
+   * of the story.
+   */
+  private storyDiagnostics: Map<string, Map<string, FileDiagnostics>> = new Map();
+
+  private didCompileStoryEmitter = new Emitter<DidCompileStoryEvent>();
+
+  constructor(
+    private connection: IConnection,
+    private documentManager: DocumentManager,
+    private logger: IConnectionLogger
+  ) {
+    this.onDidCompileStory = this.didCompileStoryEmitter.event;
+  }
 
   /**
-   * Send the given errors to the client.
+   * Send the given errors to the client, for every file the compiler reported on.
+   * Diagnostics previously published for files of the same story which no
+   * longer have errors are cleared.
    *
+   * @param workspace the workspace in which the story was compiled.
+   * @param outputStoryPath the path of the compiled story.
    * @param errors the errors to push.
+   * @param backend the backend which compiled the story, reported as the
+   *                source of the diagnostics.
    */
-  public notifyClientAndPushDiagnostics(
+  public async notifyClientAndPushDiagnostics(
     workspace: InkWorkspace,
     outputStoryPath: string,
-    errors: InkError[]
+    errors: InkError[],
+    backend: InkBackend
   ) {
-    for (const textDocument of this.documentManager.documents.all()) {
-      const diagnostics: Diagnostic[] = [];
-      for (const error of errors) {
-        if (URI.parse(textDocument.uri).fsPath === error.filePath) {
-          let message = error.message;
-          if (error.type === InkErrorType.Todo) {
-            message = `Todo: ${message}`;
-          }
-          const diagnostic: Diagnostic = {
-            severity: getDiagnosticSeverityFromInkErrorType(error.type),
-            range: {
-              start: { line: error.lineNumber - 1, character: 0 },
-              end: { line: error.lineNumber, character: 0 }
-            },
-            message,
-            source: "inklecate"
-          };
-
-          diagnostics.push(diagnostic);
-        }
+    const storyKey = getStoryKey(workspace, outputStoryPath);
+    const previousDiagnostics: Map<string, FileDiagnostics> =
+      this.storyDiagnostics.get(storyKey) || new Map();
+
+    // Diagnostics are keyed by file path, since the same file may be
+    // represented by differently encoded URIs.
+    const diagnostics: Map<string, FileDiagnostics> = new Map();
+
+    for (const filePath of new Set(errors.map(error => error.filePath))) {
+      const textDocument = this.documentManager.documents
+        .all()
+        .find(document => URI.parse(document.uri).fsPath === filePath);
+
+      const uri = textDocument ? textDocument.uri : URI.file(filePath).toString();
+      const lines = textDocument
+        ? textDocument.getText().split(/\r?\n/)
+        : await this.readLines(filePath);
+
+      const fileDiagnostics = errors
+        .filter(error => error.filePath === filePath)
+        .map(error => this.createDiagnostic(error, lines, backend));
+
+      diagnostics.set(filePath, { uri, diagnostics: fileDiagnostics });
+    }
+
+    if (diagnostics.size > 0) {
+      this.storyDiagnostics.set(storyKey, diagnostics);
+    } else {
+      this.storyDiagnostics.delete(storyKey);
+    }
+
+    // If there a no errors to report, we'll send a custom notification to
+    // the client, asking it to remember the path to the compiled story.
+    if (errors.length === 0) {
+      const params: DidCompileStoryParams = {
+        workspaceUri: workspace.folder.uri,
+        storyUri: `file://${outputStoryPath}`
+      };
+
+      this.connection.sendNotification(CompilationNotification.didCompileStory, params);
+    }
+
+    const publishedFiles = new Map([...previousDiagnostics, ...diagnostics]);
+    for (const [filePath, fileDiagnostics] of publishedFiles) {
+      this.publishDiagnostics(filePath, fileDiagnostics.uri);
+    }
+
+    if (!errors.some(error => error.type === InkErrorType.Error)) {
+      this.didCompileStoryEmitter.fire({ workspace, outputStoryPath });
+    }
+  }
+
+  /**
+   * Clear the diagnostics of the stories compiled from the given files, once they
+   * stopped being main stories, e. g. because another file now includes them.
+   * The diagnostics of the files of these stories are published again.
+   *
+   * @param workspace the workspace containing the stories.
+   * @param mainStoryPaths the paths of the main files of the stories.
+   */
+  public removeStoryDiagnostics(workspace: InkWorkspace, mainStoryPaths: string[]) {
+    const workspacePath = URI.parse(workspace.folder.uri).fsPath;
+    const publishedFiles: Map<string, FileDiagnostics> = new Map();
+
+    for (const mainStoryPath of mainStoryPaths) {
+      const settings = {
+        ...getDefaultSettings(),
+        mainStoryPath: Path.relative(workspacePath, mainStoryPath)
+      };
+      const outputStoryPath = getCompiledStoryPath(settings, workspace);
+      if (!outputStoryPath) {
+        continue;
+      }
+
+      const storyKey = getStoryKey(workspace, outputStoryPath);
+      for (const [filePath, fileDiagnostics] of this.storyDiagnostics.get(storyKey) || []) {
+        publishedFiles.set(filePath, fileDiagnostics);
       }
 
-      // If there a no errors to report, we'll send a custom notification to
-      // the client, asking it to remember the path to the compiled story.
-      if (diagnostics.length === 0) {
-        const params: DidCompileStoryParams = {
-          workspaceUri: workspace.folder.uri,
-          storyUri: `file://${outputStoryPath}`
-        };
+      this.storyDiagnostics.delete(storyKey);
+    }
+
+    for (const [filePath, fileDiagnostics] of publishedFiles) {
+      this.publishDiagnostics(filePath, fileDiagnostics.uri);
+    }
+  }
 
-        this.connection.sendNotification(CompilationNotification.didCompileStory, params);
+  /**
+   * Publish the diagnostics of the given file, merging those reported by
+   * every story which includes it.
+   */
+  private publishDiagnostics(filePath: string, uri: string) {
+    let diagnostics: Diagnostic[] = [];
+    for (const storyDiagnostics of this.storyDiagnostics.values()) {
+      const fileDiagnostics = storyDiagnostics.get(filePath);
+      if (fileDiagnostics) {
+        diagnostics = diagnostics.concat(fileDiagnostics.diagnostics);
       }
+    }
 
-      this.connection.sendDiagnostics({ uri: textDocument.uri, diagnostics });
+    this.connection.sendDiagnostics({ uri, diagnostics });
+  }
+
+  private createDiagnostic(error: InkError, lines: string[], backend: InkBackend): Diagnostic {
+    let message = error.message;
+    if (error.type === InkErrorType.Todo) {
+      message = `Todo: ${message}`;
     }
+
+    const lineIndex = error.lineNumber - 1;
+    return {
+      severity: getDiagnosticSeverityFromInkErrorType(error.type),
+      range: getDiagnosticRange(lines[lineIndex] || "", lineIndex, error.message),
+      message,
+      source: backend
+    };
   }
+
+  /**
+   * Read the lines of a file which isn't opened by the client, in order to
+   * narrow the range of its diagnostics.
+   */
+  private async readLines(filePath: string): Promise<string[]> {
+    try {
+      return (await Fs.readFile(filePath, "utf8")).replace(/^\uFEFF/, "").split(/\r?\n/);
+    } catch (error) {
+      this.logger.console.warn(`Could not read '${filePath}' - ${error.message}`);
+      return [];
+    }
+  }
+}
+
+function getStoryKey(workspace: InkWorkspace, outputStoryPath: string) {
+  return `${workspace.folder.uri}|${outputStoryPath}`;
 }
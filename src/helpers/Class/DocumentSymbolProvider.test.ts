@@ -0,0 +1,101 @@
+// Copyright (c) Frédéric Maquin <fred@ephread.com>
+// Licensed under the MIT License.
+// See LICENSE in the project root for license information.
+
+import { DocumentSymbol, SymbolInformation, SymbolKind, TextDocument } from "vscode-languageserver";
+
+import { Capabilities } from "../../types/types";
+
+import { createDocumentManager } from "../../tests/helpers/documents";
+import mockedLogger from "../../tests/helpers/logger";
+
+import DocumentSymbolProvider from "./DocumentSymbolProvider";
+import SyntaxTreeManager from "./SyntaxTreeManager";
+
+const uri = "file:///project/main.ink";
+const document = TextDocument.create(
+  uri,
+  "ink",
+  1,
+  [
+    "VAR health = 10",
+    "LIST colours = red, blue",
+    "=== intro ===",
+    "* (pick) Pick",
+    "= details(x)",
+    "- (done) Done",
+    "=== function add(a, b) ===",
+    "~ return a + b",
+    "CONST MAX = 3"
+  ].join("\n")
+);
+
+const syntaxTreeManager = new SyntaxTreeManager(
+  createDocumentManager([document]),
+  mockedLogger.logger
+);
+
+function createCapabilities(hierarchicalDocumentSymbol: boolean): Capabilities {
+  return {
+    configuration: false,
+    workspaceFolder: false,
+    diagnostic: false,
+    hierarchicalDocumentSymbol,
+    prepareRename: false,
+    snippetCompletion: false,
+    markdownHover: false
+  };
+}
+
+function describeSymbols(symbols: DocumentSymbol[]): any[] {
+  return symbols.map(symbol => [symbol.name, symbol.kind, describeSymbols(symbol.children || [])]);
+}
+
+describe("provideDocumentSymbols", () => {
+  it("returns a hierarchy of symbols, in document order", () => {
+    const provider = new DocumentSymbolProvider(syntaxTreeManager, createCapabilities(true));
+    const symbols = provider.provideDocumentSymbols({ textDocument: { uri } }) as DocumentSymbol[];
+
+    expect(describeSymbols(symbols)).toEqual([
+      ["health", SymbolKind.Variable, []],
+      [
+        "colours",
+        SymbolKind.Enum,
+        [["red", SymbolKind.EnumMember, []], ["blue", SymbolKind.EnumMember, []]]
+      ],
+      [
+        "intro",
+        SymbolKind.Class,
+        [
+          ["pick", SymbolKind.Field, []],
+          ["details", SymbolKind.Method, [["done", SymbolKind.Field, []]]]
+        ]
+      ],
+      ["add", SymbolKind.Function, []],
+      ["MAX", SymbolKind.Constant, []]
+    ]);
+
+    expect(symbols[3].detail).toEqual("(a, b)");
+    expect(symbols[2].selectionRange.start).toEqual({ line: 2, character: 4 });
+  });
+
+  it("returns a flat list of symbols when the client doesn't support hierarchies", () => {
+    const provider = new DocumentSymbolProvider(syntaxTreeManager, createCapabilities(false));
+    const symbols = provider.provideDocumentSymbols({
+      textDocument: { uri }
+    }) as SymbolInformation[];
+
+    expect(symbols.map(symbol => [symbol.name, symbol.containerName])).toEqual([
+      ["health", undefined],
+      ["colours", undefined],
+      ["red", "colours"],
+      ["blue", "colours"],
+      ["intro", undefined],
+      ["pick", "intro"],
+      ["details", "intro"],
+      ["done", "details"],
+      ["add", undefined],
+      ["MAX", undefined]
+    ]);
+  });
+});
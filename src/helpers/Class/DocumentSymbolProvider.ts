@@ -0,0 +1,171 @@
+// Copyright (c) Frédéric Maquin <fred@ephread.com>
+// Licensed under the MIT License.
+// See LICENSE in the project root for license information.
+
+import {
+  DocumentSymbol,
+  DocumentSymbolParams,
+  SymbolInformation,
+  SymbolKind
+} from "vscode-languageserver";
+
+import {
+  DeclarationNode,
+  FlowNode,
+  InkSyntaxTree,
+  LabelNode,
+  ParameterNode,
+  SyntaxKind
+} from "../../types/syntax";
+import { Capabilities } from "../../types/types";
+
+import SyntaxTreeManager from "./SyntaxTreeManager";
+
+/**
+ * Provides the outline of ink documents: knots, stitches, functions,
+ * labels and global declarations.
+ */
+export default class DocumentSymbolProvider {
+  constructor(private syntaxTreeManager: SyntaxTreeManager, private capabilities: Capabilities) {}
+
+  /**
+   * Returns the symbols of the requested document, either as a hierarchy or as a flat
+   * list, depending on what the client supports.
+   *
+   * @param params parameters sent by the client.
+   */
+  public provideDocumentSymbols(
+    params: DocumentSymbolParams
+  ): DocumentSymbol[] | SymbolInformation[] {
+    const tree = this.syntaxTreeManager.getSyntaxTree(params.textDocument.uri);
+    if (!tree) {
+      return [];
+    }
+
+    const symbols = this.getDocumentSymbols(tree);
+
+    if (this.capabilities.hierarchicalDocumentSymbol) {
+      return symbols;
+    }
+
+    const flattenedSymbols: SymbolInformation[] = [];
+    this.flattenSymbols(symbols, tree.uri, undefined, flattenedSymbols);
+
+    return flattenedSymbols;
+  }
+
+  /**
+   * Returns the symbols of the given tree, in document order.
+   *
+   * @param tree the syntax tree of the document.
+   */
+  public getDocumentSymbols(tree: InkSyntaxTree): DocumentSymbol[] {
+    const symbols: DocumentSymbol[] = [];
+
+    for (const variable of tree.variables) {
+      const kind =
+        variable.kind === SyntaxKind.Constant ? SymbolKind.Constant : SymbolKind.Variable;
+      symbols.push(this.createSymbol(variable, kind, variable.value));
+    }
+
+    for (const list of tree.lists) {
+      const items = list.items.map(item => this.createSymbol(item, SymbolKind.EnumMember));
+      symbols.push(this.createSymbol(list, SymbolKind.Enum, undefined, items));
+    }
+
+    for (const external of tree.externals) {
+      const detail = `EXTERNAL ${this.describeParameters(external.parameters)}`;
+      symbols.push(this.createSymbol(external, SymbolKind.Interface, detail));
+    }
+
+    symbols.push(...tree.root.labels.map(label => this.createLabelSymbol(label)));
+    symbols.push(...tree.root.stitches.map(stitch => this.createFlowSymbol(stitch)));
+    symbols.push(...tree.knots.map(knot => this.createFlowSymbol(knot)));
+
+    return this.sortSymbols(symbols);
+  }
+
+  private createFlowSymbol(flow: FlowNode): DocumentSymbol {
+    let kind: SymbolKind;
+    switch (flow.kind) {
+      case SyntaxKind.Function:
+        kind = SymbolKind.Function;
+        break;
+      case SyntaxKind.Stitch:
+        kind = SymbolKind.Method;
+        break;
+      default:
+        kind = SymbolKind.Class;
+        break;
+    }
+
+    const children = this.sortSymbols([
+      ...flow.labels.map(label => this.createLabelSymbol(label)),
+      ...flow.stitches.map(stitch => this.createFlowSymbol(stitch))
+    ]);
+
+    const detail =
+      flow.parameters.length > 0 ? this.describeParameters(flow.parameters) : undefined;
+
+    return this.createSymbol(flow, kind, detail, children);
+  }
+
+  private createLabelSymbol(label: LabelNode): DocumentSymbol {
+    return this.createSymbol(label, SymbolKind.Field, label.isChoice ? "choice" : "gather");
+  }
+
+  private createSymbol(
+    declaration: DeclarationNode,
+    kind: SymbolKind,
+    detail?: string,
+    children?: DocumentSymbol[]
+  ): DocumentSymbol {
+    return DocumentSymbol.create(
+      declaration.name.name,
+      detail,
+      kind,
+      declaration.range,
+      declaration.name.range,
+      children
+    );
+  }
+
+  private describeParameters(parameters: ParameterNode[]): string {
+    const descriptions = parameters.map(parameter => {
+      const prefix = parameter.isReference ? "ref " : parameter.isDivertTarget ? "-> " : "";
+      return `${prefix}${parameter.name.name}`;
+    });
+
+    return `(${descriptions.join(", ")})`;
+  }
+
+  private sortSymbols(symbols: DocumentSymbol[]): DocumentSymbol[] {
+    return symbols.sort((lhs, rhs) => {
+      const lineDifference = lhs.range.start.line - rhs.range.start.line;
+      return lineDifference !== 0
+        ? lineDifference
+        : lhs.range.start.character - rhs.range.start.character;
+    });
+  }
+
+  /**
+   * Convert hierarchical symbols to `SymbolInformation`, for clients which
+   * don't support `DocumentSymbol`.
+   */
+  private flattenSymbols(
+    symbols: DocumentSymbol[],
+    uri: string,
+    containerName: string | undefined,
+    result: SymbolInformation[]
+  ) {
+    for (const symbol of symbols) {
+      result.push(
+        SymbolInformation.create(symbol.name, symbol.kind, symbol.range, uri, containerName)
+      );
+
+      if (symbol.children) {
+        this.flattenSymbols(symbol.children, uri, symbol.name, result);
+      }
+    }
+  }
+}
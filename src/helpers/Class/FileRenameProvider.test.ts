@@ -0,0 +1,144 @@
+// Copyright (c) Frédéric Maquin <fred@ephread.com>
+// Licensed under the MIT License.
+// See LICENSE in the project root for license information.
+
+import * as Fs from "fs-extra";
+import * as Os from "os";
+import * as Path from "path";
+
+import { TextEdit } from "vscode-languageserver";
+import URI from "vscode-uri";
+
+import { InkWorkspace } from "../../types/types";
+
+import { createDocumentManager } from "../../tests/helpers/documents";
+import mockedLogger from "../../tests/helpers/logger";
+import { createWorkspaceManager } from "../../tests/helpers/workspace";
+
+import FileRenameProvider from "./FileRenameProvider";
+import SyntaxTreeManager from "./SyntaxTreeManager";
+
+const directory = Path.join(Os.tmpdir(), "ink.language.server.file.rename.test");
+
+const workspace: InkWorkspace = {
+  folder: { uri: URI.file(directory).toString(), name: "story" }
+};
+
+function createProvider() {
+  const documentManager = createDocumentManager();
+
+  return new FileRenameProvider(
+    createWorkspaceManager(documentManager, [workspace]),
+    new SyntaxTreeManager(documentManager, mockedLogger.logger)
+  );
+}
+
+function getUri(relativePath: string) {
+  return URI.file(Path.join(directory, relativePath)).toString();
+}
+
+function renameFiles(oldPath: string, newPath: string) {
+  return createProvider().provideRenameFilesEdits({
+    files: [{ oldUri: getUri(oldPath), newUri: getUri(newPath) }]
+  });
+}
+
+describe("provideRenameFilesEdits", () => {
+  beforeEach(() => {
+    Fs.outputFileSync(
+      Path.join(directory, "main.ink"),
+      "INCLUDE chapters/act1.ink\nINCLUDE chapters/act2.ink\n-> act1\n"
+    );
+    Fs.outputFileSync(
+      Path.join(directory, "chapters/act1.ink"),
+      "INCLUDE chapters/act2.ink\n=== act1 ===\n-> act2\n"
+    );
+    Fs.outputFileSync(Path.join(directory, "chapters/act2.ink"), "=== act2 ===\n-> END\n");
+  });
+
+  afterEach(() => {
+    Fs.removeSync(directory);
+  });
+
+  it("rewrites the includes of a renamed file", async () => {
+    expect(await renameFiles("chapters/act2.ink", "act2/outro.ink")).toEqual({
+      changes: {
+        [getUri("main.ink")]: [
+          TextEdit.replace(
+            { start: { line: 1, character: 8 }, end: { line: 1, character: 25 } },
+            "act2/outro.ink"
+          )
+        ],
+        [getUri("chapters/act1.ink")]: [
+          TextEdit.replace(
+            { start: { line: 0, character: 8 }, end: { line: 0, character: 25 } },
+            "act2/outro.ink"
+          )
+        ]
+      }
+    });
+  });
+
+  it("keeps the includes of a moved file relative to the main story", async () => {
+    expect(await renameFiles("chapters/act1.ink", "act1/intro.ink")).toEqual({
+      changes: {
+        [getUri("main.ink")]: [
+          TextEdit.replace(
+            { start: { line: 0, character: 8 }, end: { line: 0, character: 25 } },
+            "act1/intro.ink"
+          )
+        ]
+      }
+    });
+  });
+
+  it("rewrites the includes of the files of a renamed directory", async () => {
+    expect(await renameFiles("chapters", "acts")).toEqual({
+      changes: {
+        [getUri("main.ink")]: [
+          TextEdit.replace(
+            { start: { line: 0, character: 8 }, end: { line: 0, character: 25 } },
+            "acts/act1.ink"
+          ),
+          TextEdit.replace(
+            { start: { line: 1, character: 8 }, end: { line: 1, character: 25 } },
+            "acts/act2.ink"
+          )
+        ],
+        [getUri("chapters/act1.ink")]: [
+          TextEdit.replace(
+            { start: { line: 0, character: 8 }, end: { line: 0, character: 25 } },
+            "acts/act2.ink"
+          )
+        ]
+      }
+    });
+  });
+
+  it("rewrites every include of a moved main story", async () => {
+    expect(await renameFiles("main.ink", "story/main.ink")).toEqual({
+      changes: {
+        [getUri("main.ink")]: [
+          TextEdit.replace(
+            { start: { line: 0, character: 8 }, end: { line: 0, character: 25 } },
+            "../chapters/act1.ink"
+          ),
+          TextEdit.replace(
+            { start: { line: 1, character: 8 }, end: { line: 1, character: 25 } },
+            "../chapters/act2.ink"
+          )
+        ],
+        [getUri("chapters/act1.ink")]: [
+          TextEdit.replace(
+            { start: { line: 0, character: 8 }, end: { line: 0, character: 25 } },
+            "../chapters/act2.ink"
+          )
+        ]
+      }
+    });
+  });
+
+  it("returns no edits when no include is affected", async () => {
+    expect(await renameFiles("notes.ink", "ideas.ink")).toBeNull();
+  });
+});
@@ -0,0 +1,109 @@
+// Copyright (c) Frédéric Maquin <fred@ephread.com>
+// Licensed under the MIT License.
+// See LICENSE in the project root for license information.
+
+import * as Path from "path";
+
+import { TextEdit, WorkspaceEdit } from "vscode-languageserver";
+import URI from "vscode-uri";
+
+import { InkWorkspace, RenameFilesParams } from "../../types/types";
+
+import { isFilePathChildOfDirPath } from "../utils";
+
+import SyntaxTreeManager from "./SyntaxTreeManager";
+import WorkspaceManager from "./WorkspaceManager";
+
+/**
+ * Keeps `INCLUDE` statements pointing at the files they include, while ink files,
+ * or directories containing some, are moved or renamed by the client.
+ */
+export default class FileRenameProvider {
+  constructor(
+    private workspaceManager: WorkspaceManager,
+    private syntaxTreeManager: SyntaxTreeManager
+  ) {}
+
+  /**
+   * Returns the edits rewriting the `INCLUDE` paths affected by the given renames,
+   * across the stories of the workspaces containing the renamed files. The edits
+   * are computed before the files are renamed, and apply to their current locations.
+   *
+   * @param params parameters sent by the client.
+   */
+  public async provideRenameFilesEdits(params: RenameFilesParams): Promise<WorkspaceEdit | null> {
+    const renames = params.files.map(file => ({
+      oldPath: URI.parse(file.oldUri).fsPath,
+      newPath: URI.parse(file.newUri).fsPath
+    }));
+
+    const getNewPath = (filePath: string): string => {
+      for (const rename of renames) {
+        if (filePath === rename.oldPath) {
+          return rename.newPath;
+        }
+
+        if (isFilePathChildOfDirPath(filePath, rename.oldPath)) {
+          return Path.join(rename.newPath, Path.relative(rename.oldPath, filePath));
+        }
+      }
+
+      return filePath;
+    };
+
+    const workspaces: Set<InkWorkspace> = new Set();
+    for (const rename of renames) {
+      const workspace = this.workspaceManager.getInkWorkspaceOfFilePath(rename.oldPath);
+      if (workspace) {
+        workspaces.add(workspace);
+      }
+    }
+
+    const changes: { [uri: string]: TextEdit[] } = {};
+    for (const workspace of workspaces) {
+      for (const mainStoryPath of await this.workspaceManager.getMainStoryPaths(workspace)) {
+        // Included paths are relative to the directory of the main story, which
+        // may be moved along.
+        const newMainStoryPath = getNewPath(mainStoryPath);
+        const newStoryDirectoryPath = Path.dirname(newMainStoryPath);
+
+        for (const tree of await this.syntaxTreeManager.getStorySyntaxTrees(mainStoryPath)) {
+          for (const include of tree.includes) {
+            const includedFilePath = await this.syntaxTreeManager.resolveIncludePath(
+              include,
+              mainStoryPath
+            );
+
+            if (!includedFilePath) {
+              continue;
+            }
+
+            const newIncludedFilePath = getNewPath(includedFilePath);
+            if (newMainStoryPath === mainStoryPath && newIncludedFilePath === includedFilePath) {
+              continue;
+            }
+
+            const newIncludePath = Path.relative(newStoryDirectoryPath, newIncludedFilePath)
+              .split(Path.sep)
+              .join("/");
+
+            // Files shared by several stories are rewritten once.
+            const edits = changes[tree.uri] || [];
+            const isEdited = edits.some(
+              edit =>
+                edit.range.start.line === include.pathRange.start.line &&
+                edit.range.start.character === include.pathRange.start.character
+            );
+
+            if (newIncludePath !== include.path && !isEdited) {
+              edits.push(TextEdit.replace(include.pathRange, newIncludePath));
+              changes[tree.uri] = edits;
+            }
+          }
+        }
+      }
+    }
+
+    return Object.keys(changes).length > 0 ? { changes } : null;
+  }
+}
@@ -0,0 +1,111 @@
+// Copyright (c) Frédéric Maquin <fred@ephread.com>
+// Licensed under the MIT License.
+// See LICENSE in the project root for license information.
+
+import { MarkupContent, MarkupKind, TextDocument } from "vscode-languageserver";
+
+import { createDocumentManager } from "../../tests/helpers/documents";
+import mockedLogger from "../../tests/helpers/logger";
+import { createWorkspaceManager } from "../../tests/helpers/workspace";
+
+import HoverProvider from "./HoverProvider";
+import SyntaxTreeManager from "./SyntaxTreeManager";
+
+const uri = "file:///project/main.ink";
+const document = TextDocument.create(
+  uri,
+  "ink",
+  1,
+  [
+    "VAR health = 10",
+    "LIST colours = (red), blue = 5",
+    "-> intro",
+    "=== intro(x) ===",
+    "You wake up.",
+    "",
+    "It's raining.",
+    "{health} {blue} {LIST_RANDOM(colours)}",
+    "= details",
+    "Details."
+  ].join("\n")
+);
+
+const documentManager = createDocumentManager([document]);
+const syntaxTreeManager = new SyntaxTreeManager(documentManager, mockedLogger.logger);
+const workspaceManager = createWorkspaceManager(documentManager);
+
+function createProvider(markdownHover: boolean) {
+  return new HoverProvider(workspaceManager, syntaxTreeManager, {
+    configuration: false,
+    workspaceFolder: false,
+    diagnostic: false,
+    hierarchicalDocumentSymbol: false,
+    prepareRename: false,
+    snippetCompletion: false,
+    markdownHover
+  });
+}
+
+async function hover(line: number, character: number, markdownHover: boolean = true) {
+  const result = await createProvider(markdownHover).provideHover({
+    textDocument: { uri },
+    position: { line, character }
+  });
+
+  return result ? (result.contents as MarkupContent) : undefined;
+}
+
+describe("provideHover", () => {
+  it("describes knots with their signature, file and first lines of prose", async () => {
+    expect(await hover(2, 4)).toEqual({
+      kind: MarkupKind.Markdown,
+      value: [
+        "```ink",
+        "=== intro(x) ===",
+        "```",
+        "Declared in main.ink, line 4.",
+        "",
+        "You wake up.",
+        "It's raining.",
+        "{health} {blue} {LIST_RANDOM(colours)}"
+      ].join("\n")
+    });
+  });
+
+  it("describes variables and list items with their declaration", async () => {
+    expect(await hover(7, 2)).toEqual({
+      kind: MarkupKind.Markdown,
+      value: ["```ink", "VAR health = 10", "```", "Declared in main.ink, line 1."].join("\n")
+    });
+
+    expect(((await hover(7, 11)) as MarkupContent).value).toEqual(
+      [
+        "```ink",
+        "LIST colours = (red), blue = 5",
+        "```",
+        "Item of the list colours.",
+        "",
+        "Declared in main.ink, line 2."
+      ].join("\n")
+    );
+  });
+
+  it("describes built-in functions", async () => {
+    expect(((await hover(7, 20)) as MarkupContent).value).toEqual(
+      ["```ink", "LIST_RANDOM(list)", "```", "Returns an item of `list`, picked at random."].join(
+        "\n"
+      )
+    );
+  });
+
+  it("returns plain text when the client doesn't support markdown", async () => {
+    expect(await hover(8, 3, false)).toEqual({
+      kind: MarkupKind.PlainText,
+      value: "= details\n\nDeclared in main.ink, line 9.\n\nDetails."
+    });
+  });
+
+  it("returns nothing outside of symbols", async () => {
+    expect(await hover(4, 3)).toBeUndefined();
+  });
+});
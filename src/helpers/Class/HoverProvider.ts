@@ -0,0 +1,265 @@
+// Copyright (c) Frédéric Maquin <fred@ephread.com>
+// Licensed under the MIT License.
+// See LICENSE in the project root for license information.
+
+import * as Path from "path";
+
+import { Hover, MarkupKind, Range, TextDocumentPositionParams } from "vscode-languageserver";
+import URI from "vscode-uri";
+
+import {
+  DeclarationNode,
+  ExternalNode,
+  FlowNode,
+  InkSyntaxTree,
+  LabelNode,
+  LineType,
+  ListItemNode,
+  ListNode,
+  ParameterNode,
+  ReferenceKind,
+  SyntaxKind,
+  VariableNode
+} from "../../types/syntax";
+import { Capabilities } from "../../types/types";
+
+import { BuiltinFunction, findBuiltinFunction } from "../../parser/builtins";
+import { findDeclarationAtPosition, findReferenceAtPosition } from "../../parser/queries";
+import { ResolvedSymbol, resolveSymbolAtPosition } from "../../parser/resolver";
+
+import SyntaxTreeManager from "./SyntaxTreeManager";
+import WorkspaceManager from "./WorkspaceManager";
+
+/** Maximum number of lines of prose shown when hovering a knot or a stitch. */
+const MAX_PROSE_LINES = 3;
+
+/**
+ * Describes the symbol found under the cursor: the signature and the first
+ * lines of knots and stitches, the declaration of variables and lists
+ * and the documentation of built-in functions.
+ */
+export default class HoverProvider {
+  constructor(
+    private workspaceManager: WorkspaceManager,
+    private syntaxTreeManager: SyntaxTreeManager,
+    private capabilities: Capabilities
+  ) {}
+
+  /**
+   * Returns the description of the symbol found at the given position, if any.
+   *
+   * @param params parameters sent by the client.
+   */
+  public async provideHover(params: TextDocumentPositionParams): Promise<Hover | null> {
+    const tree = this.syntaxTreeManager.getSyntaxTree(params.textDocument.uri);
+    if (!tree) {
+      return null;
+    }
+
+    const workspace = this.workspaceManager.getInkWorkspaceOfFilePath(URI.parse(tree.uri).fsPath);
+    const trees = workspace
+      ? await this.syntaxTreeManager.getDocumentStorySyntaxTrees(
+          tree,
+          await this.workspaceManager.getMainStoryPaths(workspace, tree.uri)
+        )
+      : [tree];
+
+    const symbol = resolveSymbolAtPosition(trees, tree, params.position);
+    if (symbol) {
+      const workspacePath = workspace ? URI.parse(workspace.folder.uri).fsPath : undefined;
+      return this.createHover(
+        this.describeDeclaration(symbol),
+        this.describeLocation(symbol, workspacePath),
+        this.findIdentifierRange(tree, params)
+      );
+    }
+
+    const referenceAtPosition = findReferenceAtPosition(tree, params.position);
+    if (!referenceAtPosition || referenceAtPosition.reference.path.length > 1) {
+      return null;
+    }
+
+    const { reference } = referenceAtPosition;
+    const builtin =
+      reference.referenceKind === ReferenceKind.FunctionCall ||
+      reference.referenceKind === ReferenceKind.Read
+        ? findBuiltinFunction(reference.path[0].name)
+        : undefined;
+
+    return builtin
+      ? this.createHover(describeBuiltin(builtin), builtin.documentation, reference.path[0].range)
+      : null;
+  }
+
+  private createHover(signature: string, details: string, range?: Range): Hover {
+    if (this.capabilities.markdownHover) {
+      return {
+        contents: {
+          kind: MarkupKind.Markdown,
+          value: ["```ink", signature, "```", details].join("\n")
+        },
+        range
+      };
+    }
+
+    return { contents: { kind: MarkupKind.PlainText, value: `${signature}\n\n${details}` }, range };
+  }
+
+  private findIdentifierRange(tree: InkSyntaxTree, params: TextDocumentPositionParams) {
+    const declaration = findDeclarationAtPosition(tree, params.position);
+    if (declaration) {
+      return declaration.name.range;
+    }
+
+    const referenceAtPosition = findReferenceAtPosition(tree, params.position);
+    return referenceAtPosition
+      ? referenceAtPosition.reference.path[referenceAtPosition.componentIndex].range
+      : undefined;
+  }
+
+  /* Descriptions */
+  /****************************************************************************/
+  /** Returns the declaration of the symbol, as it would be written in ink. */
+  private describeDeclaration(symbol: ResolvedSymbol): string {
+    const declaration = symbol.declaration;
+    const name = declaration.name.name;
+
+    switch (declaration.kind) {
+      case SyntaxKind.Knot:
+        return `=== ${name}${describeParameters((declaration as FlowNode).parameters)} ===`;
+      case SyntaxKind.Function:
+        return `=== function ${name}${describeParameters(
+          (declaration as FlowNode).parameters,
+          true
+        )} ===`;
+      case SyntaxKind.Stitch:
+        return `= ${name}${describeParameters((declaration as FlowNode).parameters)}`;
+      case SyntaxKind.Label:
+        return `${(declaration as LabelNode).isChoice ? "*" : "-"} (${name})`;
+      case SyntaxKind.Variable:
+      case SyntaxKind.Constant:
+      case SyntaxKind.Temporary:
+        return describeVariable(declaration as VariableNode);
+      case SyntaxKind.Parameter:
+        return `(parameter) ${describeParameter(declaration as ParameterNode)}`;
+      case SyntaxKind.List:
+        return describeList(declaration as ListNode);
+      case SyntaxKind.ListItem:
+        const list = findList(symbol.tree, declaration as ListItemNode);
+        return list ? describeList(list) : name;
+      case SyntaxKind.External:
+        return `EXTERNAL ${name}${describeParameters(
+          (declaration as ExternalNode).parameters,
+          true
+        )}`;
+      default:
+        return name;
+    }
+  }
+
+  /**
+   * Returns where the symbol is declared and, for knots and stitches,
+   * their first lines of prose.
+   */
+  private describeLocation(symbol: ResolvedSymbol, workspacePath: string | undefined): string {
+    const filePath = URI.parse(symbol.tree.uri).fsPath;
+    const fileName = workspacePath
+      ? Path.relative(workspacePath, filePath)
+      : Path.basename(filePath);
+    const line = symbol.declaration.name.range.start.line + 1;
+    const descriptions: string[] = [];
+
+    if (symbol.declaration.kind === SyntaxKind.ListItem) {
+      const list = findList(symbol.tree, symbol.declaration as ListItemNode);
+      if (list) {
+        descriptions.push(`Item of the list ${list.name.name}.`);
+      }
+    }
+
+    descriptions.push(`Declared in ${fileName}, line ${line}.`);
+
+    if (
+      symbol.declaration.kind === SyntaxKind.Knot ||
+      symbol.declaration.kind === SyntaxKind.Stitch
+    ) {
+      const prose = findProse(symbol.tree, symbol.declaration as FlowNode);
+      if (prose.length > 0) {
+        descriptions.push(prose.join("\n"));
+      }
+    }
+
+    return descriptions.join("\n\n");
+  }
+}
+
+function describeBuiltin(builtin: BuiltinFunction): string {
+  return `${builtin.name}(${builtin.parameters.join(", ")})`;
+}
+
+function describeParameter(parameter: ParameterNode): string {
+  const prefix = parameter.isReference ? "ref " : parameter.isDivertTarget ? "-> " : "";
+  return `${prefix}${parameter.name.name}`;
+}
+
+/**
+ * Describe the parameters of a flow. Parentheses are omitted for knots
+ * and stitches without parameters, but not for functions.
+ */
+function describeParameters(parameters: ParameterNode[], isFunction: boolean = false): string {
+  if (parameters.length === 0 && !isFunction) {
+    return "";
+  }
+
+  return `(${parameters.map(describeParameter).join(", ")})`;
+}
+
+function describeVariable(variable: VariableNode): string {
+  const keyword =
+    variable.kind === SyntaxKind.Temporary
+      ? "~ temp"
+      : variable.kind === SyntaxKind.Constant
+      ? "CONST"
+      : "VAR";
+
+  return variable.value !== undefined
+    ? `${keyword} ${variable.name.name} = ${variable.value}`
+    : `${keyword} ${variable.name.name}`;
+}
+
+function describeList(list: ListNode): string {
+  const items = list.items.map(item => {
+    const value = item.value !== undefined ? ` = ${item.value}` : "";
+    return item.isInitiallySet ? `(${item.name.name}${value})` : `${item.name.name}${value}`;
+  });
+
+  return `LIST ${list.name.name} = ${items.join(", ")}`;
+}
+
+function findList(tree: InkSyntaxTree, item: ListItemNode): ListNode | undefined {
+  return tree.lists.find(list => list.items.indexOf(item) > -1);
+}
+
+/**
+ * Returns the first non-empty lines following the header of the given flow,
+ * stopping at the next knot or stitch.
+ */
+function findProse(tree: InkSyntaxTree, flow: DeclarationNode): string[] {
+  const prose: string[] = [];
+
+  for (let index = flow.range.start.line + 1; index < tree.lines.length; index++) {
+    const line = tree.lines[index];
+    if (
+      prose.length >= MAX_PROSE_LINES ||
+      line.type === LineType.KnotHeader ||
+      line.type === LineType.StitchHeader
+    ) {
+      break;
+    }
+
+    if (line.type !== LineType.Empty) {
+      prose.push(line.text.trim());
+    }
+  }
+
+  return prose;
+}
@@ -0,0 +1,214 @@
+// Copyright (c) Frédéric Maquin <fred@ephread.com>
+// Licensed under the MIT License.
+// See LICENSE in the project root for license information.
+
+import * as Fs from "fs-extra";
+import * as Os from "os";
+import * as Path from "path";
+
+import { TextDocument } from "vscode-languageserver";
+import URI from "vscode-uri";
+
+import { CompilationNotification } from "../../types/identifiers";
+import { InkWorkspace } from "../../types/types";
+
+import { createTestConnection } from "../../tests/helpers/connection";
+import { createDocumentManager } from "../../tests/helpers/documents";
+import mockedLogger from "../../tests/helpers/logger";
+
+import DocumentManager from "./DocumentManager";
+import MainStoryResolver from "./MainStoryResolver";
+import SyntaxTreeManager from "./SyntaxTreeManager";
+
+const directory = Path.join(Os.tmpdir(), "ink.language.server.main.story.test");
+
+const workspace: InkWorkspace = {
+  folder: { uri: URI.file(directory).toString(), name: "story" }
+};
+
+function getUri(relativePath: string) {
+  return URI.file(Path.join(directory, relativePath)).toString();
+}
+
+function createResolver(documents: TextDocument[] = []) {
+  const connection = createTestConnection();
+  const sendNotification = jest.spyOn(connection, "sendNotification").mockReturnValue(undefined);
+  const documentManager = createDocumentManager(documents);
+
+  const resolver = new MainStoryResolver(
+    connection,
+    documentManager,
+    new SyntaxTreeManager(documentManager, mockedLogger.logger),
+    mockedLogger.logger
+  );
+
+  return { connection: { sendNotification }, resolver };
+}
+
+function writeFiles(files: { [relativePath: string]: string }) {
+  for (const relativePath of Object.keys(files)) {
+    Fs.outputFileSync(Path.join(directory, relativePath), files[relativePath]);
+  }
+}
+
+describe("resolveMainStoryPath", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  afterEach(() => {
+    Fs.removeSync(directory);
+  });
+
+  it("picks the file which no other file includes", async () => {
+    const { resolver } = createResolver();
+    writeFiles({
+      "story.ink": "INCLUDE chapters/act1.ink\n-> act1",
+      "chapters/act1.ink": "INCLUDE chapters/act2.ink\n=== act1 ===\n-> act2",
+      "chapters/act2.ink": "=== act2 ===\n-> END"
+    });
+
+    expect(await resolver.resolveMainStoryPath(workspace, getUri("chapters/act2.ink"))).toBe(
+      "story.ink"
+    );
+    expect(mockedLogger.mocks.showWarningMessage).not.toHaveBeenCalled();
+  });
+
+  it("picks the root including the document, among several", async () => {
+    const { resolver } = createResolver();
+    writeFiles({
+      "demo.ink": "INCLUDE demo_chapter.ink\n-> demo",
+      "demo_chapter.ink": "=== demo ===\n-> END",
+      "story.ink": "INCLUDE chapter.ink\n-> chapter",
+      "chapter.ink": "=== chapter ===\n-> END"
+    });
+
+    expect(await resolver.resolveMainStoryPath(workspace, getUri("demo_chapter.ink"))).toBe(
+      "demo.ink"
+    );
+    expect(await resolver.resolveMainStoryPath(workspace, getUri("chapter.ink"))).toBe("story.ink");
+    expect(mockedLogger.mocks.showWarningMessage).not.toHaveBeenCalled();
+  });
+
+  it("tells the user when the document belongs to several stories, once", async () => {
+    const { resolver } = createResolver();
+    writeFiles({
+      "demo.ink": "INCLUDE chapter.ink\n-> chapter",
+      "main.ink": "INCLUDE chapter.ink\n-> chapter",
+      "chapter.ink": "=== chapter ===\n-> END"
+    });
+
+    expect(await resolver.resolveMainStoryPath(workspace, getUri("chapter.ink"))).toBe("main.ink");
+    expect(await resolver.resolveMainStoryPath(workspace, getUri("chapter.ink"))).toBe("main.ink");
+
+    expect(mockedLogger.mocks.showWarningMessage).toHaveBeenCalledTimes(1);
+    expect(mockedLogger.mocks.showWarningMessage).toHaveBeenCalledWith(
+      "'chapter.ink' could belong to several stories ('demo.ink', 'main.ink'), " +
+        "'main.ink' was compiled. Set 'ink.mainStoryPath' to choose the main story.",
+      true
+    );
+  });
+
+  it("returns undefined when the workspace has no ink files", async () => {
+    const { resolver } = createResolver();
+    Fs.mkdirpSync(directory);
+
+    expect(await resolver.resolveMainStoryPath(workspace, getUri("main.ink"))).toBeUndefined();
+  });
+
+  it("reuses the include graph until the files of the workspace change", async () => {
+    const { resolver } = createResolver();
+    writeFiles({
+      "story.ink": "INCLUDE chapter.ink\n-> chapter",
+      "chapter.ink": "=== chapter ===\n-> END"
+    });
+
+    expect(await resolver.resolveMainStoryPath(workspace, getUri("chapter.ink"))).toBe("story.ink");
+
+    writeFiles({ "main.ink": "INCLUDE story.ink\n-> chapter" });
+    expect(await resolver.resolveMainStoryPath(workspace, getUri("chapter.ink"))).toBe("story.ink");
+
+    resolver.invalidateIncludeGraph(workspace);
+    expect(await resolver.resolveMainStoryPath(workspace, getUri("chapter.ink"))).toBe("main.ink");
+  });
+
+  it("rebuilds the include graph when the includes of a document change", async () => {
+    const story = TextDocument.create(getUri("story.ink"), "ink", 1, "-> chapter");
+    const documents = [story];
+    const { resolver } = createResolver(documents);
+    const getWorkspaceStories = jest.spyOn(SyntaxTreeManager.prototype, "getWorkspaceStories");
+    const syntaxTreeManager = new SyntaxTreeManager(new DocumentManager(), mockedLogger.logger);
+    writeFiles({
+      "story.ink": "-> chapter",
+      "chapter.ink": "=== chapter ===\n-> END"
+    });
+
+    resolver.updateDocument(syntaxTreeManager.updateDocument(story));
+    expect(await resolver.resolveMainStoryPath(workspace, getUri("chapter.ink"))).toBe(
+      "chapter.ink"
+    );
+
+    const editedStory = TextDocument.create(story.uri, "ink", 2, "-> chapter\n");
+    documents[0] = editedStory;
+    resolver.updateDocument(syntaxTreeManager.updateDocument(editedStory));
+    expect(await resolver.resolveMainStoryPath(workspace, getUri("chapter.ink"))).toBe(
+      "chapter.ink"
+    );
+    expect(getWorkspaceStories).toHaveBeenCalledTimes(1);
+
+    const includingStory = TextDocument.create(story.uri, "ink", 3, "INCLUDE chapter.ink\n");
+    documents[0] = includingStory;
+    resolver.updateDocument(syntaxTreeManager.updateDocument(includingStory));
+    expect(await resolver.resolveMainStoryPath(workspace, getUri("chapter.ink"))).toBe("story.ink");
+    expect(getWorkspaceStories).toHaveBeenCalledTimes(2);
+
+    getWorkspaceStories.mockRestore();
+  });
+
+  it("reports the roots of the opened documents when they change", async () => {
+    const chapter = TextDocument.create(getUri("chapter.ink"), "ink", 1, "=== chapter ===\n-> END");
+    const { connection, resolver } = createResolver([chapter]);
+    writeFiles({
+      "story.ink": "INCLUDE chapter.ink\n-> chapter",
+      "chapter.ink": "=== chapter ===\n-> END"
+    });
+
+    await resolver.resolveMainStoryPath(workspace, chapter.uri);
+    await resolver.resolveMainStoryPath(workspace, chapter.uri);
+
+    expect(connection.sendNotification.mock.calls).toEqual([
+      [
+        CompilationNotification.didChangeStoryRoots,
+        { uri: chapter.uri, rootUris: [getUri("story.ink")] }
+      ]
+    ]);
+  });
+
+  it("fires an event when a root becomes included by another file", async () => {
+    const { resolver } = createResolver();
+    const listener = jest.fn();
+    resolver.onDidChangeWorkspaceRoots(listener);
+    writeFiles({
+      "main.ink": "-> END",
+      "chapter.ink": "=== chapter ===\n-> END"
+    });
+
+    await resolver.getStoryRoots(workspace);
+    await resolver.getStoryRoots(workspace);
+    expect(listener).not.toHaveBeenCalled();
+
+    writeFiles({ "main.ink": "INCLUDE chapter.ink\n-> chapter" });
+    resolver.invalidateIncludeGraph(workspace);
+    await resolver.getStoryRoots(workspace);
+
+    expect(listener.mock.calls).toEqual([
+      [
+        {
+          workspace,
+          roots: [Path.join(directory, "main.ink")],
+          removedRoots: [Path.join(directory, "chapter.ink")]
+        }
+      ]
+    ]);
+  });
+});
@@ -0,0 +1,305 @@
+// Copyright (c) Frédéric Maquin <fred@ephread.com>
+// Licensed under the MIT License.
+// See LICENSE in the project root for license information.
+
+import * as Path from "path";
+
+import { Emitter, Event, IConnection } from "vscode-languageserver";
+import URI from "vscode-uri";
+
+import { CompilationNotification } from "../../types/identifiers";
+import { InkSyntaxTree } from "../../types/syntax";
+import {
+  DidChangeStoryRootsParams,
+  DidChangeWorkspaceRootsEvent,
+  IConnectionLogger,
+  InkWorkspace
+} from "../../types/types";
+
+import { getDefaultSettings } from "../configuration";
+import { isFilePathChildOfDirPath } from "../utils";
+
+import DocumentManager from "./DocumentManager";
+import SyntaxTreeManager from "./SyntaxTreeManager";
+
+/**
+ * Files included by each ink file, directly or not, were it the main story,
+ * keyed by path.
+ */
+type IncludeGraph = Map<string, string[]>;
+
+/**
+ * Finds the main story of a workspace when `ink.mainStoryPath` isn't set, from
+ * the graph of `INCLUDE` statements: stories start from the files which no other
+ * file includes, their roots.
+ */
+export default class MainStoryResolver {
+  /**
+   * Fired when the roots of a workspace changed since they were last found,
+   * e. g. when a file which was a root gets included by another one.
+   */
+  public readonly onDidChangeWorkspaceRoots: Event<DidChangeWorkspaceRootsEvent>;
+
+  /**
+   * Include graphs of the workspaces, built on demand. URIs of the client's
+   * `WorkspaceFolder` will be used as keys.
+   */
+  private includeGraphs: Map<string, Promise<IncludeGraph>> = new Map();
+
+  /** Roots last found in each workspace, keyed by the uri of the workspace. */
+  private workspaceRoots: Map<string, string[]> = new Map();
+
+  /** Paths included by each opened document, keyed by uri. */
+  private documentIncludes: Map<string, string> = new Map();
+
+  /** Roots last reported to the client for each opened document, keyed by uri. */
+  private reportedRoots: Map<string, string[]> = new Map();
+
+  /** Ambiguities which were already reported to the user. */
+  private reportedAmbiguities: Set<string> = new Set();
+
+  private didChangeWorkspaceRootsEmitter = new Emitter<DidChangeWorkspaceRootsEvent>();
+
+  constructor(
+    private connection: IConnection,
+    private documentManager: DocumentManager,
+    private syntaxTreeManager: SyntaxTreeManager,
+    private logger: IConnectionLogger
+  ) {
+    this.onDidChangeWorkspaceRoots = this.didChangeWorkspaceRootsEmitter.event;
+  }
+
+  /**
+   * Returns the path of the root from which the given document is included,
+   * relative to the workspace. If the workspace has several roots and the document
+   * doesn't belong to exactly one of them, the user is told which one was picked.
+   *
+   * The roots of the documents opened by the client are reported along the way.
+   *
+   * @param workspace the workspace containing the document.
+   * @param documentUri the uri of the document to compile, if any.
+   * @returns the path of the main story, or `undefined` if the workspace has no root.
+   */
+  public async resolveMainStoryPath(
+    workspace: InkWorkspace,
+    documentUri?: string
+  ): Promise<string | undefined> {
+    const workspacePath = URI.parse(workspace.folder.uri).fsPath;
+    const graph = await this.getIncludeGraph(workspace);
+    const roots = this.findWorkspaceRoots(workspace, graph);
+
+    this.reportStoryRoots(workspacePath, graph, roots);
+
+    if (roots.length === 0) {
+      return undefined;
+    }
+
+    const documentPath = documentUri ? URI.parse(documentUri).fsPath : undefined;
+    const documentRoots = documentPath ? findRootsOfFile(graph, roots, documentPath) : [];
+
+    if (roots.length === 1 || documentRoots.length === 1) {
+      const root = roots.length === 1 ? roots[0] : documentRoots[0];
+      return Path.relative(workspacePath, root);
+    }
+
+    // Several stories include the document, or none do, e. g. circular includes.
+    const candidates = documentRoots.length > 1 ? documentRoots : roots;
+    const defaultPath = Path.join(workspacePath, getDefaultSettings().mainStoryPath);
+    const mainStoryPath = candidates.indexOf(defaultPath) > -1 ? defaultPath : candidates[0];
+
+    this.reportAmbiguity(workspacePath, candidates, mainStoryPath, documentPath);
+
+    return Path.relative(workspacePath, mainStoryPath);
+  }
+
+  /**
+   * Returns the paths of the roots of the given workspace, the main stories
+   * it contains. Given a document, only the roots from which it's included are
+   * returned, unless none include it.
+   *
+   * @param workspace the workspace containing the stories.
+   * @param documentUri the uri of a document of the workspace, if any.
+   */
+  public async getStoryRoots(workspace: InkWorkspace, documentUri?: string): Promise<string[]> {
+    const graph = await this.getIncludeGraph(workspace);
+    const roots = this.findWorkspaceRoots(workspace, graph);
+    if (!documentUri) {
+      return roots;
+    }
+
+    const documentRoots = findRootsOfFile(graph, roots, URI.parse(documentUri).fsPath);
+    return documentRoots.length > 0 ? documentRoots : roots;
+  }
+
+  /**
+   * Discard the include graphs if the `INCLUDE` statements of the given document
+   * changed since it was last updated.
+   *
+   * @param tree the up-to-date syntax tree of the document.
+   */
+  public updateDocument(tree: InkSyntaxTree) {
+    const includes = tree.includes.map(include => include.path).join("\n");
+    if (this.documentIncludes.get(tree.uri) !== includes) {
+      this.documentIncludes.set(tree.uri, includes);
+      this.includeGraphs.clear();
+    }
+  }
+
+  /**
+   * Forget the roots reported for the given document, once closed. Since the
+   * file on disk may differ from the document, the include graphs are discarded.
+   *
+   * @param uri the uri of the document.
+   */
+  public removeDocument(uri: string) {
+    this.reportedRoots.delete(uri);
+    this.documentIncludes.delete(uri);
+    this.includeGraphs.clear();
+  }
+
+  /**
+   * Discard the include graph of the given workspace, along with the files found
+   * by the syntax tree manager, after its files changed on disk.
+   *
+   * @param workspace the workspace containing the files.
+   */
+  public invalidateIncludeGraph(workspace: InkWorkspace) {
+    this.syntaxTreeManager.invalidateFiles();
+    this.includeGraphs.delete(workspace.folder.uri);
+  }
+
+  /**
+   * Returns the graph of the `INCLUDE` statements of the workspace, building it
+   * if it isn't cached.
+   */
+  private getIncludeGraph(workspace: InkWorkspace): Promise<IncludeGraph> {
+    let graph = this.includeGraphs.get(workspace.folder.uri);
+    if (!graph) {
+      graph = this.buildIncludeGraph(workspace);
+      this.includeGraphs.set(workspace.folder.uri, graph);
+    }
+
+    return graph;
+  }
+
+  /**
+   * Build the graph of the `INCLUDE` statements of the workspace, unresolved
+   * includes are left out.
+   */
+  private async buildIncludeGraph(workspace: InkWorkspace): Promise<IncludeGraph> {
+    const graph: IncludeGraph = new Map();
+    const stories = await this.syntaxTreeManager.getWorkspaceStories(workspace);
+
+    for (const [filePath, trees] of stories) {
+      const includedFilePaths = trees
+        .map(tree => URI.parse(tree.uri).fsPath)
+        .filter(includedFilePath => includedFilePath !== filePath);
+
+      graph.set(filePath, includedFilePaths);
+    }
+
+    return graph;
+  }
+
+  /**
+   * Returns the roots of the given workspace, firing `onDidChangeWorkspaceRoots`
+   * if they changed since they were last found.
+   */
+  private findWorkspaceRoots(workspace: InkWorkspace, graph: IncludeGraph): string[] {
+    const workspacePath = URI.parse(workspace.folder.uri).fsPath;
+    const roots = findRoots(graph, workspacePath);
+
+    const previousRoots = this.workspaceRoots.get(workspace.folder.uri);
+    this.workspaceRoots.set(workspace.folder.uri, roots);
+
+    if (previousRoots && previousRoots.join("\n") !== roots.join("\n")) {
+      const removedRoots = previousRoots.filter(root => roots.indexOf(root) === -1);
+      this.didChangeWorkspaceRootsEmitter.fire({ workspace, roots, removedRoots });
+    }
+
+    return roots;
+  }
+
+  /**
+   * Send the roots of the documents opened in the workspace to the client,
+   * if they changed since the last time.
+   */
+  private reportStoryRoots(workspacePath: string, graph: IncludeGraph, roots: string[]) {
+    for (const document of this.documentManager.documents.all()) {
+      const documentPath = URI.parse(document.uri).fsPath;
+      if (!isFilePathChildOfDirPath(documentPath, workspacePath)) {
+        continue;
+      }
+
+      const documentRoots = findRootsOfFile(graph, roots, documentPath);
+      const reportedRoots = this.reportedRoots.get(document.uri);
+      if (reportedRoots && reportedRoots.join("\n") === documentRoots.join("\n")) {
+        continue;
+      }
+
+      this.reportedRoots.set(document.uri, documentRoots);
+
+      const params: DidChangeStoryRootsParams = {
+        uri: document.uri,
+        rootUris: documentRoots.map(root => URI.file(root).toString())
+      };
+
+      this.connection.sendNotification(CompilationNotification.didChangeStoryRoots, params);
+    }
+  }
+
+  /** Tell the user which story was picked, once per ambiguity. */
+  private reportAmbiguity(
+    workspacePath: string,
+    candidates: string[],
+    mainStoryPath: string,
+    documentPath?: string
+  ) {
+    const key = [documentPath || workspacePath, ...candidates].join("\n");
+    if (this.reportedAmbiguities.has(key)) {
+      return;
+    }
+
+    this.reportedAmbiguities.add(key);
+
+    const names = candidates.map(candidate => `'${Path.relative(workspacePath, candidate)}'`);
+    const subject = documentPath
+      ? `'${Path.basename(documentPath)}' could belong to`
+      : "The workspace contains";
+    const message =
+      `${subject} several stories (${names.join(", ")}), ` +
+      `'${Path.relative(workspacePath, mainStoryPath)}' was compiled. ` +
+      "Set 'ink.mainStoryPath' to choose the main story.";
+
+    this.logger.showWarningMessage(message, true);
+  }
+}
+
+/**
+ * Returns the files of the workspace which no other file includes, sorted.
+ */
+function findRoots(graph: IncludeGraph, workspacePath: string): string[] {
+  const includedFilePaths: Set<string> = new Set();
+  for (const [filePath, includes] of graph) {
+    for (const includedFilePath of includes) {
+      if (includedFilePath !== filePath) {
+        includedFilePaths.add(includedFilePath);
+      }
+    }
+  }
+
+  return Array.from(graph.keys())
+    .filter(
+      filePath =>
+        !includedFilePaths.has(filePath) && isFilePathChildOfDirPath(filePath, workspacePath)
+    )
+    .sort();
+}
+
+/**
+ * Returns the roots from which the given file is included, directly or not.
+ * A root belongs to itself.
+ */
+function findRootsOfFile(graph: IncludeGraph, roots: string[], filePath: string): string[] {
+  return roots.filter(root => root === filePath || (graph.get(root) || []).indexOf(filePath) > -1);
+}
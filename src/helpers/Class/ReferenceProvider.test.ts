@@ -0,0 +1,162 @@
+// Copyright (c) Frédéric Maquin <fred@ephread.com>
+// Licensed under the MIT License.
+// See LICENSE in the project root for license information.
+
+import * as Fs from "fs-extra";
+import * as Os from "os";
+import * as Path from "path";
+
+import { Location, Range, TextDocument } from "vscode-languageserver";
+import URI from "vscode-uri";
+
+import { createDocumentManager } from "../../tests/helpers/documents";
+import mockedLogger from "../../tests/helpers/logger";
+import { createWorkspaceManager } from "../../tests/helpers/workspace";
+
+import ReferenceProvider from "./ReferenceProvider";
+import SyntaxTreeManager from "./SyntaxTreeManager";
+
+const directory = Path.join(Os.tmpdir(), "ink.language.server.reference.test");
+const storiesDirectory = Path.join(Os.tmpdir(), "ink.language.server.reference.stories.test");
+
+const files: { [relativePath: string]: string } = {
+  "main.ink": [
+    "INCLUDE chapters/harbour.ink",
+    "VAR gold = 0",
+    "-> harbour",
+    "=== epilogue ===",
+    "You have {gold} gold.",
+    "-> END"
+  ].join("\n"),
+  "chapters/harbour.ink": [
+    "=== harbour ===",
+    "~ temp gold = 5",
+    "~ gold += 10",
+    "-> epilogue"
+  ].join("\n")
+};
+
+/** Two stories, each declaring a `harbour` knot in the file it includes. */
+const storiesFiles: { [relativePath: string]: string } = {
+  "main.ink": "INCLUDE main_harbour.ink\n-> harbour",
+  "main_harbour.ink": "=== harbour ===\nWelcome home.\n-> END",
+  "dlc.ink": "INCLUDE dlc_harbour.ink\n-> harbour",
+  "dlc_harbour.ink": "=== harbour ===\nWelcome back.\n-> END"
+};
+
+function getUri(relativePath: string, root = directory) {
+  return URI.file(Path.join(root, relativePath)).toString();
+}
+
+/**
+ * Returns a provider for which the given files are opened by the client,
+ * in the workspace at `root`.
+ */
+function createProvider(openedPaths: string[], root = directory, contents = files) {
+  const documentManager = createDocumentManager(
+    openedPaths.map(relativePath =>
+      TextDocument.create(getUri(relativePath, root), "ink", 1, contents[relativePath])
+    )
+  );
+  const workspaceManager = createWorkspaceManager(documentManager, [
+    { folder: { uri: URI.file(root).toString(), name: "story" } }
+  ]);
+
+  return new ReferenceProvider(
+    workspaceManager,
+    new SyntaxTreeManager(documentManager, mockedLogger.logger)
+  );
+}
+
+describe("ReferenceProvider", () => {
+  beforeAll(() => {
+    for (const relativePath of Object.keys(files)) {
+      Fs.outputFileSync(Path.join(directory, relativePath), files[relativePath]);
+    }
+  });
+
+  afterAll(() => {
+    Fs.removeSync(directory);
+  });
+
+  it("finds references in included files which aren't opened", async () => {
+    const provider = createProvider(["main.ink"]);
+
+    expect(
+      await provider.provideReferences({
+        textDocument: { uri: getUri("main.ink") },
+        position: { line: 3, character: 6 },
+        context: { includeDeclaration: false }
+      })
+    ).toEqual([Location.create(getUri("chapters/harbour.ink"), Range.create(3, 3, 3, 11))]);
+  });
+
+  it("includes the declaration, if requested", async () => {
+    const provider = createProvider(["chapters/harbour.ink"]);
+
+    expect(
+      await provider.provideReferences({
+        textDocument: { uri: getUri("chapters/harbour.ink") },
+        position: { line: 3, character: 5 },
+        context: { includeDeclaration: true }
+      })
+    ).toEqual([
+      Location.create(getUri("main.ink"), Range.create(3, 4, 3, 12)),
+      Location.create(getUri("chapters/harbour.ink"), Range.create(3, 3, 3, 11))
+    ]);
+  });
+
+  it("tells apart variables shadowed by temporary ones", async () => {
+    const provider = createProvider(["main.ink"]);
+
+    expect(
+      await provider.provideReferences({
+        textDocument: { uri: getUri("main.ink") },
+        position: { line: 1, character: 5 },
+        context: { includeDeclaration: true }
+      })
+    ).toEqual([
+      Location.create(getUri("main.ink"), Range.create(1, 4, 1, 8)),
+      Location.create(getUri("main.ink"), Range.create(4, 10, 4, 14))
+    ]);
+  });
+
+  it("finds nothing outside of symbols", async () => {
+    const provider = createProvider(["main.ink"]);
+
+    expect(
+      await provider.provideReferences({
+        textDocument: { uri: getUri("main.ink") },
+        position: { line: 4, character: 2 },
+        context: { includeDeclaration: true }
+      })
+    ).toEqual([]);
+  });
+});
+
+describe("ReferenceProvider with several stories", () => {
+  beforeAll(() => {
+    for (const relativePath of Object.keys(storiesFiles)) {
+      Fs.outputFileSync(Path.join(storiesDirectory, relativePath), storiesFiles[relativePath]);
+    }
+  });
+
+  afterAll(() => {
+    Fs.removeSync(storiesDirectory);
+  });
+
+  it("finds references in the story of the document only", async () => {
+    const provider = createProvider(["main_harbour.ink"], storiesDirectory, storiesFiles);
+
+    expect(
+      await provider.provideReferences({
+        textDocument: { uri: getUri("main_harbour.ink", storiesDirectory) },
+        position: { line: 0, character: 5 },
+        context: { includeDeclaration: true }
+      })
+    ).toEqual([
+      Location.create(getUri("main_harbour.ink", storiesDirectory), Range.create(0, 4, 0, 11)),
+      Location.create(getUri("main.ink", storiesDirectory), Range.create(1, 3, 1, 10))
+    ]);
+  });
+});
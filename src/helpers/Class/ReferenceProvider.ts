@@ -0,0 +1,51 @@
+// Copyright (c) Frédéric Maquin <fred@ephread.com>
+// Licensed under the MIT License.
+// See LICENSE in the project root for license information.
+
+import { Location, ReferenceParams } from "vscode-languageserver";
+import URI from "vscode-uri";
+
+import { findOccurrences, resolveSymbolAtPosition } from "../../parser/resolver";
+
+import SyntaxTreeManager from "./SyntaxTreeManager";
+import WorkspaceManager from "./WorkspaceManager";
+
+/**
+ * Finds the references to knots, stitches, labels, variables and functions,
+ * across the stories which include the document.
+ */
+export default class ReferenceProvider {
+  constructor(
+    private workspaceManager: WorkspaceManager,
+    private syntaxTreeManager: SyntaxTreeManager
+  ) {}
+
+  /**
+   * Returns the locations of every reference to the symbol found at the given position.
+   *
+   * @param params parameters sent by the client.
+   */
+  public async provideReferences(params: ReferenceParams): Promise<Location[]> {
+    const tree = this.syntaxTreeManager.getSyntaxTree(params.textDocument.uri);
+    if (!tree) {
+      return [];
+    }
+
+    const workspace = this.workspaceManager.getInkWorkspaceOfFilePath(URI.parse(tree.uri).fsPath);
+    const trees = workspace
+      ? await this.syntaxTreeManager.getDocumentStorySyntaxTrees(
+          tree,
+          await this.workspaceManager.getMainStoryPaths(workspace, tree.uri)
+        )
+      : [tree];
+
+    const symbol = resolveSymbolAtPosition(trees, tree, params.position);
+    if (!symbol) {
+      return [];
+    }
+
+    return findOccurrences(trees, symbol, params.context.includeDeclaration).map(occurrence =>
+      Location.create(occurrence.tree.uri, occurrence.identifier.range)
+    );
+  }
+}
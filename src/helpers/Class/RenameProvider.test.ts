@@ -0,0 +1,206 @@
+// Copyright (c) Frédéric Maquin <fred@ephread.com>
+// Licensed under the MIT License.
+// See LICENSE in the project root for license information.
+
+import * as Fs from "fs-extra";
+import * as Os from "os";
+import * as Path from "path";
+
+import { ErrorCodes, Range, TextDocument } from "vscode-languageserver";
+import URI from "vscode-uri";
+
+import { createDocumentManager } from "../../tests/helpers/documents";
+import mockedLogger from "../../tests/helpers/logger";
+import { createWorkspaceManager } from "../../tests/helpers/workspace";
+
+import RenameProvider from "./RenameProvider";
+import SyntaxTreeManager from "./SyntaxTreeManager";
+
+const directory = Path.join(Os.tmpdir(), "ink.language.server.rename.test");
+const storiesDirectory = Path.join(Os.tmpdir(), "ink.language.server.rename.stories.test");
+
+const files: { [relativePath: string]: string } = {
+  "main.ink": [
+    "INCLUDE chapters/harbour.ink",
+    "VAR gold = 0",
+    "-> harbour",
+    "=== epilogue ===",
+    "You have {gold} gold.",
+    "-> END"
+  ].join("\n"),
+  "chapters/harbour.ink": ["=== harbour ===", "~ gold += 10", "-> epilogue"].join("\n")
+};
+
+/** Two stories, each declaring a `harbour` knot in the file it includes. */
+const storiesFiles: { [relativePath: string]: string } = {
+  "main.ink": "INCLUDE main_harbour.ink\n-> harbour",
+  "main_harbour.ink": "=== harbour ===\nWelcome home.\n-> END",
+  "dlc.ink": "INCLUDE dlc_harbour.ink\n-> harbour",
+  "dlc_harbour.ink": "=== harbour ===\nWelcome back.\n-> END"
+};
+
+function getUri(relativePath: string, root = directory) {
+  return URI.file(Path.join(root, relativePath)).toString();
+}
+
+/**
+ * Returns a provider for which the given files are opened by the client,
+ * in the workspace at `root`.
+ */
+function createProvider(openedPaths: string[], root = directory, contents = files) {
+  const documentManager = createDocumentManager(
+    openedPaths.map(relativePath =>
+      TextDocument.create(getUri(relativePath, root), "ink", 1, contents[relativePath])
+    )
+  );
+  const workspaceManager = createWorkspaceManager(documentManager, [
+    { folder: { uri: URI.file(root).toString(), name: "story" } }
+  ]);
+
+  return new RenameProvider(
+    workspaceManager,
+    new SyntaxTreeManager(documentManager, mockedLogger.logger)
+  );
+}
+
+describe("RenameProvider", () => {
+  beforeAll(() => {
+    for (const relativePath of Object.keys(files)) {
+      Fs.outputFileSync(Path.join(directory, relativePath), files[relativePath]);
+    }
+  });
+
+  afterAll(() => {
+    Fs.removeSync(directory);
+  });
+
+  it("returns the range of the name to rename", async () => {
+    const provider = createProvider(["main.ink"]);
+
+    expect(
+      await provider.prepareRename({
+        textDocument: { uri: getUri("main.ink") },
+        position: { line: 2, character: 5 }
+      })
+    ).toEqual(Range.create(2, 3, 2, 10));
+  });
+
+  it("renames declarations found in files which aren't opened", async () => {
+    const provider = createProvider(["main.ink"]);
+
+    expect(
+      await provider.provideRenameEdits({
+        textDocument: { uri: getUri("main.ink") },
+        position: { line: 2, character: 5 },
+        newName: "docks"
+      })
+    ).toEqual({
+      changes: {
+        [getUri("main.ink")]: [{ range: Range.create(2, 3, 2, 10), newText: "docks" }],
+        [getUri("chapters/harbour.ink")]: [{ range: Range.create(0, 4, 0, 11), newText: "docks" }]
+      }
+    });
+  });
+
+  it("renames references found in included files", async () => {
+    const provider = createProvider(["main.ink", "chapters/harbour.ink"]);
+
+    expect(
+      await provider.provideRenameEdits({
+        textDocument: { uri: getUri("chapters/harbour.ink") },
+        position: { line: 1, character: 3 },
+        newName: "coins"
+      })
+    ).toEqual({
+      changes: {
+        [getUri("main.ink")]: [
+          { range: Range.create(1, 4, 1, 8), newText: "coins" },
+          { range: Range.create(4, 10, 4, 14), newText: "coins" }
+        ],
+        [getUri("chapters/harbour.ink")]: [{ range: Range.create(1, 2, 1, 6), newText: "coins" }]
+      }
+    });
+  });
+
+  it("rejects names already declared in the same scope", async () => {
+    const provider = createProvider(["main.ink"]);
+    const mainPath = Path.join(directory, "main.ink");
+
+    expect(
+      await provider.provideRenameEdits({
+        textDocument: { uri: getUri("main.ink") },
+        position: { line: 2, character: 5 },
+        newName: "epilogue"
+      })
+    ).toMatchObject({
+      code: ErrorCodes.InvalidParams,
+      message: `'epilogue' is already declared in the same scope (${mainPath}, line 4).`
+    });
+  });
+
+  it("rejects invalid names and reserved words", async () => {
+    const provider = createProvider(["main.ink"]);
+    const rename = (newName: string) =>
+      provider.provideRenameEdits({
+        textDocument: { uri: getUri("main.ink") },
+        position: { line: 2, character: 5 },
+        newName
+      });
+
+    expect(await rename("the docks")).toMatchObject({
+      code: ErrorCodes.InvalidParams,
+      message: "'the docks' is not a valid name."
+    });
+    expect(await rename("END")).toMatchObject({
+      code: ErrorCodes.InvalidParams,
+      message: "'END' is a reserved word."
+    });
+  });
+
+  it("refuses to rename elements which aren't symbols", async () => {
+    const provider = createProvider(["main.ink"]);
+
+    expect(
+      await provider.prepareRename({
+        textDocument: { uri: getUri("main.ink") },
+        position: { line: 4, character: 2 }
+      })
+    ).toMatchObject({
+      code: ErrorCodes.InvalidRequest,
+      message: "This element can't be renamed."
+    });
+  });
+});
+
+describe("RenameProvider with several stories", () => {
+  beforeAll(() => {
+    for (const relativePath of Object.keys(storiesFiles)) {
+      Fs.outputFileSync(Path.join(storiesDirectory, relativePath), storiesFiles[relativePath]);
+    }
+  });
+
+  afterAll(() => {
+    Fs.removeSync(storiesDirectory);
+  });
+
+  it("renames symbols in the story of the document only", async () => {
+    const provider = createProvider(["main.ink"], storiesDirectory, storiesFiles);
+
+    expect(
+      await provider.provideRenameEdits({
+        textDocument: { uri: getUri("main.ink", storiesDirectory) },
+        position: { line: 1, character: 5 },
+        newName: "port"
+      })
+    ).toEqual({
+      changes: {
+        [getUri("main.ink", storiesDirectory)]: [
+          { range: Range.create(1, 3, 1, 10), newText: "port" }
+        ],
+        [getUri("main_harbour.ink", storiesDirectory)]: [
+          { range: Range.create(0, 4, 0, 11), newText: "port" }
+        ]
+      }
+    });
+  });
+});
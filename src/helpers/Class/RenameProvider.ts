@@ -0,0 +1,171 @@
+// Copyright (c) Frédéric Maquin <fred@ephread.com>
+// Licensed under the MIT License.
+// See LICENSE in the project root for license information.
+
+import {
+  ErrorCodes,
+  Range,
+  RenameParams,
+  ResponseError,
+  TextDocumentPositionParams,
+  TextEdit,
+  WorkspaceEdit
+} from "vscode-languageserver";
+import URI from "vscode-uri";
+
+import { InkSyntaxTree } from "../../types/syntax";
+
+import { findDeclarationAtPosition, findReferenceAtPosition } from "../../parser/queries";
+import {
+  findConflictingDeclaration,
+  findOccurrences,
+  ResolvedSymbol,
+  resolveSymbolAtPosition
+} from "../../parser/resolver";
+
+import SyntaxTreeManager from "./SyntaxTreeManager";
+import WorkspaceManager from "./WorkspaceManager";
+
+/** Words which can't be used as names. */
+const RESERVED_WORDS = [
+  "INCLUDE",
+  "VAR",
+  "CONST",
+  "LIST",
+  "EXTERNAL",
+  "DONE",
+  "END",
+  "function",
+  "temp",
+  "return",
+  "ref",
+  "else",
+  "and",
+  "or",
+  "not",
+  "mod",
+  "has",
+  "hasnt",
+  "true",
+  "false"
+];
+
+/**
+ * Renames knots, stitches, labels, variables and functions, along with
+ * every reference to them, across the stories which include the document.
+ */
+export default class RenameProvider {
+  constructor(
+    private workspaceManager: WorkspaceManager,
+    private syntaxTreeManager: SyntaxTreeManager
+  ) {}
+
+  /**
+   * Returns the range of the name to rename, if the symbol found at the given
+   * position can be renamed.
+   *
+   * @param params parameters sent by the client.
+   */
+  public async prepareRename(
+    params: TextDocumentPositionParams
+  ): Promise<Range | ResponseError<void> | null> {
+    const tree = this.syntaxTreeManager.getSyntaxTree(params.textDocument.uri);
+    if (!tree) {
+      return null;
+    }
+
+    const symbol = resolveSymbolAtPosition(
+      await this.getStorySyntaxTrees(tree),
+      tree,
+      params.position
+    );
+
+    if (!symbol) {
+      return new ResponseError(ErrorCodes.InvalidRequest, "This element can't be renamed.");
+    }
+
+    const declaration = findDeclarationAtPosition(tree, params.position);
+    if (declaration) {
+      return declaration.name.range;
+    }
+
+    const referenceAtPosition = findReferenceAtPosition(tree, params.position);
+    return referenceAtPosition
+      ? referenceAtPosition.reference.path[referenceAtPosition.componentIndex].range
+      : null;
+  }
+
+  /**
+   * Returns the edits renaming the symbol found at the given position, as well
+   * as every reference to it.
+   *
+   * @param params parameters sent by the client.
+   */
+  public async provideRenameEdits(
+    params: RenameParams
+  ): Promise<WorkspaceEdit | ResponseError<void> | null> {
+    const tree = this.syntaxTreeManager.getSyntaxTree(params.textDocument.uri);
+    if (!tree) {
+      return null;
+    }
+
+    const trees = await this.getStorySyntaxTrees(tree);
+    const symbol = resolveSymbolAtPosition(trees, tree, params.position);
+
+    if (!symbol) {
+      return new ResponseError(ErrorCodes.InvalidRequest, "This element can't be renamed.");
+    }
+
+    const errorMessage = this.validateName(trees, symbol, params.newName);
+    if (errorMessage) {
+      return new ResponseError(ErrorCodes.InvalidParams, errorMessage);
+    }
+
+    const changes: { [uri: string]: TextEdit[] } = {};
+    for (const occurrence of findOccurrences(trees, symbol, true)) {
+      const edits = changes[occurrence.tree.uri] || [];
+      edits.push(TextEdit.replace(occurrence.identifier.range, params.newName));
+      changes[occurrence.tree.uri] = edits;
+    }
+
+    return { changes };
+  }
+
+  /**
+   * Returns a message explaining why `symbol` can't be renamed to `name`,
+   * or `undefined` if the name is valid.
+   */
+  private validateName(
+    trees: InkSyntaxTree[],
+    symbol: ResolvedSymbol,
+    name: string
+  ): string | undefined {
+    if (!/^[A-Za-z0-9_\u00C0-\uFFFF]+$/.test(name) || /^\d+$/.test(name)) {
+      return `'${name}' is not a valid name.`;
+    }
+
+    if (RESERVED_WORDS.indexOf(name) > -1) {
+      return `'${name}' is a reserved word.`;
+    }
+
+    const conflict = findConflictingDeclaration(trees, symbol, name);
+    if (conflict) {
+      const line = conflict.declaration.name.range.start.line + 1;
+      const fileName = URI.parse(conflict.tree.uri).fsPath;
+
+      return `'${name}' is already declared in the same scope (${fileName}, line ${line}).`;
+    }
+
+    return undefined;
+  }
+
+  private async getStorySyntaxTrees(tree: InkSyntaxTree): Promise<InkSyntaxTree[]> {
+    const workspace = this.workspaceManager.getInkWorkspaceOfFilePath(URI.parse(tree.uri).fsPath);
+    if (!workspace) {
+      return [tree];
+    }
+
+    const mainStoryPaths = await this.workspaceManager.getMainStoryPaths(workspace, tree.uri);
+    return this.syntaxTreeManager.getDocumentStorySyntaxTrees(tree, mainStoryPaths);
+  }
+}
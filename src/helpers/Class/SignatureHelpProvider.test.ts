@@ -0,0 +1,71 @@
+// Copyright (c) Frédéric Maquin <fred@ephread.com>
+// Licensed under the MIT License.
+// See LICENSE in the project root for license information.
+
+import { TextDocument } from "vscode-languageserver";
+
+import { createDocumentManager } from "../../tests/helpers/documents";
+import mockedLogger from "../../tests/helpers/logger";
+import { createWorkspaceManager } from "../../tests/helpers/workspace";
+
+import SignatureHelpProvider from "./SignatureHelpProvider";
+import SyntaxTreeManager from "./SyntaxTreeManager";
+
+const uri = "file:///project/main.ink";
+const lines = [
+  "EXTERNAL play(sound, volume)",
+  "-> meet(-> intro, ",
+  "~ x = add(1, (2 + 3), ",
+  "{RANDOM(1, max(2, ",
+  "=== meet(-> target, ref mood) ===",
+  "-> target",
+  "=== function add(a, b, c) ===",
+  "~ return a + b + c",
+  '~ play("a, b", '
+];
+
+const documentManager = createDocumentManager([
+  TextDocument.create(uri, "ink", 1, lines.join("\n"))
+]);
+const provider = new SignatureHelpProvider(
+  createWorkspaceManager(documentManager),
+  new SyntaxTreeManager(documentManager, mockedLogger.logger)
+);
+
+async function signatureHelp(line: number) {
+  const help = await provider.provideSignatureHelp({
+    textDocument: { uri },
+    position: { line, character: lines[line].length }
+  });
+
+  return help && [help.signatures[0].label, help.activeParameter];
+}
+
+describe("provideSignatureHelp", () => {
+  it("describes parameterised knots used in diverts", async () => {
+    expect(await signatureHelp(1)).toEqual(["meet(-> target, ref mood)", 1]);
+  });
+
+  it("describes functions, ignoring nested parentheses", async () => {
+    expect(await signatureHelp(2)).toEqual(["add(a, b, c)", 2]);
+  });
+
+  it("describes external functions, ignoring commas in strings", async () => {
+    expect(await signatureHelp(8)).toEqual(["play(sound, volume)", 1]);
+  });
+
+  it("describes built-in functions", async () => {
+    const help = await provider.provideSignatureHelp({
+      textDocument: { uri },
+      position: { line: 3, character: 10 }
+    });
+
+    expect(help && help.signatures[0].label).toEqual("RANDOM(min, max)");
+    expect(help && help.activeParameter).toEqual(1);
+  });
+
+  it("returns nothing for unknown functions and declarations", async () => {
+    expect(await signatureHelp(3)).toBeNull();
+    expect(await signatureHelp(4)).toBeNull();
+  });
+});
@@ -0,0 +1,172 @@
+// Copyright (c) Frédéric Maquin <fred@ephread.com>
+// Licensed under the MIT License.
+// See LICENSE in the project root for license information.
+
+import {
+  SignatureHelp,
+  SignatureInformation,
+  TextDocumentPositionParams
+} from "vscode-languageserver";
+import URI from "vscode-uri";
+
+import {
+  ExternalNode,
+  FlowNode,
+  InkSyntaxTree,
+  LineType,
+  ParameterNode,
+  ReferenceKind,
+  SyntaxKind
+} from "../../types/syntax";
+
+import { findBuiltinFunction } from "../../parser/builtins";
+import { resolvePath } from "../../parser/resolver";
+
+import SyntaxTreeManager from "./SyntaxTreeManager";
+import WorkspaceManager from "./WorkspaceManager";
+
+/** A call whose arguments are being typed. */
+interface CallAtCursor {
+  path: string[];
+  isDivert: boolean;
+  activeParameter: number;
+}
+
+/** Matches the callee found before an opening parenthesis. */
+const CALLEE_PATTERN = /(->|<-)?\s*([A-Za-z0-9_\u00C0-\uFFFF]+(?:\.[A-Za-z0-9_\u00C0-\uFFFF]+)*)\s*$/;
+
+/**
+ * Shows the parameters of the function, the parameterised knot or stitch,
+ * the external function or the built-in function being called.
+ */
+export default class SignatureHelpProvider {
+  constructor(
+    private workspaceManager: WorkspaceManager,
+    private syntaxTreeManager: SyntaxTreeManager
+  ) {}
+
+  /**
+   * Returns the signature of the call enclosing the given position, if any.
+   *
+   * @param params parameters sent by the client.
+   */
+  public async provideSignatureHelp(
+    params: TextDocumentPositionParams
+  ): Promise<SignatureHelp | null> {
+    const tree = this.syntaxTreeManager.getSyntaxTree(params.textDocument.uri);
+    const line = tree ? tree.lines[params.position.line] : undefined;
+    if (
+      !tree ||
+      !line ||
+      line.type === LineType.KnotHeader ||
+      line.type === LineType.StitchHeader ||
+      line.type === LineType.External
+    ) {
+      return null;
+    }
+
+    const call = findCallAtCursor(line.text.substr(0, params.position.character));
+    if (!call) {
+      return null;
+    }
+
+    const signature = await this.findSignature(tree, params, call);
+    return signature
+      ? { signatures: [signature], activeSignature: 0, activeParameter: call.activeParameter }
+      : null;
+  }
+
+  private async findSignature(
+    tree: InkSyntaxTree,
+    params: TextDocumentPositionParams,
+    call: CallAtCursor
+  ): Promise<SignatureInformation | undefined> {
+    const workspace = this.workspaceManager.getInkWorkspaceOfFilePath(URI.parse(tree.uri).fsPath);
+    const trees = workspace
+      ? await this.syntaxTreeManager.getDocumentStorySyntaxTrees(
+          tree,
+          await this.workspaceManager.getMainStoryPaths(workspace, tree.uri)
+        )
+      : [tree];
+
+    const referenceKind = call.isDivert ? ReferenceKind.Divert : ReferenceKind.FunctionCall;
+    const symbol = resolvePath(trees, tree, params.position, call.path, referenceKind);
+    const name = call.path[call.path.length - 1];
+
+    if (symbol) {
+      switch (symbol.declaration.kind) {
+        case SyntaxKind.Knot:
+        case SyntaxKind.Function:
+        case SyntaxKind.Stitch:
+        case SyntaxKind.External:
+          const parameters = (symbol.declaration as FlowNode | ExternalNode).parameters;
+          return createSignature(name, parameters.map(describeParameter));
+        default:
+          return undefined;
+      }
+    }
+
+    const builtin =
+      !call.isDivert && call.path.length === 1 ? findBuiltinFunction(name) : undefined;
+    return builtin
+      ? createSignature(builtin.name, builtin.parameters, builtin.documentation)
+      : undefined;
+  }
+}
+
+/**
+ * Find the innermost call whose parenthesis is still open at the end
+ * of `prefix`, along with the index of the argument being typed.
+ */
+function findCallAtCursor(prefix: string): CallAtCursor | undefined {
+  const openCalls: Array<{ start: number; argumentIndex: number }> = [];
+  let isInString = false;
+
+  for (let index = 0; index < prefix.length; index++) {
+    const character = prefix[index];
+    const openCall = openCalls[openCalls.length - 1];
+
+    if (character === "\\") {
+      index++;
+    } else if (openCall && character === '"') {
+      isInString = !isInString;
+    } else if (isInString) {
+      continue;
+    } else if (character === "(") {
+      openCalls.push({ start: index, argumentIndex: 0 });
+    } else if (character === ")") {
+      openCalls.pop();
+    } else if (openCall && character === ",") {
+      openCall.argumentIndex++;
+    }
+  }
+
+  const call = openCalls[openCalls.length - 1];
+  const callee = call ? CALLEE_PATTERN.exec(prefix.substr(0, call.start)) : null;
+  if (!call || !callee) {
+    return undefined;
+  }
+
+  return {
+    path: callee[2].split("."),
+    isDivert: callee[1] !== undefined,
+    activeParameter: call.argumentIndex
+  };
+}
+
+function describeParameter(parameter: ParameterNode): string {
+  const prefix = parameter.isReference ? "ref " : parameter.isDivertTarget ? "-> " : "";
+  return `${prefix}${parameter.name.name}`;
+}
+
+function createSignature(
+  name: string,
+  parameters: string[],
+  documentation?: string
+): SignatureInformation {
+  return {
+    label: `${name}(${parameters.join(", ")})`,
+    documentation,
+    parameters: parameters.map(label => ({ label }))
+  };
+}
@@ -0,0 +1,301 @@
+// Copyright (c) Frédéric Maquin <fred@ephread.com>
+// Licensed under the MIT License.
+// See LICENSE in the project root for license information.
+
+import { Compiler } from "inkjs/compiler/Compiler";
+import { CompilerOptions } from "inkjs/compiler/CompilerOptions";
+
+import { RuntimeNotification } from "../../types/identifiers";
+import { PlayOptions, StorySnapshot } from "../../types/types";
+
+import { createTestConnection } from "../../tests/helpers/connection";
+import mockedLogger from "../../tests/helpers/logger";
+
+import StoryPlayer from "./StoryPlayer";
+import StoryRenderer from "./StoryRenderer";
+
+const source = [
+  "VAR gold = 0",
+  'VAR mood = "calm"',
+  "LIST colours = red, (green), blue",
+  "Welcome. # intro",
+  "-> harbour",
+  "=== harbour ===",
+  "The roll is {RANDOM(1, 1000)}.",
+  "* Board the ship",
+  "  ~ gold += 10",
+  "  -> ship",
+  "* Stay ashore",
+  "  -> END",
+  "=== ship ===",
+  "You have {gold} gold.",
+  "* Sail",
+  "  -> END"
+];
+
+const json = compile(source);
+
+function compile(lines: string[]): string {
+  return new Compiler(lines.join("\n"), new CompilerOptions(null, [], true))
+    .Compile()
+    .ToJson() as string;
+}
+
+function createPlayer(
+  playOptions: PlayOptions = { seed: 42 },
+  storyJson: string = json,
+  snapshot?: StorySnapshot
+) {
+  const connection = createTestConnection();
+  const sendNotification = jest.spyOn(connection, "sendNotification").mockReturnValue(undefined);
+  const player = new StoryPlayer(mockedLogger.logger);
+  const renderer = new StoryRenderer(connection, "session");
+
+  player.createSession(renderer, playOptions, "/story/main.ink.json");
+  player.loadStory("session", storyJson, snapshot);
+
+  return { connection: { sendNotification }, player, testConnection: connection };
+}
+
+function getNotifications(connection: { sendNotification: jest.SpyInstance }, method: string) {
+  return connection.sendNotification.mock.calls
+    .filter(([notification]) => notification === method)
+    .map(([, params]) => params);
+}
+
+function getTexts(connection: { sendNotification: jest.SpyInstance }) {
+  return getNotifications(connection, RuntimeNotification.text).map(params => params.text);
+}
+
+describe("StoryPlayer", () => {
+  it("renders the story until it prompts for a choice", () => {
+    const { connection } = createPlayer();
+
+    expect(getTexts(connection)[0]).toEqual("Welcome.");
+    expect(getNotifications(connection, RuntimeNotification.tag)).toEqual([
+      { sessionId: "session", tags: ["intro"] }
+    ]);
+    expect(getNotifications(connection, RuntimeNotification.choice)).toEqual([
+      { sessionId: "session", choice: { index: 1, text: "Board the ship" } },
+      { sessionId: "session", choice: { index: 2, text: "Stay ashore" } }
+    ]);
+    expect(getNotifications(connection, RuntimeNotification.prompt)).toHaveLength(1);
+  });
+
+  it("keeps the path of the choices made", () => {
+    const { connection, player } = createPlayer();
+
+    player.chooseOption("session", 1);
+
+    expect(player.getChoicePath("session")).toEqual([{ index: 1, text: "Board the ship" }]);
+    expect(getNotifications(connection, RuntimeNotification.choicePath)).toEqual([
+      { sessionId: "session", choices: [{ index: 1, text: "Board the ship" }] }
+    ]);
+    expect(getTexts(connection)).toContain("You have 10 gold.");
+  });
+
+  it("replays the story deterministically when rewinding", () => {
+    const { connection, player } = createPlayer();
+    const roll = getTexts(connection)[1];
+
+    player.chooseOption("session", 1);
+    connection.sendNotification.mockClear();
+    player.rewind("session", 0);
+
+    expect(getTexts(connection)).toEqual(["Welcome.", roll]);
+    expect(player.getChoicePath("session")).toEqual([]);
+
+    player.chooseOption("session", 1);
+    connection.sendNotification.mockClear();
+    player.rewind("session", 1);
+
+    expect(getTexts(connection)).toEqual(["Board the ship", "You have 10 gold."]);
+    expect(player.getStoryState("session")!.variables.gold).toEqual(10);
+  });
+
+  it("starts from the given path, with the given variables", () => {
+    const { connection } = createPlayer({ seed: 1, startPath: "ship", variables: { gold: 5 } });
+
+    expect(getTexts(connection)).toEqual(["You have 5 gold."]);
+  });
+
+  it("describes the state of the story", () => {
+    const { player } = createPlayer();
+
+    player.chooseOption("session", 1);
+
+    expect(player.getStoryState("session")).toEqual({
+      variables: { gold: 10, mood: "calm" },
+      lists: { colours: ["colours.green"] },
+      visitCounts: expect.objectContaining({ harbour: 1, ship: 1 }),
+      turnIndex: 0
+    });
+  });
+
+  it("notifies the client of the state after each turn, if requested", () => {
+    const { connection, player } = createPlayer({ seed: 1, notifyStoryState: true });
+
+    player.chooseOption("session", 2);
+
+    const states = getNotifications(connection, RuntimeNotification.didChangeStoryState);
+    expect(states.map(params => params.state.turnIndex)).toEqual([-1, 0]);
+  });
+
+  it("resumes sessions from their snapshot", () => {
+    const { player } = createPlayer();
+    player.chooseOption("session", 1);
+    const snapshot = player.createSnapshot("session") as StorySnapshot;
+
+    // Unrelated edits don't prevent snapshots from being restored.
+    const editedJson = compile([...source, "=== epilogue ===", "The end.", "-> END"]);
+    const restored = createPlayer(snapshot.playOptions, editedJson, snapshot);
+
+    expect(getTexts(restored.connection)).toEqual([]);
+    expect(getNotifications(restored.connection, RuntimeNotification.choice)).toEqual([
+      { sessionId: "session", choice: { index: 1, text: "Sail" } }
+    ]);
+    expect(restored.player.getStoryState("session")).toEqual(player.getStoryState("session"));
+    expect(restored.player.getChoicePath("session")).toEqual([
+      { index: 1, text: "Board the ship" }
+    ]);
+  });
+
+  it("reports snapshots which don't match the story anymore", () => {
+    const { player } = createPlayer();
+    player.chooseOption("session", 1);
+    const snapshot = player.createSnapshot("session") as StorySnapshot;
+
+    // The session is in the knot being renamed.
+    const editedJson = compile(source.map(line => line.replace("ship", "boat")));
+    const restored = createPlayer(snapshot.playOptions, editedJson, snapshot);
+
+    expect(restored.player.hasSession("session")).toBeFalsy();
+    expect(getNotifications(restored.connection, RuntimeNotification.error)[0].error).toMatch(
+      /^The snapshot could not be restored, the story changed since it was saved: /
+    );
+  });
+
+  it("reports snapshots whose call stack or variables don't match the story anymore", () => {
+    const { player } = createPlayer();
+    player.chooseOption("session", 1);
+    const snapshot = player.createSnapshot("session") as StorySnapshot;
+
+    // The choice offered when the snapshot was saved is removed.
+    const withoutChoice = compile(source.map(line => (line === "* Sail" ? "Wait." : line)));
+    const restoredWithoutChoice = createPlayer(snapshot.playOptions, withoutChoice, snapshot);
+
+    // The variable is renamed, its value would be silently reset otherwise.
+    const withoutGold = compile(source.map(line => line.replace("gold", "coins")));
+    const restoredWithoutGold = createPlayer(snapshot.playOptions, withoutGold, snapshot);
+
+    expect(restoredWithoutChoice.player.hasSession("session")).toBeFalsy();
+    expect(getNotifications(restoredWithoutChoice.connection, RuntimeNotification.error)).toEqual([
+      {
+        sessionId: "session",
+        error:
+          "The snapshot could not be restored, the story changed since it was saved: " +
+          "the location 'ship.0.7' of the call stack couldn't be found."
+      }
+    ]);
+    expect(restoredWithoutGold.player.hasSession("session")).toBeFalsy();
+    expect(getNotifications(restoredWithoutGold.connection, RuntimeNotification.error)).toEqual([
+      {
+        sessionId: "session",
+        error:
+          "The snapshot could not be restored, the story changed since it was saved: " +
+          "the variable 'gold' isn't declared anymore."
+      }
+    ]);
+  });
+
+  it("reloads the story, continuing from the equivalent point", () => {
+    const { connection, player } = createPlayer();
+    player.chooseOption("session", 1);
+    connection.sendNotification.mockClear();
+
+    const editedJson = compile(
+      source.map(line => line.replace("You have {gold} gold.", "Your purse holds {gold} gold."))
+    );
+    player.reloadStories("/story/main.ink.json", editedJson);
+
+    expect(getTexts(connection)).toEqual(["Board the ship", "Your purse holds 10 gold."]);
+    expect(getNotifications(connection, RuntimeNotification.choicePath)).toEqual([
+      { sessionId: "session", choices: [{ index: 1, text: "Board the ship" }] }
+    ]);
+  });
+
+  it("only reloads the sessions of the story which changed", () => {
+    const { connection, player } = createPlayer();
+    connection.sendNotification.mockClear();
+
+    player.reloadStories("/story/main.ink.json", json);
+    player.reloadStories("/dlc/main.ink.json", compile([...source, "=== epilogue ===", "-> END"]));
+
+    expect(connection.sendNotification).not.toHaveBeenCalled();
+  });
+
+  it("reports choice paths which can't be replayed after reloading", () => {
+    const { connection, player } = createPlayer();
+    player.chooseOption("session", 1);
+    connection.sendNotification.mockClear();
+
+    const editedJson = compile(
+      source.map(line => line.replace("* Board the ship", "* Swim to the ship"))
+    );
+    player.reloadStories("/story/main.ink.json", editedJson);
+
+    expect(getNotifications(connection, RuntimeNotification.error)).toEqual([
+      {
+        sessionId: "session",
+        error: "The choice path could not be replayed, 'Board the ship' is no longer offered."
+      }
+    ]);
+    expect(player.getChoicePath("session")).toEqual([]);
+    expect(getNotifications(connection, RuntimeNotification.choice)).toEqual([
+      { sessionId: "session", choice: { index: 1, text: "Swim to the ship" } },
+      { sessionId: "session", choice: { index: 2, text: "Stay ashore" } }
+    ]);
+  });
+
+  it("reports sessions whose start path was removed, and reloads the others", () => {
+    const { connection, player, testConnection } = createPlayer({ seed: 42, startPath: "ship" });
+    const harbourRenderer = new StoryRenderer(testConnection, "harbour");
+    player.createSession(harbourRenderer, { seed: 42 }, "/story/main.ink.json");
+    player.loadStory("harbour", json);
+    player.chooseOption("session", 1);
+    player.chooseOption("harbour", 1);
+    connection.sendNotification.mockClear();
+
+    // The "ship" knot becomes "boat".
+    const editedJson = compile(source.map(line => line.replace(/(=== |-> )ship/, "$1boat")));
+    player.reloadStories("/story/main.ink.json", editedJson);
+
+    expect(getNotifications(connection, RuntimeNotification.error)).toEqual([
+      {
+        sessionId: "session",
+        error: expect.stringMatching(/^The story could not be reloaded: .*'ship'/)
+      }
+    ]);
+    expect(getNotifications(connection, RuntimeNotification.endOfStory)).toEqual([
+      { sessionId: "session" }
+    ]);
+    expect(player.getChoicePath("session")).toEqual([{ index: 1, text: "Sail" }]);
+    expect(getTexts(connection)).toEqual(["Board the ship", "You have 10 gold."]);
+  });
+
+  it("ends stopped sessions", () => {
+    const { connection, player } = createPlayer();
+    const onDidStopSession = jest.fn();
+    player.onDidStopSession(onDidStopSession);
+
+    player.stopSession("session");
+    player.chooseOption("session", 1);
+    player.stopSession("session");
+
+    expect(player.hasSession("session")).toBeFalsy();
+    expect(player.getStoryState("session")).toBeUndefined();
+    expect(getNotifications(connection, RuntimeNotification.endOfStory)).toHaveLength(1);
+    expect(onDidStopSession).toHaveBeenCalledTimes(1);
+    expect(onDidStopSession).toHaveBeenCalledWith("session");
+  });
+});
@@ -0,0 +1,520 @@
+// Copyright (c) Frédéric Maquin <fred@ephread.com>
+// Licensed under the MIT License.
+// See LICENSE in the project root for license information.
+
+import * as Fs from "fs-extra";
+
+import { Container } from "inkjs/engine/Container";
+import { ErrorType } from "inkjs/engine/Error";
+import { InkList } from "inkjs/engine/InkList";
+import { Path as InkPath } from "inkjs/engine/Path";
+import { Story } from "inkjs/engine/Story";
+import { VariableAssignment } from "inkjs/engine/VariableAssignment";
+import { Emitter, Event } from "vscode-languageserver";
+
+import {
+  IConnectionLogger,
+  PlayOptions,
+  RuntimeChoice,
+  RuntimeStoryState,
+  StorySnapshot
+} from "../../types/types";
+
+import { isObject } from "../utils";
+
+import StoryRenderer from "./StoryRenderer";
+
+/** A story being played. */
+interface PlaySession {
+  storyRenderer: StoryRenderer;
+
+  /** Options the session was started with, always seeded so that it can be replayed. */
+  playOptions: PlayOptions;
+
+  /** Path of the compiled story the session reloads when it's compiled again. */
+  storyPath?: string;
+
+  /** The compiled story, `undefined` until it has been loaded. */
+  story?: Story;
+
+  /** The JSON of the compiled story, `undefined` until it has been loaded. */
+  json?: string;
+
+  /** Choices made since the beginning of the story, in order. */
+  choices: RuntimeChoice[];
+}
+
+/**
+ * Plays compiled stories with the ink runtime, rendering each session
+ * through its own `StoryRenderer`.
+ *
+ * Sessions are created before their story is compiled, so that they can be
+ * stopped while the compilation is still running.
+ */
+export default class StoryPlayer {
+  /**
+   * Fired with the id of a session once it has been stopped, by the client
+   * or because its story couldn't be played.
+   */
+  public readonly onDidStopSession: Event<string>;
+
+  /** Sessions being played, keyed by session id. */
+  private playSessions: Map<string, PlaySession> = new Map();
+
+  private didStopSessionEmitter = new Emitter<string>();
+
+  constructor(private logger: IConnectionLogger) {
+    this.onDidStopSession = this.didStopSessionEmitter.event;
+  }
+
+  /**
+   * Register a new session, replacing any session with the same id.
+   *
+   * @param storyRenderer the renderer of the session.
+   * @param playOptions where the story starts and how it's seeded.
+   * @param storyPath the path of the compiled story, whose new versions should be
+   *                  reloaded by the session (see `reloadStories`).
+   */
+  public createSession(storyRenderer: StoryRenderer, playOptions: PlayOptions, storyPath?: string) {
+    this.stopSession(storyRenderer.sessionId);
+
+    this.playSessions.set(storyRenderer.sessionId, {
+      storyRenderer,
+      playOptions,
+      storyPath,
+      choices: []
+    });
+  }
+
+  /**
+   * Returns `true` if the given session exists, i. e. it hasn't been stopped.
+   */
+  public hasSession(sessionId: string): boolean {
+    return this.playSessions.has(sessionId);
+  }
+
+  /**
+   * Start playing the compiled story of the given session.
+   *
+   * @param sessionId the id of the session.
+   * @param json the compiled story.
+   * @param snapshot the snapshot to restore, if the story shouldn't start from the beginning.
+   */
+  public loadStory(sessionId: string, json: string, snapshot?: StorySnapshot) {
+    const playSession = this.playSessions.get(sessionId);
+    if (!playSession) {
+      return;
+    }
+
+    try {
+      this.createStory(playSession, json);
+    } catch (error) {
+      this.logger.console.error(`Could not load the story - ${error.message}`);
+      playSession.storyRenderer.reportError(`The story could not be played: ${error.message}`);
+      this.stopSession(sessionId);
+      return;
+    }
+
+    if (snapshot) {
+      try {
+        this.restoreSnapshot(playSession, snapshot);
+      } catch (error) {
+        playSession.storyRenderer.reportError(
+          `The snapshot could not be restored, the story changed since it was saved: ${error.message}`
+        );
+        this.stopSession(sessionId);
+        return;
+      }
+    } else {
+      this.startStory(playSession);
+    }
+
+    this.continueStory(playSession);
+  }
+
+  /**
+   * Play the new version of a compiled story in every session started from it,
+   * replaying the choices made so that each session continues from the
+   * equivalent point. Sessions whose story hasn't changed are left untouched.
+   *
+   * @param storyPath the path of the compiled story.
+   * @param json the new version of the compiled story.
+   */
+  public reloadStories(storyPath: string, json: string) {
+    for (const playSession of this.playSessions.values()) {
+      if (playSession.storyPath !== storyPath || !playSession.story || playSession.json === json) {
+        continue;
+      }
+
+      const choices = playSession.choices;
+
+      try {
+        this.createStory(playSession, json);
+      } catch (error) {
+        playSession.storyRenderer.reportError(`The story could not be reloaded: ${error.message}`);
+        continue;
+      }
+
+      try {
+        this.replayChoices(playSession, choices);
+      } catch (error) {
+        // The choices are kept, to be replayed once the story is fixed.
+        playSession.choices = choices;
+        playSession.storyRenderer.reportError(`The story could not be reloaded: ${error.message}`);
+        playSession.storyRenderer.showEndOfStory();
+      }
+    }
+  }
+
+  /**
+   * Read the compiled story at the given path and reload it in every session
+   * started from it. The story isn't read if no session is playing it.
+   *
+   * @param storyPath the path of the compiled story.
+   * @returns a promise resolved once the sessions have been reloaded.
+   */
+  public async reloadStoryFile(storyPath: string): Promise<void> {
+    const isPlayed = [...this.playSessions.values()].some(
+      playSession => playSession.storyPath === storyPath && !!playSession.story
+    );
+
+    if (!isPlayed) {
+      return;
+    }
+
+    try {
+      this.reloadStories(storyPath, await Fs.readFile(storyPath, "utf8"));
+    } catch (error) {
+      this.logger.console.warn(`Could not reload '${storyPath}' - ${error.message}`);
+    }
+  }
+
+  /**
+   * If the given session is prompting for a choice selection,
+   * select the choice at the given index.
+   *
+   * @param sessionId the id of the session.
+   * @param index the index of the choice, as sent with `inkRuntime/choice`.
+   */
+  public chooseOption(sessionId: string, index: number) {
+    const playSession = this.playSessions.get(sessionId);
+    if (!playSession || !playSession.story) {
+      return;
+    }
+
+    const choice = playSession.story.currentChoices[index - 1];
+    if (!choice) {
+      return;
+    }
+
+    playSession.story.ChooseChoiceIndex(choice.index);
+    playSession.choices.push({ index, text: choice.text });
+    playSession.storyRenderer.showChoicePath(playSession.choices);
+
+    this.continueStory(playSession);
+  }
+
+  /**
+   * Stop the given session, notifying the client that the story ended.
+   */
+  public stopSession(sessionId: string) {
+    const playSession = this.playSessions.get(sessionId);
+    if (playSession) {
+      this.playSessions.delete(sessionId);
+      playSession.storyRenderer.showEndOfStory();
+      this.didStopSessionEmitter.fire(sessionId);
+    }
+  }
+
+  /**
+   * Returns the choices made since the beginning of the story, or `undefined`
+   * if the session doesn't exist.
+   */
+  public getChoicePath(sessionId: string): RuntimeChoice[] | undefined {
+    const playSession = this.playSessions.get(sessionId);
+    return playSession ? [...playSession.choices] : undefined;
+  }
+
+  /**
+   * Rewind the given session to the point where the choice at `choiceCount`
+   * was offered. The story is played again from the beginning, with the same
+   * seed, replaying the choices kept.
+   */
+  public rewind(sessionId: string, choiceCount: number) {
+    const playSession = this.playSessions.get(sessionId);
+    if (
+      !playSession ||
+      !playSession.story ||
+      choiceCount < 0 ||
+      choiceCount > playSession.choices.length
+    ) {
+      return;
+    }
+
+    this.replayChoices(playSession, playSession.choices.slice(0, choiceCount));
+  }
+
+  /**
+   * Returns the state of the story played by the given session, or `undefined`
+   * if the session doesn't exist or its story hasn't been loaded yet.
+   */
+  public getStoryState(sessionId: string): RuntimeStoryState | undefined {
+    const playSession = this.playSessions.get(sessionId);
+    if (!playSession || !playSession.story) {
+      return undefined;
+    }
+
+    const story = playSession.story;
+    const storyState: RuntimeStoryState = {
+      variables: {},
+      lists: {},
+      visitCounts: {},
+      turnIndex: story.state.currentTurnIndex
+    };
+
+    for (const name of getGlobalVariableNames(story)) {
+      const value = story.variablesState.$(name);
+
+      if (value instanceof InkList) {
+        storyState.lists[name] = value.orderedItems.map(item => item.Key.fullName);
+      } else if (value instanceof InkPath) {
+        storyState.variables[name] = `-> ${value.componentsString}`;
+      } else if (value !== null) {
+        storyState.variables[name] = value;
+      }
+    }
+
+    // Visit counts aren't exposed by the runtime, except through the saved state.
+    const savedState = JSON.parse(story.state.ToJson());
+    storyState.visitCounts = savedState.visitCounts || {};
+
+    return storyState;
+  }
+
+  /**
+   * Returns a snapshot of the runtime state of the given session, or `undefined`
+   * if the session doesn't exist or its story hasn't been loaded yet.
+   */
+  public createSnapshot(sessionId: string): StorySnapshot | undefined {
+    const playSession = this.playSessions.get(sessionId);
+    if (!playSession || !playSession.story) {
+      return undefined;
+    }
+
+    return {
+      playOptions: playSession.playOptions,
+      choices: [...playSession.choices],
+      state: JSON.parse(playSession.story.state.ToJson())
+    };
+  }
+
+  /**
+   * Create the story of the given session from its compiled JSON, replacing
+   * the story previously loaded.
+   */
+  private createStory(playSession: PlaySession, json: string) {
+    const story = new Story(json.replace(/^\uFEFF/, ""));
+    story.allowExternalFunctionFallbacks = true;
+    story.onError = (message, type) => {
+      const errorType = type === ErrorType.Error ? "RUNTIME ERROR" : "RUNTIME WARNING";
+      playSession.storyRenderer.reportError(`${errorType} while playing the story: ${message}`);
+    };
+
+    playSession.story = story;
+    playSession.json = json;
+  }
+
+  /**
+   * Play the story of the given session again from the beginning, with the
+   * same seed, then replay the given choices. Replaying stops at the first
+   * choice which is no longer offered.
+   */
+  private replayChoices(playSession: PlaySession, choices: RuntimeChoice[]) {
+    const story = playSession.story as Story;
+
+    story.ResetState();
+    playSession.choices = [];
+    this.startStory(playSession);
+
+    // The replayed content isn't rendered, only what follows the last choice kept.
+    try {
+      for (const choice of choices) {
+        story.ContinueMaximally();
+
+        const storyChoice = story.currentChoices[choice.index - 1];
+        if (!storyChoice || storyChoice.text !== choice.text) {
+          playSession.storyRenderer.reportError(
+            `The choice path could not be replayed, '${choice.text}' is no longer offered.`
+          );
+          break;
+        }
+
+        story.ChooseChoiceIndex(storyChoice.index);
+        playSession.choices.push(choice);
+      }
+    } catch (error) {
+      playSession.storyRenderer.reportError(
+        `RUNTIME ERROR while playing the story: ${error.message}`
+      );
+      playSession.storyRenderer.showChoicePath(playSession.choices);
+      playSession.storyRenderer.showEndOfStory();
+      return;
+    }
+
+    playSession.storyRenderer.showChoicePath(playSession.choices);
+    this.continueStory(playSession);
+  }
+
+  /**
+   * Seed the story, apply the variable overrides and divert to the start path
+   * of the given session, before any content is rendered.
+   */
+  private startStory(playSession: PlaySession) {
+    const story = playSession.story as Story;
+    const { seed, startPath, variables } = playSession.playOptions;
+
+    if (seed !== undefined) {
+      story.state.storySeed = seed;
+      story.state.previousRandom = 0;
+    }
+
+    const overrides = variables || {};
+    for (const name of Object.keys(overrides)) {
+      story.variablesState.$(name, overrides[name]);
+    }
+
+    if (startPath) {
+      story.ChoosePathString(startPath);
+    }
+  }
+
+  /**
+   * Load the runtime state saved in the given snapshot, making sure that every
+   * location and variable it refers to still exists in the story.
+   *
+   * @throws an error describing the first location or variable which couldn't be found.
+   */
+  private restoreSnapshot(playSession: PlaySession, snapshot: StorySnapshot) {
+    const story = playSession.story as Story;
+    const state = isObject(snapshot.state) ? snapshot.state : {};
+
+    // The runtime approximates the locations which moved, and drops the
+    // variables which aren't declared anymore, so both are checked beforehand.
+    for (const path of getCallStackPaths(state)) {
+      const target = story.ContentAtPath(new InkPath(path));
+      if (!target.obj || target.approximate) {
+        throw new Error(`the location '${path}' of the call stack couldn't be found.`);
+      }
+    }
+
+    const variables = isObject(state.variablesState) ? state.variablesState : {};
+    for (const name of Object.keys(variables)) {
+      if (story.variablesState.TryGetDefaultVariableValue(name) === null) {
+        throw new Error(`the variable '${name}' isn't declared anymore.`);
+      }
+    }
+
+    story.state.LoadJson(JSON.stringify(snapshot.state));
+
+    // Choices are only resolved once selected, so they are checked beforehand.
+    for (const choice of story.currentChoices) {
+      const target = choice.targetPath ? story.ContentAtPath(choice.targetPath) : null;
+      if (!target || !target.obj || target.approximate) {
+        throw new Error(
+          `the target of the choice '${choice.text}' (${choice.pathStringOnChoice}) ` +
+            "couldn't be found."
+        );
+      }
+    }
+
+    playSession.choices = [...snapshot.choices];
+  }
+
+  /**
+   * Render the story of the given session until it prompts for a choice or ends.
+   */
+  private continueStory(playSession: PlaySession) {
+    const { storyRenderer } = playSession;
+    const story = playSession.story as Story;
+
+    try {
+      while (story.canContinue) {
+        const text = story.Continue() || "";
+        const tags = story.currentTags;
+
+        if (text.trim().length > 0) {
+          storyRenderer.showText(text.replace(/\n$/, ""));
+        }
+
+        if (tags && tags.length > 0) {
+          storyRenderer.showTag(tags);
+        }
+      }
+    } catch (error) {
+      storyRenderer.reportError(`RUNTIME ERROR while playing the story: ${error.message}`);
+      storyRenderer.showEndOfStory();
+      return;
+    }
+
+    if (playSession.playOptions.notifyStoryState) {
+      const storyState = this.getStoryState(storyRenderer.sessionId);
+      if (storyState) {
+        storyRenderer.showStoryState(storyState);
+      }
+    }
+
+    if (story.currentChoices.length > 0) {
+      for (const choice of story.currentChoices) {
+        storyRenderer.showChoice({ index: choice.index + 1, text: choice.text });
+      }
+
+      storyRenderer.showPrompt();
+    } else {
+      // The session is kept, so that it can still be rewound.
+      storyRenderer.showEndOfStory();
+    }
+  }
+}
+
+/**
+ * Returns the names of the global variables declared by the story,
+ * lists included, in declaration order.
+ */
+function getGlobalVariableNames(story: Story): string[] {
+  const globalDeclarations = story.mainContentContainer.namedContent.get("global decl");
+  if (!(globalDeclarations instanceof Container)) {
+    return [];
+  }
+
+  const names: string[] = [];
+  for (const content of globalDeclarations.content) {
+    if (content instanceof VariableAssignment && content.isGlobal && content.variableName) {
+      names.push(content.variableName);
+    }
+  }
+
+  return names;
+}
+
+/**
+ * Returns the paths of the containers referred to by the call stacks saved in
+ * the given state, choice threads included.
+ */
+function getCallStackPaths(state: { [key: string]: unknown }): string[] {
+  const paths: string[] = [];
+  const visit = (value: unknown) => {
+    if (Array.isArray(value)) {
+      value.forEach(visit);
+    } else if (isObject(value)) {
+      if (typeof value.cPath === "string") {
+        paths.push(value.cPath);
+      }
+
+      Object.keys(value).forEach(key => visit(value[key]));
+    }
+  };
+
+  // Before version 9 of the save format, states only had a single flow.
+  visit([state.flows, state.callstackThreads, state.choiceThreads]);
+  return paths;
+}
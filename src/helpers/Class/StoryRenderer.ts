@@ -7,47 +7,66 @@ import { IConnection } from 'vscode-languageserver';
 import { RuntimeNotification } from '../../types/identifiers';
 import {
   RuntimeChoice,
+  RuntimeChoicePathParams,
   RuntimeChoicesParams,
   RuntimeErrorParams,
+  RuntimeSessionParams,
+  RuntimeStoryState,
+  RuntimeStoryStateParams,
   RuntimeTagParams,
   RuntimeTextParams,
 } from '../../types/types';
 
 /**
  * Renders a story. In the current context, it means notifying the client.
+ *
+ * Each play session has its own renderer, tagging every notification
+ * with the id of the session.
  */
 export default class StoryRenderer {
   private connection: IConnection;
 
-  constructor(connection: IConnection) {
+  constructor(connection: IConnection, public readonly sessionId: string) {
     this.connection = connection;
   }
 
   public showText(text: string) {
-    const params: RuntimeTextParams = { text };
+    const params: RuntimeTextParams = { sessionId: this.sessionId, text };
     this.connection.sendNotification(RuntimeNotification.text, params);
   }
 
   public showTag(tags: string[]) {
-    const params: RuntimeTagParams = { tags };
+    const params: RuntimeTagParams = { sessionId: this.sessionId, tags };
     this.connection.sendNotification(RuntimeNotification.tag, params);
   }
 
   public showChoice(choice: RuntimeChoice) {
-    const params: RuntimeChoicesParams = { choice };
+    const params: RuntimeChoicesParams = { sessionId: this.sessionId, choice };
     this.connection.sendNotification(RuntimeNotification.choice, params);
   }
 
   public showPrompt() {
-    this.connection.sendNotification(RuntimeNotification.prompt);
+    const params: RuntimeSessionParams = { sessionId: this.sessionId };
+    this.connection.sendNotification(RuntimeNotification.prompt, params);
   }
 
   public showEndOfStory() {
-    this.connection.sendNotification(RuntimeNotification.endOfStory);
+    const params: RuntimeSessionParams = { sessionId: this.sessionId };
+    this.connection.sendNotification(RuntimeNotification.endOfStory, params);
   }
 
   public reportError(error: string) {
-    const params: RuntimeErrorParams = { error };
+    const params: RuntimeErrorParams = { sessionId: this.sessionId, error };
     this.connection.sendNotification(RuntimeNotification.error, params);
   }
+
+  public showChoicePath(choices: RuntimeChoice[]) {
+    const params: RuntimeChoicePathParams = { sessionId: this.sessionId, choices };
+    this.connection.sendNotification(RuntimeNotification.choicePath, params);
+  }
+
+  public showStoryState(state: RuntimeStoryState) {
+    const params: RuntimeStoryStateParams = { sessionId: this.sessionId, state };
+    this.connection.sendNotification(RuntimeNotification.didChangeStoryState, params);
+  }
 }
@@ -0,0 +1,101 @@
+// Copyright (c) Frédéric Maquin <fred@ephread.com>
+// Licensed under the MIT License.
+// See LICENSE in the project root for license information.
+
+import * as Fs from "fs-extra";
+import * as Os from "os";
+import * as Path from "path";
+
+import { TextDocument } from "vscode-languageserver";
+import URI from "vscode-uri";
+
+import { InkWorkspace } from "../../types/types";
+
+import { createDocumentManager } from "../../tests/helpers/documents";
+import mockedLogger from "../../tests/helpers/logger";
+
+import SyntaxTreeManager from "./SyntaxTreeManager";
+
+const directory = Path.join(Os.tmpdir(), "ink.language.server.syntax.tree.test");
+
+const workspace: InkWorkspace = {
+  folder: { uri: URI.file(directory).toString(), name: "story" }
+};
+
+function writeFiles(files: { [relativePath: string]: string }) {
+  for (const relativePath of Object.keys(files)) {
+    Fs.outputFileSync(Path.join(directory, relativePath), files[relativePath]);
+  }
+}
+
+async function getStoryPaths(syntaxTreeManager: SyntaxTreeManager) {
+  const stories = await syntaxTreeManager.getWorkspaceStories(workspace);
+  return Array.from(stories.keys())
+    .map(filePath => Path.relative(directory, filePath))
+    .sort();
+}
+
+describe("getWorkspaceStories", () => {
+  afterEach(() => {
+    Fs.removeSync(directory);
+  });
+
+  it("skips hidden directories and node_modules", async () => {
+    const syntaxTreeManager = new SyntaxTreeManager(createDocumentManager(), mockedLogger.logger);
+    writeFiles({
+      "main.ink": "-> END",
+      "chapters/chapter.ink": "=== chapter ===\n-> END",
+      ".backup/main.ink": "-> END",
+      "node_modules/package/story.ink": "-> END"
+    });
+
+    expect(await getStoryPaths(syntaxTreeManager)).toEqual([
+      Path.join("chapters", "chapter.ink"),
+      "main.ink"
+    ]);
+  });
+
+  it("lists the files of the workspace again once invalidated", async () => {
+    const syntaxTreeManager = new SyntaxTreeManager(createDocumentManager(), mockedLogger.logger);
+    writeFiles({ "main.ink": "-> END" });
+
+    expect(await getStoryPaths(syntaxTreeManager)).toEqual(["main.ink"]);
+
+    writeFiles({ "dlc.ink": "-> END" });
+    expect(await getStoryPaths(syntaxTreeManager)).toEqual(["main.ink"]);
+
+    syntaxTreeManager.invalidateFiles();
+    expect(await getStoryPaths(syntaxTreeManager)).toEqual(["dlc.ink", "main.ink"]);
+  });
+});
+
+describe("getStorySyntaxTrees", () => {
+  const mainPath = Path.join(directory, "main.ink");
+
+  afterEach(() => {
+    Fs.removeSync(directory);
+  });
+
+  it("follows the includes of the opened documents as they change", async () => {
+    const documents = [TextDocument.create(URI.file(mainPath).toString(), "ink", 1, "-> END")];
+    const syntaxTreeManager = new SyntaxTreeManager(
+      createDocumentManager(documents),
+      mockedLogger.logger
+    );
+    writeFiles({
+      "main.ink": "-> END",
+      "chapter.ink": "=== chapter ===\n-> END"
+    });
+
+    expect(await syntaxTreeManager.getStorySyntaxTrees(mainPath)).toHaveLength(1);
+
+    documents[0] = TextDocument.create(documents[0].uri, "ink", 2, "INCLUDE chapter.ink\n-> END");
+    const trees = await syntaxTreeManager.getStorySyntaxTrees(mainPath);
+
+    expect(trees.map(tree => URI.parse(tree.uri).fsPath)).toEqual([
+      mainPath,
+      Path.join(directory, "chapter.ink")
+    ]);
+    expect(trees[0].version).toBe(2);
+  });
+});
@@ -0,0 +1,327 @@
+// Copyright (c) Frédéric Maquin <fred@ephread.com>
+// Licensed under the MIT License.
+// See LICENSE in the project root for license information.
+
+import * as Fs from "fs-extra";
+import * as Path from "path";
+
+import { TextDocument } from "vscode-languageserver";
+import URI from "vscode-uri";
+
+import { IncludeNode, InkSyntaxTree } from "../../types/syntax";
+import { IConnectionLogger, InkWorkspace } from "../../types/types";
+
+import { parse } from "../../parser/parser";
+import { isInkFile } from "../utils";
+
+import DocumentManager from "./DocumentManager";
+
+/**
+ * Parses ink documents and caches their syntax trees. Documents opened by the client
+ * are parsed from their current content, other files are parsed from disk.
+ */
+export default class SyntaxTreeManager {
+  /**
+   * Syntax trees of the documents opened by the client, URIs of
+   * the client's `TextDocument` will be used as keys.
+   */
+  private trees: Map<string, InkSyntaxTree> = new Map();
+
+  /**
+   * Syntax trees of the files read from disk, along with their modification time.
+   * Paths of the files will be used as keys.
+   */
+  private fileTrees: Map<string, { modificationTime: number; tree: InkSyntaxTree }> = new Map();
+
+  /**
+   * Ink files found in each workspace, until files are created or deleted.
+   * Paths of the workspaces will be used as keys.
+   */
+  private workspaceFiles: Map<string, Promise<string[]>> = new Map();
+
+  /**
+   * Paths of the files of each story, the main story and the files it includes,
+   * until `INCLUDE` statements change. Paths of the main stories will be used as keys.
+   */
+  private storyFiles: Map<string, Promise<string[]>> = new Map();
+
+  constructor(private documentManager: DocumentManager, private logger: IConnectionLogger) {}
+
+  /**
+   * Parse the given document, reusing its previous syntax tree
+   * for the lines which did not change.
+   *
+   * @param document the document to parse.
+   * @returns the up-to-date syntax tree.
+   */
+  public updateDocument(document: TextDocument): InkSyntaxTree {
+    const previousTree = this.trees.get(document.uri);
+    if (previousTree && previousTree.version === document.version) {
+      return previousTree;
+    }
+
+    const tree = parse(document.getText(), document.uri, document.version, previousTree);
+    this.trees.set(document.uri, tree);
+
+    if (!previousTree || getIncludePaths(previousTree) !== getIncludePaths(tree)) {
+      this.storyFiles.clear();
+    }
+
+    return tree;
+  }
+
+  /**
+   * Returns the up-to-date syntax tree of the given document uri,
+   * or `undefined` if the document isn't opened.
+   *
+   * @param uri the uri of the document.
+   */
+  public getSyntaxTree(uri: string): InkSyntaxTree | undefined {
+    const document = this.documentManager.documents.get(uri);
+    if (!document) {
+      return undefined;
+    }
+
+    return this.updateDocument(document);
+  }
+
+  /**
+   * Returns the syntax tree of the file at the given path. If the file is opened
+   * by the client, the content of the document is used instead of the file.
+   *
+   * @param filePath the path of the file.
+   * @returns the syntax tree, or `undefined` if the file couldn't be read.
+   */
+  public async getSyntaxTreeOfFile(filePath: string): Promise<InkSyntaxTree | undefined> {
+    const document = this.documentManager.documents
+      .all()
+      .find(openDocument => URI.parse(openDocument.uri).fsPath === filePath);
+
+    if (document) {
+      return this.updateDocument(document);
+    }
+
+    try {
+      const stat = await Fs.stat(filePath);
+      const cachedTree = this.fileTrees.get(filePath);
+
+      if (cachedTree && cachedTree.modificationTime === stat.mtimeMs) {
+        return cachedTree.tree;
+      }
+
+      const text = (await Fs.readFile(filePath, "utf8")).replace(/^\uFEFF/, "");
+      const uri = URI.file(filePath).toString();
+      const tree = parse(text, uri, 0, cachedTree ? cachedTree.tree : undefined);
+
+      if (cachedTree && getIncludePaths(cachedTree.tree) !== getIncludePaths(tree)) {
+        this.storyFiles.clear();
+      }
+
+      this.fileTrees.set(filePath, { modificationTime: stat.mtimeMs, tree });
+      return tree;
+    } catch (error) {
+      this.logger.console.warn(`Could not parse '${filePath}' - ${error.message}`);
+      this.fileTrees.delete(filePath);
+      return undefined;
+    }
+  }
+
+  /**
+   * Returns the syntax trees of the given document and of the stories which include
+   * it, along with the files they include, even if they live outside of the workspace.
+   * Symbols are resolved within these trees only, since other stories may declare
+   * the same names.
+   *
+   * @param tree the syntax tree of the document.
+   * @param mainStoryPaths the paths of the main stories including the document.
+   */
+  public async getDocumentStorySyntaxTrees(
+    tree: InkSyntaxTree,
+    mainStoryPaths: string[]
+  ): Promise<InkSyntaxTree[]> {
+    const trees: Map<string, InkSyntaxTree> = new Map([[tree.uri, tree]]);
+
+    for (const mainStoryPath of mainStoryPaths) {
+      for (const storyTree of await this.getStorySyntaxTrees(mainStoryPath)) {
+        if (!trees.has(storyTree.uri)) {
+          trees.set(storyTree.uri, storyTree);
+        }
+      }
+    }
+
+    return Array.from(trees.values());
+  }
+
+  /**
+   * Returns the syntax trees of the story of every ink file found in the workspace,
+   * were it the main story, keyed by the path of the file.
+   *
+   * @param workspace the workspace to parse.
+   */
+  public async getWorkspaceStories(workspace: InkWorkspace): Promise<Map<string, InkSyntaxTree[]>> {
+    const workspacePath = URI.parse(workspace.folder.uri).fsPath;
+    const stories: Map<string, InkSyntaxTree[]> = new Map();
+
+    for (const filePath of await this.getWorkspaceFiles(workspacePath)) {
+      const storyTrees = await this.getStorySyntaxTrees(filePath);
+      if (storyTrees.length > 0) {
+        stories.set(filePath, storyTrees);
+      }
+    }
+
+    return stories;
+  }
+
+  /**
+   * Returns the syntax trees of the given main story and of the files it includes,
+   * directly or not.
+   *
+   * @param mainStoryPath the path of the main story.
+   */
+  public async getStorySyntaxTrees(mainStoryPath: string): Promise<InkSyntaxTree[]> {
+    // Parsing the opened documents discards the files of the stories if their
+    // includes changed, the cache can then be trusted.
+    for (const document of this.documentManager.documents.all()) {
+      this.updateDocument(document);
+    }
+
+    let filePaths = this.storyFiles.get(mainStoryPath);
+    if (!filePaths) {
+      filePaths = this.findStoryFiles(mainStoryPath);
+      this.storyFiles.set(mainStoryPath, filePaths);
+    }
+
+    const trees: InkSyntaxTree[] = [];
+    for (const filePath of await filePaths) {
+      const tree = await this.getSyntaxTreeOfFile(filePath);
+      if (tree) {
+        trees.push(tree);
+      }
+    }
+
+    return trees;
+  }
+
+  /**
+   * Returns the path of the file included by `include`. Like the compilers do, the path
+   * is resolved relatively to the directory of the main story, whichever file includes it.
+   *
+   * @param include the include to resolve.
+   * @param mainStoryPath the path of the main story.
+   * @returns the path of the included file, or `undefined` if it doesn't exist.
+   */
+  public async resolveIncludePath(
+    include: IncludeNode,
+    mainStoryPath: string
+  ): Promise<string | undefined> {
+    const includedFilePath = Path.resolve(Path.dirname(mainStoryPath), include.path);
+    return (await Fs.pathExists(includedFilePath)) ? includedFilePath : undefined;
+  }
+
+  /**
+   * Remove the cached syntax tree of the given document uri. Since the file on disk
+   * may differ from the document, the files of the stories are looked up again.
+   *
+   * @param uri the uri of the document.
+   */
+  public removeDocument(uri: string) {
+    this.trees.delete(uri);
+    this.storyFiles.clear();
+  }
+
+  /**
+   * Discard the cached lists of files, after files were created, changed,
+   * deleted or renamed on disk.
+   */
+  public invalidateFiles() {
+    this.workspaceFiles.clear();
+    this.storyFiles.clear();
+  }
+
+  /**
+   * Returns the ink files contained in the given workspace, listing them
+   * if they aren't cached.
+   */
+  private getWorkspaceFiles(workspacePath: string): Promise<string[]> {
+    let filePaths = this.workspaceFiles.get(workspacePath);
+    if (!filePaths) {
+      filePaths = this.findInkFiles(workspacePath);
+      this.workspaceFiles.set(workspacePath, filePaths);
+    }
+
+    return filePaths;
+  }
+
+  /**
+   * Returns the paths of the given main story and of the files it includes,
+   * directly or not. Files which can't be parsed are left out.
+   */
+  private async findStoryFiles(mainStoryPath: string): Promise<string[]> {
+    const pendingPaths = [mainStoryPath];
+    const trees: Map<string, InkSyntaxTree> = new Map();
+
+    while (pendingPaths.length > 0) {
+      const filePath = pendingPaths.shift() as string;
+      if (trees.has(filePath)) {
+        continue;
+      }
+
+      const tree = await this.getSyntaxTreeOfFile(filePath);
+      if (!tree) {
+        continue;
+      }
+
+      trees.set(filePath, tree);
+
+      for (const include of tree.includes) {
+        const includedFilePath = await this.resolveIncludePath(include, mainStoryPath);
+        if (includedFilePath) {
+          pendingPaths.push(includedFilePath);
+        }
+      }
+    }
+
+    return Array.from(trees.keys());
+  }
+
+  /**
+   * Recursively list the ink files contained in the given directory. Hidden
+   * directories and `node_modules` are skipped.
+   */
+  private async findInkFiles(directoryPath: string): Promise<string[]> {
+    let filePaths: string[] = [];
+    let entries: string[];
+
+    try {
+      entries = await Fs.readdir(directoryPath);
+    } catch (error) {
+      this.logger.console.warn(`Could not list '${directoryPath}' - ${error.message}`);
+      return filePaths;
+    }
+
+    for (const entry of entries) {
+      const entryPath = Path.join(directoryPath, entry);
+
+      try {
+        if ((await Fs.lstat(entryPath)).isDirectory()) {
+          if (entry.startsWith(".") || entry === "node_modules") {
+            continue;
+          }
+
+          filePaths = filePaths.concat(await this.findInkFiles(entryPath));
+        } else if (isInkFile(entryPath, true, this.logger)) {
+          filePaths.push(entryPath);
+        }
+      } catch (error) {
+        this.logger.console.warn(`File '${entryPath}' will be ignored. - ${error.message}`);
+      }
+    }
+
+    return filePaths;
+  }
+}
+
+/** Returns the paths included by the given tree, as a comparable string. */
+function getIncludePaths(tree: InkSyntaxTree): string {
+  return tree.includes.map(include => include.path).join("\n");
+}
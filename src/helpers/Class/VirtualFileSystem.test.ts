@@ -0,0 +1,65 @@
+// Copyright (c) Frédéric Maquin <fred@ephread.com>
+// Licensed under the MIT License.
+// See LICENSE in the project root for license information.
+
+import * as Fs from "fs-extra";
+import * as Os from "os";
+import * as Path from "path";
+
+import { TextDocument } from "vscode-languageserver";
+import URI from "vscode-uri";
+
+import { createDocumentManager } from "../../tests/helpers/documents";
+
+import VirtualFileSystem from "./VirtualFileSystem";
+
+const directory = Path.join(Os.tmpdir(), "ink.language.server.vfs.test");
+const mainPath = Path.join(directory, "main.ink");
+const chapterPath = Path.join(directory, "chapter.ink");
+
+function createVirtualFileSystem(documents: TextDocument[]) {
+  return new VirtualFileSystem(createDocumentManager(documents));
+}
+
+function createDocument(uri: string, content: string) {
+  return TextDocument.create(uri, "ink", 1, content);
+}
+
+describe("VirtualFileSystem", () => {
+  beforeEach(() => {
+    Fs.outputFileSync(mainPath, "Saved main.");
+    Fs.outputFileSync(chapterPath, "Saved chapter.");
+  });
+
+  afterEach(() => {
+    Fs.removeSync(directory);
+  });
+
+  it("reads the documents opened by the client over the files on disk", async () => {
+    const fileSystem = createVirtualFileSystem([
+      createDocument(URI.file(mainPath).toString(), "Unsaved main.")
+    ]);
+
+    expect(await fileSystem.readFile(mainPath)).toBe("Unsaved main.");
+    expect(await fileSystem.readFile(chapterPath)).toBe("Saved chapter.");
+    expect(fileSystem.readFileSync(mainPath)).toBe("Unsaved main.");
+    expect(fileSystem.readFileSync(chapterPath)).toBe("Saved chapter.");
+  });
+
+  it("rejects files which exist neither on disk nor in the client", async () => {
+    const fileSystem = createVirtualFileSystem([]);
+
+    await expect(fileSystem.readFile(Path.join(directory, "missing.ink"))).rejects.toThrow();
+    expect(() => fileSystem.readFileSync(Path.join(directory, "missing.ink"))).toThrow();
+  });
+
+  it("returns the documents opened within a directory", () => {
+    const fileSystem = createVirtualFileSystem([
+      createDocument(URI.file(mainPath).toString(), "Unsaved main."),
+      createDocument(URI.file(Path.join(Os.tmpdir(), "other.ink")).toString(), "Other."),
+      createDocument("untitled:Untitled-1", "Untitled.")
+    ]);
+
+    expect(fileSystem.getOverlays(directory)).toEqual(new Map([[mainPath, "Unsaved main."]]));
+  });
+});
@@ -0,0 +1,80 @@
+// Copyright (c) Frédéric Maquin <fred@ephread.com>
+// Licensed under the MIT License.
+// See LICENSE in the project root for license information.
+
+import * as Fs from "fs-extra";
+
+import { TextDocument } from "vscode-languageserver";
+import URI from "vscode-uri";
+
+import { isFilePathChildOfDirPath } from "../utils";
+
+import DocumentManager from "./DocumentManager";
+
+/**
+ * Reads the files of the workspaces, as the compilers should see them: the
+ * documents opened by the client, saved or not, overlay the files on disk.
+ */
+export default class VirtualFileSystem {
+  constructor(private documentManager: DocumentManager) {}
+
+  /**
+   * Returns the content of the given file, from the document opened by the client
+   * if there is one, from the disk otherwise.
+   *
+   * @param filePath the absolute path of the file to read.
+   */
+  public readFile(filePath: string): Promise<string> {
+    const document = this.getDocument(filePath);
+    if (document) {
+      return Promise.resolve(document.getText());
+    }
+
+    return Fs.readFile(filePath, "utf8");
+  }
+
+  /**
+   * Synchronous version of `readFile`, the inkjs compiler loads included files
+   * synchronously.
+   *
+   * @param filePath the absolute path of the file to read.
+   */
+  public readFileSync(filePath: string): string {
+    const document = this.getDocument(filePath);
+    if (document) {
+      return document.getText();
+    }
+
+    return Fs.readFileSync(filePath, "utf8");
+  }
+
+  /**
+   * Returns the content of the documents opened by the client within the given
+   * directory, keyed by their absolute paths.
+   *
+   * @param directoryPath the absolute path of the directory.
+   */
+  public getOverlays(directoryPath: string): Map<string, string> {
+    const overlays: Map<string, string> = new Map();
+
+    for (const document of this.documentManager.documents.all()) {
+      const uri = URI.parse(document.uri);
+      if (uri.scheme === "file" && isFilePathChildOfDirPath(uri.fsPath, directoryPath)) {
+        overlays.set(uri.fsPath, document.getText());
+      }
+    }
+
+    return overlays;
+  }
+
+  /**
+   * Returns the document opened by the client at the given path, comparing paths
+   * rather than URIs, since clients may encode them differently.
+   */
+  private getDocument(filePath: string): TextDocument | undefined {
+    return this.documentManager.documents.all().find(document => {
+      const uri = URI.parse(document.uri);
+      return uri.scheme === "file" && uri.fsPath === filePath;
+    });
+  }
+}
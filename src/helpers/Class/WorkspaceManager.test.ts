@@ -0,0 +1,133 @@
+// Copyright (c) Frédéric Maquin <fred@ephread.com>
+// Licensed under the MIT License.
+// See LICENSE in the project root for license information.
+
+import * as Fs from "fs-extra";
+import * as Os from "os";
+import * as Path from "path";
+
+import { FileChangeType, TextDocument } from "vscode-languageserver";
+import URI from "vscode-uri";
+
+import { InkWorkspace, PartialInkConfigurationSettings } from "../../types/types";
+
+import { createDocumentManager } from "../../tests/helpers/documents";
+import mockedLogger from "../../tests/helpers/logger";
+import { createWorkspaceManager } from "../../tests/helpers/workspace";
+
+const directory = Path.join(Os.tmpdir(), "ink.language.server.workspace.test");
+
+const workspace: InkWorkspace = {
+  folder: { uri: URI.file(directory).toString(), name: "story" }
+};
+
+describe("updateDocumentAndCompileWorkspace", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    Fs.outputFileSync(Path.join(directory, "main.ink"), "Hello.");
+  });
+
+  afterEach(() => {
+    Fs.removeSync(directory);
+  });
+
+  it("logs the compilations which fail", async () => {
+    const document = TextDocument.create(
+      URI.file(Path.join(directory, "main.ink")).toString(),
+      "ink",
+      1,
+      "Hello."
+    );
+    let didCompile: () => void = () => undefined;
+    const compilation = new Promise(resolve => (didCompile = resolve));
+    const compiler = {
+      compileStory: jest.fn(() => {
+        didCompile();
+        return Promise.reject(new Error("crashed"));
+      })
+    };
+    const workspaceManager = createWorkspaceManager(
+      createDocumentManager([document]),
+      [workspace],
+      compiler
+    );
+
+    await workspaceManager.updateDocumentAndCompileWorkspace(document);
+    await compilation;
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(compiler.compileStory).toHaveBeenCalledTimes(1);
+    expect(mockedLogger.mocks.consoleError).toHaveBeenCalledWith(
+      "Could not compile the workspace of main.ink - crashed"
+    );
+  });
+});
+
+describe("compilation of several stories", () => {
+  const mainPath = Path.join(directory, "main.ink");
+  const dlcPath = Path.join(directory, "dlc.ink");
+  const chapterPath = Path.join(directory, "chapter.ink");
+
+  beforeEach(() => {
+    Fs.outputFileSync(mainPath, "INCLUDE chapter.ink\n-> chapter");
+    Fs.outputFileSync(dlcPath, "INCLUDE chapter.ink\n-> chapter");
+    Fs.outputFileSync(Path.join(directory, "side.ink"), "-> END");
+    Fs.outputFileSync(chapterPath, "=== chapter ===\n-> END");
+  });
+
+  afterEach(() => {
+    Fs.removeSync(directory);
+  });
+
+  /** Returns a compiler, and a promise resolved with the stories once it compiled `count`. */
+  function createCompiler(count: number) {
+    const mainStoryPaths: string[] = [];
+    let didCompile: (paths: string[]) => void = () => undefined;
+    const compilations = new Promise<string[]>(resolve => (didCompile = resolve));
+
+    const compiler = {
+      compileStory: jest.fn(async (settings: PartialInkConfigurationSettings) => {
+        mainStoryPaths.push(settings.mainStoryPath as string);
+        if (mainStoryPaths.length === count) {
+          didCompile(mainStoryPaths.sort());
+        }
+      })
+    };
+
+    return { compiler, compilations };
+  }
+
+  it("compiles every story including the document", async () => {
+    const document = TextDocument.create(
+      URI.file(chapterPath).toString(),
+      "ink",
+      1,
+      "=== chapter ===\n-> END"
+    );
+    const { compiler, compilations } = createCompiler(2);
+    const workspaceManager = createWorkspaceManager(
+      createDocumentManager([document]),
+      [workspace],
+      compiler
+    );
+
+    await workspaceManager.updateDocumentAndCompileWorkspace(document);
+
+    expect(await compilations).toEqual(["dlc.ink", "main.ink"]);
+  });
+
+  it("compiles every story of the workspace when files change on disk", async () => {
+    const { compiler, compilations } = createCompiler(3);
+    const workspaceManager = createWorkspaceManager(
+      createDocumentManager([]),
+      [workspace],
+      compiler
+    );
+
+    await workspaceManager.updateWatchedFiles({
+      changes: [{ uri: URI.file(chapterPath).toString(), type: FileChangeType.Changed }]
+    });
+
+    expect(await compilations).toEqual(["dlc.ink", "main.ink", "side.ink"]);
+  });
+});
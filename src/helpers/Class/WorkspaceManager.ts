@@ -7,8 +7,8 @@ import * as Path from "path";
 import {
   DidChangeWatchedFilesParams,
   ExecuteCommandParams,
-  FileChangeType,
   InitializeParams,
+  MarkupKind,
   TextDocument,
   WorkspaceFolder
 } from "vscode-languageserver/lib/main";
@@ -22,8 +22,10 @@ import {
   Capabilities,
   DocumentPathAndWorkspace,
   IConnectionLogger,
+  InkConfigurationSettings,
   InkWorkspace,
-  PartialInkConfigurationSettings
+  PartialInkConfigurationSettings,
+  RenameFilesParams
 } from "../../types/types";
 
 import { getDefaultSettings, mergeSettings } from "../configuration";
@@ -31,6 +33,7 @@ import { isFilePathChildOfDirPath } from "../utils";
 
 import CompilationDirectoryManager from "./CompilationDirectoryManager";
 import DocumentManager from "./DocumentManager";
+import MainStoryResolver from "./MainStoryResolver";
 
 /**
  * Manages the local workspaces, mirroring the workspaces handled by the client.
@@ -48,7 +51,11 @@ export default class WorkspaceManager {
   public capabilities: Capabilities = {
     configuration: false,
     workspaceFolder: false,
-    diagnostic: false
+    diagnostic: false,
+    hierarchicalDocumentSymbol: false,
+    prepareRename: false,
+    snippetCompletion: false,
+    markdownHover: false
   };
 
   public rootUri: string|null = null;
@@ -61,6 +68,7 @@ export default class WorkspaceManager {
     private connection: IConnection,
     private documentManager: DocumentManager,
     private compilationDirectoryManager: CompilationDirectoryManager,
+    private mainStoryResolver: MainStoryResolver,
     private compiler: IInkCompiler,
     private logger: IConnectionLogger
   ) {}
@@ -75,6 +83,29 @@ export default class WorkspaceManager {
       }
     }
 
+    if (params.capabilities.textDocument && params.capabilities.textDocument.documentSymbol) {
+      this.capabilities.hierarchicalDocumentSymbol =
+        !!params.capabilities.textDocument.documentSymbol.hierarchicalDocumentSymbolSupport;
+    }
+
+    if (params.capabilities.textDocument && params.capabilities.textDocument.rename) {
+      this.capabilities.prepareRename = !!params.capabilities.textDocument.rename.prepareSupport;
+    }
+
+    if (
+      params.capabilities.textDocument &&
+      params.capabilities.textDocument.completion &&
+      params.capabilities.textDocument.completion.completionItem
+    ) {
+      this.capabilities.snippetCompletion =
+        !!params.capabilities.textDocument.completion.completionItem.snippetSupport;
+    }
+
+    if (params.capabilities.textDocument && params.capabilities.textDocument.hover) {
+      const contentFormat = params.capabilities.textDocument.hover.contentFormat || [];
+      this.capabilities.markdownHover = contentFormat.indexOf(MarkupKind.Markdown) > -1;
+    }
+
     if (params.rootUri) {
       this.rootUri = params.rootUri;
     } else if (params.rootPath) {
@@ -128,85 +159,66 @@ export default class WorkspaceManager {
   }
 
   /**
-   * Based on a list of workspace folders from the client, create temporary directories
-   * that ink will use to compile the project
+   * Based on a list of workspace folders from the client, register the workspaces
+   * that ink will compile. Nothing is copied, compilers read the workspaces through
+   * the virtual file system.
    */
-  public async setupWorkspaceCopy(workspaceFolders: Array<WorkspaceFolder>|null) {
+  public async setupWorkspaces(workspaceFolders: WorkspaceFolder[] | null) {
     if (workspaceFolders) {
-      const hrstart = process.hrtime();
-      const promises: Array<Promise<string | void>> = [];
       for (const workspaceFolder of workspaceFolders) {
-        promises.push(
-          this.compilationDirectoryManager
-            .prepareTempDirectoryForCompilation(workspaceFolder)
-            .then(tempDir => {
-              if (tempDir) {
-                this.logger.console.info(
-                  `Temporary compilation directory successfully created at: ${tempDir}`
-                );
-                let workspace = this.workspaceDirectories.get(workspaceFolder.uri);
-
-                if (!workspace) {
-                  workspace = {
-                    folder: workspaceFolder
-                  };
-
-                  this.workspaceDirectories.set(workspaceFolder.uri, workspace);
-                }
-
-                workspace.temporaryCompilationDirectory = tempDir;
-
-                this.canCompile = true;
-              } else {
-                this.logger.console.error(`'tempDir' should have been set, but was undefined.`);
-                this.logger.reportServerError();
-              }
-            })
-            .catch(() => {
-              this.logger.reportServerError();
-            })
-        );
+        if (this.workspaceDirectories.has(workspaceFolder.uri)) {
+          continue;
+        }
+
+        const workspace: InkWorkspace = {
+          folder: workspaceFolder,
+          temporaryCompilationDirectory: this.compilationDirectoryManager.createTempDirectoryPath()
+        };
+
+        this.workspaceDirectories.set(workspaceFolder.uri, workspace);
+        this.logger.console.info(`Workspace registered: '${workspaceFolder.name}'.`);
       }
 
-      Promise.all(promises).then(() => {
-        const hrend = process.hrtime(hrstart);
-        const time = (hrend[0] * 1e9 + hrend[1]) / 1e9;
-        this.logger.console.info(
-          `All temporary compilation directories were created in ${time}s.`
-        );
-      });
+      this.canCompile = true;
     }
   }
 
   /**
-   * Initialize workspaces by fetching opened `WorkspaceFolder` from the client and
-   * creating the temporary directories which will hold copies of the Ink Project.
+   * Remove the temporary directories of all the workspaces, once the server
+   * shuts down.
+   */
+  public removeTemporaryDirectories(): Promise<void> {
+    return this.compilationDirectoryManager.removeTempDirectories(this.workspaceDirectories.values());
+  }
+
+  /**
+   * Initialize workspaces by fetching opened `WorkspaceFolder` from the client.
    * If the client does not support workspaces, presume that the rootUri is a single workspace.
    */
   public async initializeInkWorkspaces() {
     if (this.capabilities.workspaceFolder) {
       return this.connection.workspace.getWorkspaceFolders().then(
         workspaceFolders => {
-          return this.setupWorkspaceCopy(workspaceFolders);
+          return this.setupWorkspaces(workspaceFolders);
         },
         () => {
           return Promise.reject();
         }
       );
     } else if (this.rootUri) {
-      let folder = {} as WorkspaceFolder;
+      const folder = {} as WorkspaceFolder;
       folder.uri = this.rootUri;
       // for some uri file:///path/to/file, name becomes 'file'
       folder.name = this.rootUri.split('/').slice(-1)[0];
-      return this.setupWorkspaceCopy([folder]);
+      return this.setupWorkspaces([folder]);
     }
   }
 
   /**
-   * Update the content of the given document, in the temporary copy of the workspace,
-   * and compile the project.
+   * Compile the stories including the given document, which the compiler reads
+   * through the virtual file system.
    *
-   * @param document the document to update.
+   * @param document the document which changed.
    */
   public async updateDocumentAndCompileWorkspace(document: TextDocument) {
     if (!this.canCompile) {
@@ -231,50 +243,37 @@ export default class WorkspaceManager {
       }
     }
 
-    // Merge from the most specific settings -> least specific
-    let documentSettings = await this.fetchDocumentConfigurationSettings(document);
-    let defaultSettings = getDefaultSettings();
-    let settings = mergeSettings(documentSettings, this.initializationOptions);
-    settings = mergeSettings(settings, defaultSettings);
-
-    this.compilationDirectoryManager.updateFile(document, workspace).then(
-      () => {
-        this.compiler.compileStory(settings, workspace!);
-      },
-      error => {
-        this.logger.console.error(`Could not update '${document.uri}', ${error.message}`);
-        this.logger.reportServerError();
-      }
-    );
+    this.compileWorkspace(workspace, document.uri).catch(error => {
+      const basename = Path.basename(document.uri);
+      this.logger.console.error(
+        `Could not compile the workspace of ${basename} - ${error.message}`
+      );
+    });
   }
 
   /**
-   * Retrieve the created from params and copy them to the appropriate
-   * temporary directory.
+   * Update the mirrors of the files created, changed or deleted on disk, then
+   * compile the workspaces containing them.
    *
    * @param params parameters sent by the client.
    */
-  public async copyNewlyCreatedFiles(params: DidChangeWatchedFilesParams) {
-    for (const change of params.changes) {
-      if (change.type === FileChangeType.Created) {
-        if (this.canCompile) {
-          const workspace = this.getInkWorkspaceOfFilePath(change.uri);
-          if (workspace) {
-            await this.compilationDirectoryManager.copyNewlyCreatedFile(
-              change.uri,
-              workspace,
-            );
-          } else {
-            this.logger.console.error(
-              `The temporary workspace is undefined, cannot copy newly created files.`
-            );
-            this.logger.reportServerError();
-          }
-        } else {
-          this.logger.console.warn("The workspace is not ready yet, ignoring newly created files");
-        }
-      }
+  public async updateWatchedFiles(params: DidChangeWatchedFilesParams) {
+    await this.synchronizeFilesAndCompileWorkspaces(params.changes.map(change => change.uri));
+  }
+
+  /**
+   * Update the mirrors of the files and directories renamed by the client, then
+   * compile the workspaces containing them.
+   *
+   * @param params parameters sent by the client.
+   */
+  public async renameFiles(params: RenameFilesParams) {
+    const uris: string[] = [];
+    for (const file of params.files) {
+      uris.push(file.oldUri, file.newUri);
     }
+
+    await this.synchronizeFilesAndCompileWorkspaces(uris);
   }
 
   /**
@@ -310,23 +309,96 @@ export default class WorkspaceManager {
     return result;
   }
 
+  /**
+   * Returns the settings with which compile the given workspace, from the settings
+   * of the given document. Unless `ink.mainStoryPath` is set, the main story is
+   * the root of the `INCLUDE` graph from which the document is included.
+   *
+   * @param workspace the workspace to compile.
+   * @param documentUri the uri of the document from which fetch the settings,
+   *                    the settings of the workspace are used if omitted.
+   */
+  public async getCompilationSettings(
+    workspace: InkWorkspace,
+    documentUri?: string
+  ): Promise<InkConfigurationSettings> {
+    // Merge from the most specific settings -> least specific
+    const documentSettings = await this.fetchDocumentConfigurationSettings(
+      documentUri || workspace.folder.uri
+    );
+    const settings = mergeSettings(documentSettings, this.initializationOptions);
+
+    if (!settings.mainStoryPath) {
+      const mainStoryPath = await this.mainStoryResolver.resolveMainStoryPath(workspace, documentUri);
+      if (mainStoryPath) {
+        settings.mainStoryPath = mainStoryPath;
+      }
+    }
+
+    return mergeSettings(settings, getDefaultSettings());
+  }
+
+  /**
+   * Returns the path of the main story compiled for the given document, as
+   * configured or detected from the roots of the `INCLUDE` graph.
+   *
+   * @param workspace the workspace containing the main story.
+   * @param documentUri the uri of the document from which fetch the settings,
+   *                    the settings of the workspace are used if omitted.
+   */
+  public async getMainStoryPath(workspace: InkWorkspace, documentUri?: string): Promise<string> {
+    const settings = await this.getCompilationSettings(workspace, documentUri);
+    return Path.join(URI.parse(workspace.folder.uri).fsPath, settings.mainStoryPath);
+  }
+
+  /**
+   * Returns the paths of the main stories of the given workspace: the one set by
+   * `ink.mainStoryPath`, or the roots of the `INCLUDE` graph from which the
+   * document is included, every root if none include it.
+   *
+   * @param workspace the workspace containing the main stories.
+   * @param documentUri the uri of the document from which fetch the settings,
+   *                    the settings and roots of the workspace are used if omitted.
+   */
+  public async getMainStoryPaths(workspace: InkWorkspace, documentUri?: string): Promise<string[]> {
+    const documentSettings = await this.fetchDocumentConfigurationSettings(
+      documentUri || workspace.folder.uri
+    );
+    const settings = mergeSettings(documentSettings, this.initializationOptions);
+
+    if (!settings.mainStoryPath) {
+      const roots = await this.mainStoryResolver.getStoryRoots(workspace, documentUri);
+      if (roots.length > 0) {
+        return roots;
+      }
+    }
+
+    const mainStoryPath = mergeSettings(settings, getDefaultSettings()).mainStoryPath;
+    return [Path.join(URI.parse(workspace.folder.uri).fsPath, mainStoryPath)];
+  }
+
+  /**
+   * Returns the path of the document given as first argument of a command, along
+   * with its workspace. Without arguments, returns the main story of the first
+   * workspace.
+   *
+   * @param params the parameters of the command.
+   */
   public async getDocumentPathFromParams(
     params: ExecuteCommandParams
   ): Promise<DocumentPathAndWorkspace> {
-    let fileURI: string;
     if (!params.arguments || params.arguments.length < 1) {
-      fileURI = mergeSettings(this.initializationOptions, getDefaultSettings()).mainStoryPath;
-    } else {
-      if (typeof params.arguments[0] !== "string") {
-        this.logger.console.warn(
-          "The file URI provided is not a string, the behavior might be undefined. " +
-            `The argument contained: ${JSON.stringify(params.arguments[0])}`
-        );
-      }
+      return this.getMainStoryPathAndWorkspace();
+    }
 
-      fileURI = params.arguments[0] as string;
+    if (typeof params.arguments[0] !== "string") {
+      this.logger.console.warn(
+        "The file URI provided is not a string, the behavior might be undefined. " +
+          `The argument contained: ${JSON.stringify(params.arguments[0])}`
+      );
     }
 
+    const fileURI = params.arguments[0] as string;
     const documentPath = URI.parse(fileURI).fsPath;
     const basename = Path.basename(documentPath);
     let workspace = this.getInkWorkspaceOfFilePath(documentPath);
@@ -347,4 +419,81 @@ export default class WorkspaceManager {
 
     return Promise.resolve({ documentPath, workspace });
   }
+
+  /**
+   * Returns the path of the main story of the first workspace, as configured
+   * or detected from the roots of its `INCLUDE` graph.
+   */
+  private async getMainStoryPathAndWorkspace(): Promise<DocumentPathAndWorkspace> {
+    let workspace = this.workspaceDirectories.values().next().value as InkWorkspace | undefined;
+
+    if (!workspace) {
+      this.logger.console.warn("The temporary workspace does not exist, attempting to restore…");
+      await this.initializeInkWorkspaces();
+
+      workspace = this.workspaceDirectories.values().next().value as InkWorkspace | undefined;
+
+      if (!workspace) {
+        this.logger.console.error("The temporary workspace is still missing, aborting command.");
+        return Promise.reject("The temporary workspace is missing.");
+      }
+    }
+
+    const documentPath = await this.getMainStoryPath(workspace);
+
+    return { documentPath, workspace };
+  }
+
+  /**
+   * Synchronize the given files with their mirrors, then compile every story of
+   * the affected workspaces once.
+   *
+   * @param uris the uris of the files and directories which changed.
+   */
+  private async synchronizeFilesAndCompileWorkspaces(uris: string[]) {
+    if (!this.canCompile) {
+      this.logger.console.warn("The workspace is not ready yet, ignoring file changes");
+      return;
+    }
+
+    const affectedWorkspaces: Set<InkWorkspace> = new Set();
+    for (const uri of uris) {
+      const filePath = URI.parse(uri).fsPath;
+      const workspace = this.getInkWorkspaceOfFilePath(filePath);
+      if (!workspace) {
+        this.logger.console.warn(`'${filePath}' is not in the workspace, ignoring changes.`);
+        continue;
+      }
+
+      await this.compilationDirectoryManager.synchronizePath(filePath, workspace);
+      this.mainStoryResolver.invalidateIncludeGraph(workspace);
+      affectedWorkspaces.add(workspace);
+    }
+
+    for (const workspace of affectedWorkspaces) {
+      this.compileWorkspace(workspace).catch(error => {
+        this.logger.console.error(`Could not compile ${workspace.folder.name} - ${error.message}`);
+      });
+    }
+  }
+
+  /**
+   * Compile the stories of the given workspace which include the given document,
+   * each with the settings of its main file.
+   *
+   * @param workspace the workspace to compile.
+   * @param documentUri the uri of the document which changed, every story of the
+   *                    workspace is compiled if omitted.
+   */
+  private async compileWorkspace(workspace: InkWorkspace, documentUri?: string) {
+    const mainStoryPaths = await this.getMainStoryPaths(workspace, documentUri);
+
+    await Promise.all(
+      mainStoryPaths.map(async mainStoryPath => {
+        const mainStoryUri = URI.file(mainStoryPath).toString();
+        const settings = await this.getCompilationSettings(workspace, mainStoryUri);
+        await this.compiler.compileStory(settings, workspace);
+      })
+    );
+  }
 }
@@ -3,7 +3,7 @@
 // See LICENSE in the project root for license information.
 
 import { determinePlatform, mergeSettings } from "../helpers/configuration";
-import { PartialInkConfigurationSettings, Platform } from "../types/types";
+import { InkBackend, PartialInkConfigurationSettings, Platform } from "../types/types";
 
 describe("determinePlatform", () => {
   beforeEach(() => {
@@ -30,14 +30,18 @@ describe("mergeSettings", () => {
   const defaultSettings: PartialInkConfigurationSettings = {
     mainStoryPath: "main.ink",
     inklecateExecutablePath: "inklecate",
-    runThroughMono: false
+    runThroughMono: false,
+    compilationDelay: 300,
+    backend: InkBackend.Inklecate
   };
 
   it("doesn't replace already set properties", () => {
     const settings: PartialInkConfigurationSettings = {
       mainStoryPath: "mainStoryPath",
       inklecateExecutablePath: "inklecateExecutablePath",
-      runThroughMono: true
+      runThroughMono: true,
+      compilationDelay: 0,
+      backend: InkBackend.Inkjs
     };
 
     expect(mergeSettings(settings, defaultSettings)).toEqual(settings);
@@ -51,10 +55,23 @@ describe("mergeSettings", () => {
     expect(mergeSettings(settings, defaultSettings)).toEqual({
       mainStoryPath: "mainStoryPath",
       inklecateExecutablePath: "inklecate",
-      runThroughMono: false
+      runThroughMono: false,
+      compilationDelay: 300,
+      backend: InkBackend.Inklecate
     });
   });
 
+  it("replaces invalid compilation delays", () => {
+    const settings: PartialInkConfigurationSettings = { compilationDelay: -1 };
+    expect(mergeSettings(settings, defaultSettings).compilationDelay).toEqual(300);
+  });
+
+  it("replaces unknown backends", () => {
+    // Settings are sent by the client, their values aren't checked beforehand.
+    const settings: PartialInkConfigurationSettings = JSON.parse('{ "backend": "inkle" }');
+    expect(mergeSettings(settings, defaultSettings).backend).toEqual(InkBackend.Inklecate);
+  });
+
   it("returns the default settings is the provided settings are empty", () => {
     const settings: PartialInkConfigurationSettings = {};
     expect(mergeSettings(settings, defaultSettings)).toEqual(defaultSettings);
@@ -6,6 +6,7 @@ import * as Fs from "fs-extra";
 import * as Path from "path";
 
 import {
+  InkBackend,
   InkConfigurationSettings,
   PartialInkConfigurationSettings,
   Platform
@@ -28,7 +29,9 @@ export function getDefaultSettings() {
     defaultSetting = {
       inklecateExecutablePath: defaultInklecatePath(determinePlatform()),
       mainStoryPath: "main.ink",
-      runThroughMono: isRunThroughMono()
+      runThroughMono: isRunThroughMono(),
+      compilationDelay: 300,
+      backend: InkBackend.Inklecate
     };
   }
 
@@ -82,6 +85,8 @@ export function mergeSettings(
   let inklecatePath = settings.inklecateExecutablePath;
   let mainStoryPath = settings.mainStoryPath;
   let runThroughMono = settings.runThroughMono;
+  let compilationDelay = settings.compilationDelay;
+  let backend = settings.backend;
 
   if (typeof inklecatePath === "undefined" || !inklecatePath || inklecatePath.length === 0) {
     inklecatePath = defaultSettings.inklecateExecutablePath as string;
@@ -95,10 +100,20 @@ export function mergeSettings(
     runThroughMono = defaultSettings.runThroughMono as boolean;
   }
 
+  if (typeof compilationDelay !== "number" || compilationDelay < 0) {
+    compilationDelay = defaultSettings.compilationDelay as number;
+  }
+
+  if (backend !== InkBackend.Inklecate && backend !== InkBackend.Inkjs) {
+    backend = defaultSettings.backend as InkBackend;
+  }
+
   return {
     inklecateExecutablePath: inklecatePath,
     mainStoryPath,
-    runThroughMono
+    runThroughMono,
+    compilationDelay,
+    backend
   };
 }
 
@@ -10,8 +10,11 @@ import {
 import DocumentManager from "../helpers/Class/DocumentManager";
 import DiagnosticManager from "../helpers/Class/DiagnosticManager";
 import CompilationDirectoryManager from "../helpers/Class/CompilationDirectoryManager";
-import StoryRenderer from "../helpers/Class/StoryRenderer";
 import InklecateBackend from "../backends/InklecateBackend";
+import MainStoryResolver from "../helpers/Class/MainStoryResolver";
+import StoryPlayer from "../helpers/Class/StoryPlayer";
+import SyntaxTreeManager from "../helpers/Class/SyntaxTreeManager";
+import VirtualFileSystem from "../helpers/Class/VirtualFileSystem";
 import WorkspaceManager from "../helpers/Class/WorkspaceManager";
 
 import mockedLogger from "../tests/helpers/logger";
@@ -25,13 +28,25 @@ const connection = createConnection(ProposedFeatures.all);
 const logger = mockedLogger.logger;
 const documentManager = new DocumentManager();
 const diagnosticManager = new DiagnosticManager(connection, documentManager, logger);
-const compilationDirectoryManager = new CompilationDirectoryManager(logger);
-const storyRenderer = new StoryRenderer(connection);
-const inklecateBackend = new InklecateBackend(storyRenderer, diagnosticManager, logger);
+const virtualFileSystem = new VirtualFileSystem(documentManager);
+const compilationDirectoryManager = new CompilationDirectoryManager(virtualFileSystem, logger);
+const inklecateBackend = new InklecateBackend(
+  compilationDirectoryManager,
+  diagnosticManager,
+  new StoryPlayer(logger),
+  logger
+);
+const mainStoryResolver = new MainStoryResolver(
+  connection,
+  documentManager,
+  new SyntaxTreeManager(documentManager, logger),
+  logger
+);
 const workspaceManager = new WorkspaceManager(
   connection,
   documentManager,
   compilationDirectoryManager,
+  mainStoryResolver,
   inklecateBackend,
   logger
 );
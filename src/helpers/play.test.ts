@@ -0,0 +1,50 @@
+// Copyright (c) Frédéric Maquin <fred@ephread.com>
+// Licensed under the MIT License.
+// See LICENSE in the project root for license information.
+
+import { parsePlayOptions } from "./play";
+
+describe("parsePlayOptions", () => {
+  it("accepts missing options", () => {
+    expect(parsePlayOptions(undefined)).toBeUndefined();
+    expect(parsePlayOptions(null)).toBeUndefined();
+  });
+
+  it("accepts start paths and variable overrides", () => {
+    const options = parsePlayOptions({
+      startPath: "chapter_2.docks",
+      variables: { gold: 10, is_night: true, name: "Sam" }
+    });
+
+    expect(options).toEqual({
+      startPath: "chapter_2.docks",
+      variables: { gold: 10, is_night: true, name: "Sam" }
+    });
+  });
+
+  it("rejects seeds which aren't integers", () => {
+    expect(parsePlayOptions({ seed: 42 })).toEqual({ seed: 42 });
+    expect(() => parsePlayOptions({ seed: 4.2 })).toThrow(/must be an integer/);
+    expect(() => parsePlayOptions({ seed: "42" })).toThrow(/must be an integer/);
+  });
+
+  it("rejects requests for state notifications which aren't booleans", () => {
+    expect(parsePlayOptions({ notifyStoryState: true })).toEqual({ notifyStoryState: true });
+    expect(() => parsePlayOptions({ notifyStoryState: "yes" })).toThrow(/must be a boolean/);
+  });
+
+  it("rejects invalid start paths", () => {
+    expect(() => parsePlayOptions({ startPath: "chapter_2\n~ gold = 0" })).toThrow(
+      /not a valid knot or stitch path/
+    );
+    expect(() => parsePlayOptions({ startPath: 2 })).toThrow(/not a valid knot or stitch path/);
+  });
+
+  it("rejects invalid variable overrides", () => {
+    expect(() => parsePlayOptions({ variables: { "gold = 0": 1 } })).toThrow(
+      /not a valid variable name/
+    );
+    expect(() => parsePlayOptions({ variables: { gold: [1] } })).toThrow(/must be a number/);
+    expect(() => parsePlayOptions({ variables: { gold: Infinity } })).toThrow(/must be a number/);
+  });
+});
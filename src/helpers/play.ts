@@ -0,0 +1,104 @@
+// Copyright (c) Frédéric Maquin <fred@ephread.com>
+// Licensed under the MIT License.
+// See LICENSE in the project root for license information.
+
+import { InkError, InkValue, PlayOptions } from "../types/types";
+
+import { IDENTIFIER_CHARACTERS, isObject } from "./utils";
+
+const IDENTIFIER_PATTERN = new RegExp(`^[${IDENTIFIER_CHARACTERS}]+$`);
+const PATH_PATTERN = new RegExp(`^[${IDENTIFIER_CHARACTERS}]+(\\.[${IDENTIFIER_CHARACTERS}]+)?$`);
+
+/**
+ * Validate the options sent with the `play-story` command.
+ *
+ * @param argument the raw argument sent by the client.
+ * @returns the options, or `undefined` if the argument is missing.
+ * @throws an error describing the first invalid option.
+ */
+export function parsePlayOptions(argument: unknown): PlayOptions | undefined {
+  if (argument === undefined || argument === null) {
+    return undefined;
+  }
+
+  if (!isObject(argument)) {
+    throw new Error("the play options must be an object.");
+  }
+
+  const { startPath, seed, notifyStoryState, variables } = argument;
+  const options: PlayOptions = {};
+
+  if (startPath !== undefined) {
+    if (typeof startPath !== "string" || !PATH_PATTERN.test(startPath)) {
+      throw new Error(`'${startPath}' is not a valid knot or stitch path.`);
+    }
+
+    options.startPath = startPath;
+  }
+
+  if (seed !== undefined) {
+    if (typeof seed !== "number" || !Number.isInteger(seed)) {
+      throw new Error("the seed must be an integer.");
+    }
+
+    options.seed = seed;
+  }
+
+  if (notifyStoryState !== undefined) {
+    if (typeof notifyStoryState !== "boolean") {
+      throw new Error("'notifyStoryState' must be a boolean.");
+    }
+
+    options.notifyStoryState = notifyStoryState;
+  }
+
+  if (variables !== undefined) {
+    if (!isObject(variables)) {
+      throw new Error("the variable overrides must be an object.");
+    }
+
+    options.variables = {};
+    for (const name of Object.keys(variables)) {
+      const value = variables[name];
+
+      if (!IDENTIFIER_PATTERN.test(name)) {
+        throw new Error(`'${name}' is not a valid variable name.`);
+      }
+
+      if (!isInkValue(value)) {
+        throw new Error(`the value of '${name}' must be a number, a boolean or a string.`);
+      }
+
+      options.variables[name] = value;
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Returns a random seed, for sessions which weren't given one.
+ */
+export function createSeed(): number {
+  return Math.floor(Math.random() * 1000000);
+}
+
+/**
+ * Returns the message reporting the given compilation error to a play session.
+ */
+export function getCompilationErrorMessage(error: InkError): string {
+  const location = `in '${error.filePath}' at line ${error.lineNumber}`;
+  return `${error.type} while compiling the story: ${error.message} (${location})`;
+}
+
+function isInkValue(value: unknown): value is InkValue {
+  switch (typeof value) {
+    case "number":
+      return isFinite(value);
+    case "boolean":
+    case "string":
+      return true;
+    default:
+      return false;
+  }
+}
@@ -0,0 +1,98 @@
+// Copyright (c) Frédéric Maquin <fred@ephread.com>
+// Licensed under the MIT License.
+// See LICENSE in the project root for license information.
+
+import * as Fs from "fs-extra";
+import * as Os from "os";
+import * as Path from "path";
+
+import URI from "vscode-uri";
+
+import { InkWorkspace, StorySnapshot } from "../types/types";
+
+import { getSnapshotPath, readSnapshot, SNAPSHOT_DIRECTORY, writeSnapshot } from "./snapshot";
+
+const directory = Path.join(Os.tmpdir(), "ink.language.server.snapshot.test");
+
+const workspace: InkWorkspace = {
+  folder: { uri: URI.file(directory).toString(), name: "story" }
+};
+
+const snapshot: StorySnapshot = {
+  playOptions: { seed: 42, startPath: "harbour" },
+  choices: [{ index: 1, text: "Board the ship" }],
+  state: { inkSaveVersion: 10, flows: {}, variablesState: { gold: 10 }, turnIdx: 0 }
+};
+
+describe("getSnapshotPath", () => {
+  it("stores snapshots in the workspace", () => {
+    expect(getSnapshotPath(workspace, "Chapter 2")).toEqual(
+      Path.join(directory, SNAPSHOT_DIRECTORY, "Chapter 2.json")
+    );
+  });
+
+  it("rejects names which aren't valid file names", () => {
+    expect(() => getSnapshotPath(workspace, "../chapter_2")).toThrow(
+      "'../chapter_2' is not a valid snapshot name"
+    );
+    expect(() => getSnapshotPath(workspace, 2)).toThrow("'2' is not a valid snapshot name");
+  });
+});
+
+describe("readSnapshot", () => {
+  afterEach(() => {
+    Fs.removeSync(directory);
+  });
+
+  it("reads the snapshots written", async () => {
+    await writeSnapshot(workspace, "chapter_2", snapshot);
+
+    expect(await readSnapshot(workspace, "chapter_2")).toEqual(snapshot);
+  });
+
+  it("rejects snapshots which don't exist", async () => {
+    await expect(readSnapshot(workspace, "chapter_2")).rejects.toThrow(
+      "the snapshot 'chapter_2' doesn't exist."
+    );
+  });
+
+  it("rejects snapshots saved in another format", async () => {
+    const snapshotPath = getSnapshotPath(workspace, "chapter_2");
+
+    Fs.outputFileSync(snapshotPath, JSON.stringify({ ...snapshot, version: 0 }));
+    await expect(readSnapshot(workspace, "chapter_2")).rejects.toThrow(
+      "the snapshot 'chapter_2' was saved in an unsupported format."
+    );
+
+    Fs.outputFileSync(snapshotPath, "{");
+    await expect(readSnapshot(workspace, "chapter_2")).rejects.toThrow(
+      "the snapshot 'chapter_2' is corrupted."
+    );
+  });
+
+  it("rejects snapshots whose content is invalid", async () => {
+    const snapshotPath = getSnapshotPath(workspace, "chapter_2");
+    const write = (content: object) =>
+      Fs.outputFileSync(snapshotPath, JSON.stringify({ ...snapshot, ...content, version: 1 }));
+
+    write({ playOptions: { seed: 42, startPath: "harbour\n~ gold = 0" } });
+    await expect(readSnapshot(workspace, "chapter_2")).rejects.toThrow(
+      "the snapshot 'chapter_2' is corrupted, 'harbour\n~ gold = 0' is not a valid knot or stitch path."
+    );
+
+    write({ playOptions: null });
+    await expect(readSnapshot(workspace, "chapter_2")).rejects.toThrow(
+      "the snapshot 'chapter_2' is corrupted."
+    );
+
+    write({ choices: [{ index: "1", text: "Board the ship" }] });
+    await expect(readSnapshot(workspace, "chapter_2")).rejects.toThrow(
+      "the snapshot 'chapter_2' is corrupted."
+    );
+
+    write({ state: { inkSaveVersion: 10, flows: {}, variablesState: "gold" } });
+    await expect(readSnapshot(workspace, "chapter_2")).rejects.toThrow(
+      "the snapshot 'chapter_2' is corrupted."
+    );
+  });
+});
@@ -0,0 +1,124 @@
+// Copyright (c) Frédéric Maquin <fred@ephread.com>
+// Licensed under the MIT License.
+// See LICENSE in the project root for license information.
+
+import * as Fs from "fs-extra";
+import * as Path from "path";
+
+import Uri from "vscode-uri";
+
+import { InkWorkspace, PlayOptions, RuntimeChoice, StorySnapshot } from "../types/types";
+
+import { parsePlayOptions } from "./play";
+import { isObject } from "./utils";
+
+/** Directory containing the snapshots, relative to the root of the workspace. */
+export const SNAPSHOT_DIRECTORY = ".ink-snapshots";
+
+/** Version of the snapshot format, bumped whenever it changes incompatibly. */
+const SNAPSHOT_VERSION = 1;
+
+const NAME_PATTERN = /^[\w\- ]+$/;
+
+/**
+ * Returns the path of the snapshot file with the given name.
+ *
+ * @param inkWorkspace the workspace containing the snapshot.
+ * @param name the name of the snapshot.
+ * @throws an error if the name can't be used as a file name.
+ */
+export function getSnapshotPath(inkWorkspace: InkWorkspace, name: unknown): string {
+  if (typeof name !== "string" || !NAME_PATTERN.test(name)) {
+    throw new Error(
+      `'${name}' is not a valid snapshot name, use letters, digits, spaces, '-' and '_' only.`
+    );
+  }
+
+  const rootPath = Uri.parse(inkWorkspace.folder.uri).fsPath;
+  return Path.join(rootPath, SNAPSHOT_DIRECTORY, `${name}.json`);
+}
+
+/**
+ * Save the given snapshot into the workspace, replacing any snapshot with the same name.
+ *
+ * @param inkWorkspace the workspace in which the snapshot should be saved.
+ * @param name the name of the snapshot.
+ * @param snapshot the snapshot to save.
+ */
+export async function writeSnapshot(
+  inkWorkspace: InkWorkspace,
+  name: unknown,
+  snapshot: StorySnapshot
+): Promise<void> {
+  const snapshotPath = getSnapshotPath(inkWorkspace, name);
+  const content = { version: SNAPSHOT_VERSION, ...snapshot };
+
+  await Fs.outputFile(snapshotPath, JSON.stringify(content, null, 2));
+}
+
+/**
+ * Read the snapshot with the given name from the workspace.
+ *
+ * @param inkWorkspace the workspace containing the snapshot.
+ * @param name the name of the snapshot.
+ * @returns a promise resolved with the snapshot.
+ * @throws an error if the snapshot doesn't exist or can't be read.
+ */
+export async function readSnapshot(
+  inkWorkspace: InkWorkspace,
+  name: unknown
+): Promise<StorySnapshot> {
+  const snapshotPath = getSnapshotPath(inkWorkspace, name);
+
+  if (!(await Fs.pathExists(snapshotPath))) {
+    throw new Error(`the snapshot '${name}' doesn't exist.`);
+  }
+
+  let content: unknown;
+  try {
+    content = JSON.parse(await Fs.readFile(snapshotPath, "utf8"));
+  } catch (error) {
+    throw new Error(`the snapshot '${name}' is corrupted.`);
+  }
+
+  if (!isObject(content) || content.version !== SNAPSHOT_VERSION) {
+    throw new Error(`the snapshot '${name}' was saved in an unsupported format.`);
+  }
+
+  const { choices, state } = content;
+  let playOptions: PlayOptions | undefined;
+  try {
+    playOptions = parsePlayOptions(content.playOptions);
+  } catch (error) {
+    throw new Error(`the snapshot '${name}' is corrupted, ${error.message}`);
+  }
+
+  if (!playOptions || !isChoicePath(choices) || !isStoryState(state)) {
+    throw new Error(`the snapshot '${name}' is corrupted.`);
+  }
+
+  return { playOptions, choices, state };
+}
+
+/**
+ * Returns `true` if the given value looks like a state saved by the ink runtime,
+ * whether it still matches the story is checked when it's restored.
+ */
+function isStoryState(value: unknown): boolean {
+  return (
+    isObject(value) &&
+    typeof value.inkSaveVersion === "number" &&
+    isObject(value.variablesState) &&
+    (isObject(value.flows) || Array.isArray(value.callstackThreads))
+  );
+}
+
+function isChoicePath(value: unknown): value is RuntimeChoice[] {
+  return (
+    Array.isArray(value) &&
+    value.every(
+      choice =>
+        isObject(choice) && typeof choice.index === "number" && typeof choice.text === "string"
+    )
+  );
+}
@@ -6,11 +6,12 @@ import * as Fs from "fs-extra";
 import * as Os from "os";
 import * as Path from "path";
 
-import { DiagnosticSeverity } from "vscode-languageserver";
+import { DiagnosticSeverity, Range } from "vscode-languageserver";
 
 import { InkErrorType } from "../types/types";
 
 import {
+  getDiagnosticRange,
   getDiagnosticSeverityFromInkErrorType,
   isFilePathChildOfDirPath,
   isInkFile
@@ -85,6 +86,36 @@ describe("getDiagnosticSeverityFromInkErrorType", () => {
   });
 });
 
+describe("getDiagnosticRange", () => {
+  it("returns the range of unknown divert targets", () => {
+    expect(
+      getDiagnosticRange("{x} -> foo_bar -> foo", 3, "Divert target not found: '-> foo'")
+    ).toEqual(Range.create(3, 18, 3, 21));
+
+    expect(
+      getDiagnosticRange("* [Go] -> chapter.end", 0, "Divert target not found: '-> chapter.end'")
+    ).toEqual(Range.create(0, 10, 0, 21));
+  });
+
+  it("returns the range of unresolved names", () => {
+    expect(getDiagnosticRange("~ health = max_health - x", 1, "Unresolved variable: x")).toEqual(
+      Range.create(1, 24, 1, 25)
+    );
+
+    expect(
+      getDiagnosticRange("VAR health = 10", 0, "Variable 'health' has already been declared")
+    ).toEqual(Range.create(0, 4, 0, 10));
+  });
+
+  it("returns the range of the content of the line when no token can be found", () => {
+    expect(getDiagnosticRange("  Hello {world  ", 2, "Expected closing brace")).toEqual(
+      Range.create(2, 2, 2, 14)
+    );
+
+    expect(getDiagnosticRange("", 2, "Unresolved variable: x")).toEqual(Range.create(2, 0, 3, 0));
+  });
+});
+
 describe("isInkFile", () => {
   describe("allowing directories", () => {
     it("returns true", () => {
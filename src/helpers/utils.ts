@@ -5,12 +5,22 @@
 import * as Fs from "fs-extra";
 import * as Path from "path";
 
-import { DiagnosticSeverity } from "vscode-languageserver/lib/main";
+import { DiagnosticSeverity, Range } from "vscode-languageserver/lib/main";
+import Uri from "vscode-uri";
 
-import { IConnectionLogger, InkErrorType } from "../types/types";
+import {
+  IConnectionLogger,
+  InkConfigurationSettings,
+  InkError,
+  InkErrorType,
+  InkWorkspace
+} from "../types/types";
 
 const INK_EXTENSIONS = ["ink", "ink2"];
 
+/** Characters which can be part of an ink identifier. */
+export const IDENTIFIER_CHARACTERS = "A-Za-z0-9_\\u00C0-\\uFFFF";
+
 /**
  * Returns `true` if `filePath` point to a file that is a child of
  * the directory `dirPath` points to.
@@ -42,6 +52,51 @@ export function getDiagnosticSeverityFromInkErrorType(type: InkErrorType): Diagn
   }
 }
 
+/**
+ * Returns the range of the token an inklecate error refers to, such as the
+ * target of "Divert target not found: '-> foo'" or the name of an unresolved
+ * variable. If no token can be found in the line, the range spans the content
+ * of the line, leading and trailing whitespaces excluded.
+ *
+ * @param lineText the text of the line on which the error was reported.
+ * @param line the zero-based index of the line.
+ * @param message the message of the error.
+ */
+export function getDiagnosticRange(lineText: string, line: number, message: string): Range {
+  const tokens = (message.match(/'[^']+'/g) || []).map(token => token.slice(1, -1));
+
+  const trailingName = message.match(new RegExp(`:\\s*([${IDENTIFIER_CHARACTERS}.]+)\\s*$`));
+  if (trailingName) {
+    tokens.push(trailingName[1]);
+  }
+
+  for (const token of tokens) {
+    const divertTarget = token.match(/^->\s*(.+)$/);
+    const name = (divertTarget ? divertTarget[1] : token).trim();
+    const escapedName = name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+    const patterns = [
+      `->\\s*(${escapedName})(?![${IDENTIFIER_CHARACTERS}])`,
+      `(?:^|[^${IDENTIFIER_CHARACTERS}.])(${escapedName})(?![${IDENTIFIER_CHARACTERS}])`
+    ];
+
+    for (const pattern of divertTarget ? patterns : patterns.slice(1)) {
+      const match = lineText.match(new RegExp(pattern));
+      if (match && match.index !== undefined && name.length > 0) {
+        const start = match.index + match[0].length - match[1].length;
+        return Range.create(line, start, line, start + match[1].length);
+      }
+    }
+  }
+
+  const contentStart = lineText.length - lineText.replace(/^\s+/, "").length;
+  const contentEnd = lineText.replace(/\s+$/, "").length;
+
+  return contentEnd > contentStart
+    ? Range.create(line, contentStart, line, contentEnd)
+    : Range.create(line, 0, line + 1, 0);
+}
+
 /**
  * Returns `true` if the path is an ink file, `false` otherwise.
  * An ink file is terminating by `.ink` or `.ink2`.
@@ -74,3 +129,87 @@ export function isInkFile(filePath: string, allowDirectories: boolean, logger: I
     return false;
   }
 }
+
+/**
+ * Returns the path of the story compiled from the main ink file of the given
+ * workspace, or `undefined` if the workspace has no temporary directory.
+ *
+ * @param settings the configuration settings of the workspace.
+ * @param inkWorkspace the workspace of the story.
+ */
+export function getCompiledStoryPath(
+  settings: InkConfigurationSettings,
+  inkWorkspace: InkWorkspace
+): string | undefined {
+  const tempDir = inkWorkspace.temporaryCompilationDirectory;
+  if (!tempDir) {
+    return undefined;
+  }
+
+  return `${Path.join(tempDir, settings.mainStoryPath)}.json`;
+}
+
+/**
+ * Parse the output of the ink compiler, inklecate or inkjs, and returns
+ * any errors or warnings found.
+ *
+ * @param text the output of the compiler.
+ * @param mainStoryPathPrefix the prefix path for the real files locations (i. e. not the
+ *                            temporary directory).
+ * @param workspace the workspace for which the compilation took place.
+ */
+export function parseInkErrors(
+  text: string,
+  mainStoryPathPrefix: string,
+  workspace: InkWorkspace
+): InkError[] {
+  // Strip Byte order mark
+  text = text.replace(/^\uFEFF/, "");
+  if (text.length === 0) {
+    return [];
+  }
+
+  const lines = text.split("\n");
+  const inkErrors: InkError[] = [];
+
+  for (const line of lines) {
+    const errorMatches = line
+      .trim()
+      .match(/^(ERROR|WARNING|RUNTIME ERROR|RUNTIME WARNING|TODO): ('([^']+)' )?line (\d+): (.+)/);
+
+    if (errorMatches) {
+      const errorType = InkErrorType.parse(errorMatches[1]);
+      const path = Path.join(
+        Uri.parse(workspace.folder.uri).fsPath,
+        mainStoryPathPrefix,
+        errorMatches[3]
+      );
+
+      // Runtime errors can only be reported while playing the story.
+      if (
+        errorType &&
+        errorType !== InkErrorType.RuntimeError &&
+        errorType !== InkErrorType.RuntimeWarning
+      ) {
+        inkErrors.push({
+          filePath: path,
+          lineNumber: parseInt(errorMatches[4]),
+          message: errorMatches[5],
+          type: errorType
+        });
+      }
+    }
+  }
+
+  return inkErrors;
+}
+
+/**
+ * Returns `true` if the given value, sent by the client or read from disk,
+ * is an object whose properties can be checked.
+ *
+ * @param value the value to test.
+ */
+export function isObject(value: unknown): value is { [key: string]: unknown } {
+  return typeof value === "object" && value !== null;
+}
@@ -0,0 +1,129 @@
+// Copyright (c) Frédéric Maquin <fred@ephread.com>
+// Licensed under the MIT License.
+// See LICENSE in the project root for license information.
+
+/** A function provided by the ink runtime. */
+export interface BuiltinFunction {
+  name: string;
+  parameters: string[];
+  documentation: string;
+}
+
+/** Functions provided by the ink runtime, callable from any story. */
+export const BUILTIN_FUNCTIONS: BuiltinFunction[] = [
+  {
+    name: "RANDOM",
+    parameters: ["min", "max"],
+    documentation: "Returns a random integer between `min` and `max`, both included."
+  },
+  {
+    name: "SEED_RANDOM",
+    parameters: ["seed"],
+    documentation: "Seeds the random number generator, making subsequent random values predictable."
+  },
+  {
+    name: "CHOICE_COUNT",
+    parameters: [],
+    documentation: "Returns the number of choices generated so far in the current chunk."
+  },
+  {
+    name: "TURNS",
+    parameters: [],
+    documentation: "Returns the number of turns (choices taken) since the start of the story."
+  },
+  {
+    name: "TURNS_SINCE",
+    parameters: ["-> target"],
+    documentation:
+      "Returns the number of turns since `target` was last visited, or `-1` if it was never visited."
+  },
+  {
+    name: "READ_COUNT",
+    parameters: ["-> target"],
+    documentation: "Returns the number of times `target` has been visited."
+  },
+  {
+    name: "INT",
+    parameters: ["value"],
+    documentation: "Converts `value` to an integer, truncating it."
+  },
+  {
+    name: "FLOOR",
+    parameters: ["value"],
+    documentation: "Rounds `value` down to the nearest integer, returned as a float."
+  },
+  {
+    name: "CEILING",
+    parameters: ["value"],
+    documentation: "Rounds `value` up to the nearest integer, returned as a float."
+  },
+  {
+    name: "FLOAT",
+    parameters: ["value"],
+    documentation: "Converts `value` to a float."
+  },
+  {
+    name: "POW",
+    parameters: ["base", "exponent"],
+    documentation: "Returns `base` raised to the power of `exponent`."
+  },
+  {
+    name: "MIN",
+    parameters: ["a", "b"],
+    documentation: "Returns the smaller of `a` and `b`."
+  },
+  {
+    name: "MAX",
+    parameters: ["a", "b"],
+    documentation: "Returns the larger of `a` and `b`."
+  },
+  {
+    name: "LIST_VALUE",
+    parameters: ["item"],
+    documentation: "Returns the numerical value of a list item."
+  },
+  {
+    name: "LIST_COUNT",
+    parameters: ["list"],
+    documentation: "Returns the number of items set in `list`."
+  },
+  {
+    name: "LIST_MIN",
+    parameters: ["list"],
+    documentation: "Returns the item of `list` with the lowest value."
+  },
+  {
+    name: "LIST_MAX",
+    parameters: ["list"],
+    documentation: "Returns the item of `list` with the highest value."
+  },
+  {
+    name: "LIST_RANDOM",
+    parameters: ["list"],
+    documentation: "Returns an item of `list`, picked at random."
+  },
+  {
+    name: "LIST_ALL",
+    parameters: ["list"],
+    documentation: "Returns every item of the lists `list` belongs to, whether they are set or not."
+  },
+  {
+    name: "LIST_INVERT",
+    parameters: ["list"],
+    documentation: "Returns the items of the lists `list` belongs to which are not set in `list`."
+  },
+  {
+    name: "LIST_RANGE",
+    parameters: ["list", "min", "max"],
+    documentation: "Returns the items of `list` whose values are between `min` and `max`, included."
+  }
+];
+
+/**
+ * Returns the built-in function named `name`, if any.
+ *
+ * @param name the name of the function.
+ */
+export function findBuiltinFunction(name: string): BuiltinFunction | undefined {
+  return BUILTIN_FUNCTIONS.find(builtin => builtin.name === name);
+}
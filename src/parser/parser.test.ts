@@ -0,0 +1,170 @@
+// Copyright (c) Frédéric Maquin <fred@ephread.com>
+// Licensed under the MIT License.
+// See LICENSE in the project root for license information.
+
+import { parse } from "./parser";
+
+import { ReferenceKind, ReferenceNode, SyntaxKind } from "../types/syntax";
+
+const uri = "file:///project/main.ink";
+
+function describeReferences(references: ReferenceNode[]) {
+  return references.map(reference => ({
+    kind: reference.referenceKind,
+    path: reference.path.map(component => component.name).join(".")
+  }));
+}
+
+describe("parse", () => {
+  it("parses knots, functions, stitches and their parameters", () => {
+    const tree = parse(
+      [
+        "Hello",
+        "=== intro ===",
+        "= first(x, ref y, -> z)",
+        "Text",
+        "= second",
+        "== function add(a, b) ==",
+        "~ return a + b"
+      ].join("\n"),
+      uri
+    );
+
+    expect(tree.knots.map(knot => knot.name.name)).toEqual(["intro", "add"]);
+    expect(tree.knots[0].kind).toEqual(SyntaxKind.Knot);
+    expect(tree.knots[1].kind).toEqual(SyntaxKind.Function);
+    expect(tree.knots[0].stitches.map(stitch => stitch.name.name)).toEqual(["first", "second"]);
+
+    const first = tree.knots[0].stitches[0];
+    expect(first.parameters.map(parameter => parameter.name.name)).toEqual(["x", "y", "z"]);
+    expect(first.parameters[1].isReference).toBeTruthy();
+    expect(first.parameters[2].isDivertTarget).toBeTruthy();
+
+    expect(tree.root.range.end.line).toEqual(0);
+    expect(tree.knots[0].range.start.line).toEqual(1);
+    expect(tree.knots[0].range.end.line).toEqual(4);
+    expect(first.range.end.line).toEqual(3);
+    expect(tree.knots[1].name.range).toEqual({
+      start: { line: 5, character: 12 },
+      end: { line: 5, character: 15 }
+    });
+  });
+
+  it("parses global declarations and includes", () => {
+    const tree = parse(
+      [
+        "INCLUDE chapters/act1.ink",
+        "VAR health = 10",
+        "CONST MAX = 20",
+        "LIST colours = red, (green), blue = 5",
+        "EXTERNAL playSound(name)"
+      ].join("\n"),
+      uri
+    );
+
+    expect(tree.includes[0].path).toEqual("chapters/act1.ink");
+    expect(tree.includes[0].pathRange.start.character).toEqual(8);
+    expect(
+      tree.variables.map(variable => [variable.kind, variable.name.name, variable.value])
+    ).toEqual([[SyntaxKind.Variable, "health", "10"], [SyntaxKind.Constant, "MAX", "20"]]);
+    expect(
+      tree.lists[0].items.map(item => [item.name.name, item.isInitiallySet, item.value])
+    ).toEqual([["red", false, undefined], ["green", true, undefined], ["blue", false, 5]]);
+    expect(tree.externals[0].name.name).toEqual("playSound");
+    expect(tree.externals[0].parameters[0].name.name).toEqual("name");
+  });
+
+  it("parses labels, temporary variables and references", () => {
+    const tree = parse(
+      [
+        "=== knot ===",
+        "~ temp count = TURNS_SINCE(-> other.stitch)",
+        "* (pick) {count > 2} Pick -> other ->",
+        "- (loop) {visited: Back|Never} <> {add(1, x)}",
+        "<- thread_knot(2)",
+        "~ count++",
+        "->-> ",
+        "-> END"
+      ].join("\n"),
+      uri
+    );
+
+    const knot = tree.knots[0];
+    expect(knot.labels.map(label => [label.name.name, label.isChoice])).toEqual([
+      ["pick", true],
+      ["loop", false]
+    ]);
+    expect(knot.temporaries[0].name.name).toEqual("count");
+    expect(describeReferences(knot.references)).toEqual([
+      { kind: ReferenceKind.FunctionCall, path: "TURNS_SINCE" },
+      { kind: ReferenceKind.DivertTarget, path: "other.stitch" },
+      { kind: ReferenceKind.Read, path: "count" },
+      { kind: ReferenceKind.Tunnel, path: "other" },
+      { kind: ReferenceKind.Read, path: "visited" },
+      { kind: ReferenceKind.FunctionCall, path: "add" },
+      { kind: ReferenceKind.Read, path: "x" },
+      { kind: ReferenceKind.Thread, path: "thread_knot" },
+      { kind: ReferenceKind.Assignment, path: "count" },
+      { kind: ReferenceKind.Divert, path: "END" }
+    ]);
+  });
+
+  it("ignores comments and the text of sequences", () => {
+    const tree = parse(
+      [
+        "{&Hello|Hi} there // -> commented",
+        "/* -> also_commented",
+        "   -> still_commented */ -> visible",
+        "{stopping: one|two}"
+      ].join("\n"),
+      uri
+    );
+
+    expect(describeReferences(tree.root.references)).toEqual([
+      { kind: ReferenceKind.Divert, path: "visible" }
+    ]);
+  });
+
+  it("parses multiline conditionals", () => {
+    const tree = parse(
+      ["{ health > 2:", "  - strong: -> fight", "  - else: -> flee", "}", "- (after) Done"].join(
+        "\n"
+      ),
+      uri
+    );
+
+    expect(describeReferences(tree.root.references)).toEqual([
+      { kind: ReferenceKind.Read, path: "health" },
+      { kind: ReferenceKind.Read, path: "strong" },
+      { kind: ReferenceKind.Divert, path: "fight" },
+      { kind: ReferenceKind.Divert, path: "flee" }
+    ]);
+    expect(tree.root.labels.map(label => label.name.name)).toEqual(["after"]);
+  });
+
+  it("keeps producing a tree from incomplete code", () => {
+    const tree = parse(
+      ["=== ", "-> ", "=== knot(a, ", "{x", "= stitch", "VAR = 2", "-> knot."].join("\n"),
+      uri
+    );
+
+    expect(tree.knots.map(knot => knot.name.name)).toEqual(["knot"]);
+    expect(tree.knots[0].parameters.map(parameter => parameter.name.name)).toEqual(["a"]);
+    expect(tree.knots[0].stitches.map(stitch => stitch.name.name)).toEqual(["stitch"]);
+    expect(describeReferences(tree.knots[0].stitches[0].references)).toEqual([
+      { kind: ReferenceKind.Divert, path: "knot" }
+    ]);
+    expect(tree.errors.map(error => error.range.start.line)).toEqual([0, 2, 4, 5]);
+  });
+
+  it("reuses the lines which did not change", () => {
+    const previousTree = parse(["=== knot ===", "Hello", "-> END"].join("\n"), uri, 1);
+    const tree = parse(["=== knot ===", "Hello world", "-> END"].join("\n"), uri, 2, previousTree);
+
+    expect(tree.version).toEqual(2);
+    expect(tree.lines[0]).toBe(previousTree.lines[0]);
+    expect(tree.lines[1]).not.toBe(previousTree.lines[1]);
+    expect(tree.lines[2]).toBe(previousTree.lines[2]);
+    expect(tree.knots[0].references[0].range.start.line).toEqual(2);
+  });
+});
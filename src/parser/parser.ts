@@ -0,0 +1,1061 @@
+// Copyright (c) Frédéric Maquin <fred@ephread.com>
+// Licensed under the MIT License.
+// See LICENSE in the project root for license information.
+
+import { Range } from "vscode-languageserver";
+
+import {
+  FlowNode,
+  Identifier,
+  InkSyntaxTree,
+  LineState,
+  LineType,
+  ParsedLine,
+  ParsedParameter,
+  ParsedReference,
+  ReferenceKind,
+  ReferenceNode,
+  Span,
+  SyntaxKind
+} from "../types/syntax";
+
+/** Keywords which can't be read as variables in expressions. */
+const EXPRESSION_KEYWORDS = [
+  "and",
+  "or",
+  "not",
+  "true",
+  "false",
+  "mod",
+  "has",
+  "hasnt",
+  "temp",
+  "return",
+  "ref",
+  "else"
+];
+
+/** Keywords which can prefix the content of a sequence, e.g. `{stopping: a|b}`. */
+const SEQUENCE_KEYWORDS = /^(stopping|cycle|shuffle|once)(\s+(stopping|cycle|once))?\s*:/;
+
+/**
+ * Parse the given ink source and returns its syntax tree.
+ *
+ * The parser is error tolerant: it always returns a tree, in which malformed
+ * statements are either skipped or partially represented. Errors encountered
+ * along the way are reported in `tree.errors`.
+ *
+ * Since ink is mostly line-based, each line is parsed independently.
+ * When `previousTree` is provided, lines which did not change are reused
+ * rather than parsed again.
+ *
+ * @param text the source of the document.
+ * @param uri the uri of the document.
+ * @param version the version of the document.
+ * @param previousTree a previous syntax tree of the same document.
+ */
+export function parse(
+  text: string,
+  uri: string,
+  version: number = 0,
+  previousTree?: InkSyntaxTree
+): InkSyntaxTree {
+  const reusableLines = new Map<string, ParsedLine>();
+  if (previousTree) {
+    for (const previousLine of previousTree.lines) {
+      reusableLines.set(lineCacheKey(previousLine.text, previousLine.startState), previousLine);
+    }
+  }
+
+  const lines: ParsedLine[] = [];
+  let state: LineState = { isInBlockComment: false, blockDepth: 0 };
+
+  for (const sourceLine of text.split(/\r?\n/)) {
+    const line = reusableLines.get(lineCacheKey(sourceLine, state)) || parseLine(sourceLine, state);
+
+    lines.push(line);
+    state = line.endState;
+  }
+
+  const tree = buildTree(lines, uri, version);
+
+  if (state.isInBlockComment) {
+    tree.errors.push({
+      message: "Block comment is never closed, expected '*/'.",
+      range: lineRange(lines, lines.length - 1)
+    });
+  }
+
+  return tree;
+}
+
+/**
+ * Parse a single line of ink, starting in the given state.
+ *
+ * @param text the line to parse, without line terminator.
+ * @param startState the state in which the previous line ended.
+ */
+export function parseLine(text: string, startState: LineState): ParsedLine {
+  return new LineParser(text, startState).parse();
+}
+
+/* Private helpers */
+/******************************************************************************/
+function lineCacheKey(text: string, state: LineState) {
+  return `${state.isInBlockComment ? 1 : 0}:${state.blockDepth}:${text}`;
+}
+
+function isIdentifierCharacter(character: string | undefined) {
+  return !!character && /[A-Za-z0-9_\u00C0-\uFFFF]/.test(character);
+}
+
+/**
+ * Replace comments by whitespaces, so that columns are preserved.
+ *
+ * @param text the line to process.
+ * @param isInBlockComment `true` if the line starts inside a block comment.
+ */
+function stripComments(text: string, isInBlockComment: boolean) {
+  let code = "";
+  let index = 0;
+
+  while (index < text.length) {
+    if (isInBlockComment) {
+      if (text.startsWith("*/", index)) {
+        isInBlockComment = false;
+        code += "  ";
+        index += 2;
+      } else {
+        code += " ";
+        index += 1;
+      }
+    } else if (text[index] === "\\") {
+      code += text.substr(index, 2);
+      index += 2;
+    } else if (text.startsWith("/*", index)) {
+      isInBlockComment = true;
+      code += "  ";
+      index += 2;
+    } else if (text.startsWith("//", index)) {
+      code += " ".repeat(text.length - index);
+      break;
+    } else {
+      code += text[index];
+      index += 1;
+    }
+  }
+
+  return { code, isInBlockComment };
+}
+
+/**
+ * Parses a single line. All positions are columns, relative to the line.
+ */
+class LineParser {
+  private code: string;
+  private line: ParsedLine;
+  private blockDepth: number;
+
+  constructor(text: string, startState: LineState) {
+    const stripped = stripComments(text, startState.isInBlockComment);
+
+    this.code = stripped.code;
+    this.blockDepth = startState.blockDepth;
+    this.line = {
+      text,
+      startState,
+      endState: { isInBlockComment: stripped.isInBlockComment, blockDepth: 0 },
+      type: LineType.Content,
+      references: [],
+      errors: []
+    };
+  }
+
+  public parse(): ParsedLine {
+    const code = this.code;
+    const start = this.skipSpaces(0);
+    const keyword = (/^[A-Z]+\b/.exec(code.substring(start)) || [""])[0];
+
+    if (start >= code.length || /^TODO\b/.test(code.substring(start))) {
+      this.line.type = LineType.Empty;
+    } else if (code.startsWith("==", start)) {
+      this.parseFlowHeader(start, LineType.KnotHeader);
+    } else if (code[start] === "=") {
+      this.parseFlowHeader(start, LineType.StitchHeader);
+    } else if (keyword === "INCLUDE") {
+      this.parseInclude(start + keyword.length);
+    } else if (keyword === "VAR" || keyword === "CONST") {
+      this.parseVariable(
+        start + keyword.length,
+        keyword === "VAR" ? LineType.Variable : LineType.Constant
+      );
+    } else if (keyword === "LIST") {
+      this.parseList(start + keyword.length);
+    } else if (keyword === "EXTERNAL") {
+      this.parseExternal(start + keyword.length);
+    } else if (code[start] === "~") {
+      this.parseLogic(start + 1);
+    } else if (this.blockDepth > 0 && code[start] === "-" && code[start + 1] !== ">") {
+      this.parseBranch(start);
+    } else if (code[start] === "*" || code[start] === "+") {
+      this.parseWeaveElement(start, LineType.Choice);
+    } else if (code[start] === "-" && code[start + 1] !== ">") {
+      this.parseWeaveElement(start, LineType.Gather);
+    } else {
+      this.scanContent(start, code.length);
+    }
+
+    this.line.endState.blockDepth = this.blockDepth;
+    return this.line;
+  }
+
+  /* Statements */
+  /****************************************************************************/
+  private parseFlowHeader(start: number, type: LineType) {
+    const code = this.code;
+    const flowName = type === LineType.KnotHeader ? "knot" : "stitch";
+    let index = start;
+
+    while (code[index] === "=") {
+      index += 1;
+    }
+
+    this.line.type = type;
+
+    if (this.blockDepth > 0) {
+      this.error("Expected '}' before the start of a new flow.", start, code.length);
+      this.blockDepth = 0;
+    }
+
+    let name = this.readIdentifier(this.skipSpaces(index));
+    if (type === LineType.KnotHeader && name && name.text === "function") {
+      const functionName = this.readIdentifier(this.skipSpaces(name.end));
+      if (functionName) {
+        this.line.isFunction = true;
+        name = functionName;
+      }
+    }
+
+    if (!name) {
+      this.error(`Expected a ${flowName} name.`, start, code.length);
+      return;
+    }
+
+    this.line.name = name;
+    index = this.skipSpaces(name.end);
+
+    if (code[index] === "(") {
+      index = this.parseParameters(index);
+    }
+
+    index = this.skipSpaces(index);
+    while (code[index] === "=" || code[index] === " " || code[index] === "\t") {
+      index += 1;
+    }
+
+    if (index < code.length) {
+      this.error(`Unexpected characters after the ${flowName} name.`, index, code.length);
+    }
+  }
+
+  private parseInclude(start: number) {
+    const value = this.readRest(start);
+
+    this.line.type = LineType.Include;
+
+    if (value) {
+      this.line.value = value;
+    } else {
+      this.error("Expected a file path.", 0, this.code.length);
+    }
+  }
+
+  private parseVariable(start: number, type: LineType) {
+    const code = this.code;
+    const name = this.readIdentifier(this.skipSpaces(start));
+
+    this.line.type = type;
+
+    if (!name) {
+      this.error("Expected a variable name.", start, code.length);
+      return;
+    }
+
+    this.line.name = name;
+
+    const equal = this.skipSpaces(name.end);
+    if (code[equal] !== "=") {
+      this.error("Expected '=' followed by an initial value.", name.end, code.length);
+      return;
+    }
+
+    const value = this.readRest(equal + 1);
+    if (value) {
+      this.line.value = value;
+      this.scanExpression(value.start, value.end);
+    } else {
+      this.error("Expected an initial value.", equal, code.length);
+    }
+  }
+
+  private parseList(start: number) {
+    const code = this.code;
+    const name = this.readIdentifier(this.skipSpaces(start));
+
+    this.line.type = LineType.List;
+    this.line.listItems = [];
+
+    if (!name) {
+      this.error("Expected a list name.", start, code.length);
+      return;
+    }
+
+    this.line.name = name;
+
+    const equal = this.skipSpaces(name.end);
+    if (code[equal] !== "=") {
+      this.error("Expected '=' followed by list items.", name.end, code.length);
+      return;
+    }
+
+    let itemStart = equal + 1;
+    while (itemStart <= code.length) {
+      let itemEnd = code.indexOf(",", itemStart);
+      if (itemEnd === -1) {
+        itemEnd = code.length;
+      }
+
+      const segment = code.substring(itemStart, itemEnd);
+      const matches = /^(\s*)(\(\s*)?([^\s=()]+)(\s*=\s*(-?\d+))?\s*(\))?\s*$/.exec(segment);
+
+      if (matches) {
+        const nameStart = itemStart + matches[1].length + (matches[2] || "").length;
+        this.line.listItems.push({
+          name: { text: matches[3], start: nameStart, end: nameStart + matches[3].length },
+          value: matches[5] !== undefined ? parseInt(matches[5]) : undefined,
+          isInitiallySet: !!matches[2]
+        });
+      } else if (segment.trim().length > 0) {
+        this.error("Malformed list item.", itemStart, itemEnd);
+      }
+
+      itemStart = itemEnd + 1;
+    }
+  }
+
+  private parseExternal(start: number) {
+    const code = this.code;
+    const name = this.readIdentifier(this.skipSpaces(start));
+
+    this.line.type = LineType.External;
+
+    if (!name) {
+      this.error("Expected a function name.", start, code.length);
+      return;
+    }
+
+    this.line.name = name;
+
+    const parenthesis = this.skipSpaces(name.end);
+    if (code[parenthesis] === "(") {
+      this.parseParameters(parenthesis);
+    } else {
+      this.line.parameters = [];
+      this.error("Expected a parameter list.", name.end, code.length);
+    }
+  }
+
+  /**
+   * Parse a logic line, which starts with `~`.
+   */
+  private parseLogic(start: number) {
+    const code = this.code;
+    const index = this.skipSpaces(start);
+    const word = this.readIdentifier(index);
+
+    this.line.type = LineType.Logic;
+
+    if (word && word.text === "temp") {
+      const name = this.readIdentifier(this.skipSpaces(word.end));
+      if (!name) {
+        this.error("Expected a variable name.", word.end, code.length);
+        return;
+      }
+
+      const equal = this.skipSpaces(name.end);
+      const value = code[equal] === "=" ? this.readRest(equal + 1) : undefined;
+
+      this.line.temporary = { name, value };
+
+      if (value) {
+        this.scanExpression(value.start, value.end);
+      }
+    } else if (word && word.text === "return") {
+      this.scanExpression(word.end, code.length);
+    } else {
+      const path = this.readPath(index);
+      const operatorStart = path.length > 0 ? this.skipSpaces(path[path.length - 1].end) : index;
+      const operator = /^(\+\+|--|\+=|-=|=(?!=))/.exec(code.substring(operatorStart));
+
+      if (path.length > 0 && operator) {
+        this.addReference(ReferenceKind.Assignment, path);
+        this.scanExpression(operatorStart + operator[0].length, code.length);
+      } else {
+        this.scanExpression(index, code.length);
+      }
+    }
+  }
+
+  /**
+   * Parse a branch of a multiline conditional or sequence, e.g. `- x > 2: text`.
+   */
+  private parseBranch(start: number) {
+    const code = this.code;
+    let index = start;
+
+    while (code[index] === "-" || code[index] === " " || code[index] === "\t") {
+      index += 1;
+    }
+
+    const colon = this.findTopLevelCharacter(":", index, code.length);
+    if (colon !== -1) {
+      if (code.substring(index, colon).trim() !== "else") {
+        this.scanExpression(index, colon);
+      }
+
+      this.scanContent(colon + 1, code.length);
+    } else {
+      this.scanContent(index, code.length);
+    }
+  }
+
+  /**
+   * Parse a choice or a gather, along with its optional label.
+   */
+  private parseWeaveElement(start: number, type: LineType) {
+    const code = this.code;
+    const bullets = type === LineType.Choice ? ["*", "+"] : ["-"];
+    let index = start;
+
+    while (
+      (bullets.indexOf(code[index]) > -1 && !code.startsWith("->", index)) ||
+      code[index] === " " ||
+      code[index] === "\t"
+    ) {
+      index += 1;
+    }
+
+    this.line.type = type;
+
+    if (code[index] === "(") {
+      const label = this.readIdentifier(this.skipSpaces(index + 1));
+      const closingParenthesis = label ? this.skipSpaces(label.end) : index + 1;
+
+      if (label && code[closingParenthesis] === ")") {
+        this.line.name = label;
+        index = closingParenthesis + 1;
+      } else {
+        this.error("Malformed label, expected '(name)'.", index, code.length);
+      }
+    }
+
+    this.scanContent(index, code.length);
+  }
+
+  /**
+   * Parse parameters, starting at the opening parenthesis.
+   *
+   * @returns the index following the closing parenthesis.
+   */
+  private parseParameters(openingParenthesis: number): number {
+    const code = this.code;
+    let closingParenthesis = code.indexOf(")", openingParenthesis);
+
+    this.line.parameters = [];
+
+    if (closingParenthesis === -1) {
+      this.error("Expected ')' after the parameters.", openingParenthesis, code.length);
+      closingParenthesis = code.length;
+    }
+
+    let parameterStart = openingParenthesis + 1;
+    while (parameterStart < closingParenthesis) {
+      let parameterEnd = code.indexOf(",", parameterStart);
+      if (parameterEnd === -1 || parameterEnd > closingParenthesis) {
+        parameterEnd = closingParenthesis;
+      }
+
+      let index = this.skipSpaces(parameterStart);
+      let isReference = false;
+      let isDivertTarget = false;
+
+      const word = this.readIdentifier(index);
+      if (word && word.text === "ref") {
+        isReference = true;
+        index = this.skipSpaces(word.end);
+      }
+
+      if (code.startsWith("->", index)) {
+        isDivertTarget = true;
+        index = this.skipSpaces(index + 2);
+      }
+
+      const name = this.readIdentifier(index);
+      if (name && name.end <= parameterEnd) {
+        this.line.parameters.push({ name, isReference, isDivertTarget });
+      } else if (code.substring(parameterStart, parameterEnd).trim().length > 0) {
+        this.error("Malformed parameter.", parameterStart, parameterEnd);
+      }
+
+      parameterStart = parameterEnd + 1;
+    }
+
+    return Math.min(closingParenthesis + 1, code.length);
+  }
+
+  /* Content & expressions */
+  /****************************************************************************/
+  /**
+   * Scan flow content (text, inline logic and diverts) for references.
+   */
+  private scanContent(start: number, end: number) {
+    const code = this.code;
+    let index = start;
+
+    while (index < end) {
+      const character = code[index];
+
+      if (character === "\\") {
+        index += 2;
+      } else if (character === "#") {
+        return;
+      } else if (code.startsWith("->", index)) {
+        index = this.scanDivert(index, end);
+      } else if (code.startsWith("<-", index)) {
+        index = this.scanThread(index, end);
+      } else if (character === "{") {
+        const closingBrace = this.findClosingCharacter(index, end, "{", "}");
+        if (closingBrace === -1) {
+          this.scanOpeningBlock(index + 1, end);
+          this.blockDepth += 1;
+          return;
+        }
+
+        this.scanInlineBlock(index + 1, closingBrace);
+        index = closingBrace + 1;
+      } else if (character === "}") {
+        if (this.blockDepth > 0) {
+          this.blockDepth -= 1;
+        }
+        index += 1;
+      } else {
+        index += 1;
+      }
+    }
+  }
+
+  /**
+   * Scan inline logic, found between braces.
+   */
+  private scanInlineBlock(start: number, end: number) {
+    const code = this.code;
+    const index = this.skipSpaces(start);
+
+    if (index >= end) {
+      return;
+    }
+
+    const keyword = SEQUENCE_KEYWORDS.exec(code.substring(index, end));
+    if ("&~!$".indexOf(code[index]) > -1) {
+      this.scanContent(index + 1, end);
+    } else if (keyword) {
+      this.scanContent(index + keyword[0].length, end);
+    } else {
+      const colon = this.findTopLevelCharacter(":", index, end);
+      if (colon !== -1) {
+        this.scanExpression(index, colon);
+        this.scanContent(colon + 1, end);
+      } else if (this.findTopLevelCharacter("|", index, end) !== -1) {
+        this.scanContent(index, end);
+      } else {
+        this.scanExpression(index, end);
+      }
+    }
+  }
+
+  /**
+   * Scan the first line of a multiline block, which isn't closed on the same line.
+   */
+  private scanOpeningBlock(start: number, end: number) {
+    const code = this.code;
+    const index = this.skipSpaces(start);
+
+    if (index >= end) {
+      return;
+    }
+
+    const keyword = SEQUENCE_KEYWORDS.exec(code.substring(index, end));
+    if ("&~!$".indexOf(code[index]) > -1) {
+      this.scanContent(index + 1, end);
+    } else if (keyword) {
+      this.scanContent(index + keyword[0].length, end);
+    } else {
+      const colon = this.findTopLevelCharacter(":", index, end);
+      if (colon !== -1) {
+        this.scanExpression(index, colon);
+        this.scanContent(colon + 1, end);
+      } else {
+        this.scanExpression(index, end);
+      }
+    }
+  }
+
+  /**
+   * Scan an expression for variable reads, function calls and divert targets.
+   */
+  private scanExpression(start: number, end: number) {
+    const code = this.code;
+    let index = start;
+
+    while (index < end) {
+      const character = code[index];
+
+      if (character === '"') {
+        let closingQuote = code.indexOf('"', index + 1);
+        if (closingQuote === -1 || closingQuote > end) {
+          closingQuote = end;
+        }
+
+        this.scanContent(index + 1, closingQuote);
+        index = closingQuote + 1;
+      } else if (code.startsWith("->", index)) {
+        const path = this.readPath(this.skipSpaces(index + 2));
+        if (path.length > 0) {
+          this.addReference(ReferenceKind.DivertTarget, path);
+          index = path[path.length - 1].end;
+        } else {
+          index += 2;
+        }
+      } else if (isIdentifierCharacter(character)) {
+        const path = this.readPath(index);
+        index = path[path.length - 1].end;
+
+        if (/^\d/.test(path[0].text)) {
+          continue;
+        }
+
+        if (path.length === 1 && EXPRESSION_KEYWORDS.indexOf(path[0].text) > -1) {
+          continue;
+        }
+
+        if (code[this.skipSpaces(index)] === "(") {
+          this.addReference(ReferenceKind.FunctionCall, path);
+        } else {
+          this.addReference(ReferenceKind.Read, path);
+        }
+      } else {
+        index += 1;
+      }
+    }
+  }
+
+  /**
+   * Scan a divert, starting at `->`.
+   *
+   * @returns the index at which scanning should resume.
+   */
+  private scanDivert(start: number, end: number): number {
+    const code = this.code;
+    const isTunnelReturn = code.startsWith("->->", start);
+    const targetStart = this.skipSpaces(start + (isTunnelReturn ? 4 : 2));
+    const path = this.readPath(targetStart);
+
+    if (path.length === 0) {
+      return isTunnelReturn ? start + 4 : start + 2;
+    }
+
+    const index = this.scanArguments(path[path.length - 1].end, end);
+    const next = this.skipSpaces(index);
+    const isTunnel =
+      !isTunnelReturn && code.startsWith("->", next) && !code.startsWith("->->", next);
+
+    this.addReference(isTunnel ? ReferenceKind.Tunnel : ReferenceKind.Divert, path);
+    return index;
+  }
+
+  /**
+   * Scan a thread, starting at `<-`.
+   *
+   * @returns the index at which scanning should resume.
+   */
+  private scanThread(start: number, end: number): number {
+    const path = this.readPath(this.skipSpaces(start + 2));
+
+    if (path.length === 0) {
+      return start + 2;
+    }
+
+    this.addReference(ReferenceKind.Thread, path);
+    return this.scanArguments(path[path.length - 1].end, end);
+  }
+
+  /**
+   * Scan optional arguments following a divert or thread target.
+   *
+   * @returns the index following the arguments, or `start` if there were none.
+   */
+  private scanArguments(start: number, end: number): number {
+    const openingParenthesis = this.skipSpaces(start);
+    if (this.code[openingParenthesis] !== "(") {
+      return start;
+    }
+
+    let closingParenthesis = this.findClosingCharacter(openingParenthesis, end, "(", ")");
+    if (closingParenthesis === -1) {
+      closingParenthesis = end;
+    }
+
+    this.scanExpression(openingParenthesis + 1, closingParenthesis);
+    return Math.min(closingParenthesis + 1, end);
+  }
+
+  /* Low-level helpers */
+  /****************************************************************************/
+  private addReference(kind: ReferenceKind, path: Span[]) {
+    const reference: ParsedReference = {
+      kind,
+      path,
+      start: path[0].start,
+      end: path[path.length - 1].end
+    };
+
+    this.line.references.push(reference);
+  }
+
+  private error(message: string, start: number, end: number) {
+    this.line.errors.push({ message, start, end });
+  }
+
+  private skipSpaces(index: number): number {
+    while (this.code[index] === " " || this.code[index] === "\t") {
+      index += 1;
+    }
+
+    return index;
+  }
+
+  private readIdentifier(start: number): Span | undefined {
+    let end = start;
+    while (isIdentifierCharacter(this.code[end])) {
+      end += 1;
+    }
+
+    if (end === start) {
+      return undefined;
+    }
+
+    return { text: this.code.substring(start, end), start, end };
+  }
+
+  /**
+   * Read a dotted path, e.g. `knot.stitch.label`.
+   */
+  private readPath(start: number): Span[] {
+    const path: Span[] = [];
+    let component = this.readIdentifier(start);
+
+    while (component) {
+      path.push(component);
+
+      if (this.code[component.end] !== ".") {
+        break;
+      }
+
+      component = this.readIdentifier(component.end + 1);
+    }
+
+    return path;
+  }
+
+  /**
+   * Read everything from `start` to the end of the line, trimmed.
+   */
+  private readRest(start: number): Span | undefined {
+    const rest = this.code.substring(start);
+    const text = rest.trim();
+
+    if (text.length === 0) {
+      return undefined;
+    }
+
+    const textStart = start + rest.indexOf(text);
+    return { text, start: textStart, end: textStart + text.length };
+  }
+
+  /**
+   * Find the character closing the one found at `start`, taking nesting into account.
+   *
+   * @returns the index of the closing character, or `-1` if it couldn't be found.
+   */
+  private findClosingCharacter(start: number, end: number, opening: string, closing: string) {
+    let depth = 0;
+
+    for (let index = start; index < end; index++) {
+      const character = this.code[index];
+
+      if (character === "\\") {
+        index += 1;
+      } else if (character === opening) {
+        depth += 1;
+      } else if (character === closing) {
+        depth -= 1;
+        if (depth === 0) {
+          return index;
+        }
+      }
+    }
+
+    return -1;
+  }
+
+  /**
+   * Find `searched`, ignoring occurences nested in braces, parentheses or strings.
+   *
+   * @returns the index of the character, or `-1` if it couldn't be found.
+   */
+  private findTopLevelCharacter(searched: string, start: number, end: number) {
+    let depth = 0;
+    let isInString = false;
+
+    for (let index = start; index < end; index++) {
+      const character = this.code[index];
+
+      if (character === "\\") {
+        index += 1;
+      } else if (character === '"') {
+        isInString = !isInString;
+      } else if (isInString) {
+        continue;
+      } else if (character === "{" || character === "(" || character === "[") {
+        depth += 1;
+      } else if (character === "}" || character === ")" || character === "]") {
+        depth -= 1;
+      } else if (character === searched && depth === 0) {
+        return index;
+      }
+    }
+
+    return -1;
+  }
+}
+
+/* Tree construction */
+/******************************************************************************/
+function lineRange(lines: ParsedLine[], lineIndex: number): Range {
+  if (lineIndex < 0) {
+    return Range.create(0, 0, 0, 0);
+  }
+
+  return Range.create(lineIndex, 0, lineIndex, lines[lineIndex].text.length);
+}
+
+function spanRange(lineIndex: number, span: { start: number; end: number }): Range {
+  return Range.create(lineIndex, span.start, lineIndex, span.end);
+}
+
+function identifier(lineIndex: number, span: Span): Identifier {
+  return { name: span.text, range: spanRange(lineIndex, span) };
+}
+
+function createFlow(
+  kind: SyntaxKind.Knot | SyntaxKind.Function | SyntaxKind.Stitch,
+  name: Identifier,
+  parameters: ParsedParameter[],
+  lineIndex: number,
+  range: Range
+): FlowNode {
+  return {
+    kind,
+    range,
+    name,
+    parameters: parameters.map(parameter => ({
+      kind: SyntaxKind.Parameter as SyntaxKind.Parameter,
+      range: spanRange(lineIndex, parameter.name),
+      name: identifier(lineIndex, parameter.name),
+      isReference: parameter.isReference,
+      isDivertTarget: parameter.isDivertTarget
+    })),
+    stitches: [],
+    labels: [],
+    temporaries: [],
+    references: []
+  };
+}
+
+/**
+ * Assemble parsed lines into a syntax tree.
+ */
+function buildTree(lines: ParsedLine[], uri: string, version: number): InkSyntaxTree {
+  const tree: InkSyntaxTree = {
+    uri,
+    version,
+    root: {
+      kind: SyntaxKind.Story,
+      range: Range.create(0, 0, 0, 0),
+      stitches: [],
+      labels: [],
+      temporaries: [],
+      references: []
+    },
+    knots: [],
+    includes: [],
+    variables: [],
+    lists: [],
+    externals: [],
+    errors: [],
+    lines
+  };
+
+  let knot: FlowNode | undefined;
+  let stitch: FlowNode | undefined;
+  let isRootClosed = false;
+
+  const closeFlows = (lineIndex: number, shouldCloseKnot: boolean) => {
+    const end = lineRange(lines, lineIndex - 1).end;
+
+    if (stitch) {
+      stitch.range.end = end;
+      stitch = undefined;
+    }
+
+    if (shouldCloseKnot) {
+      if (knot) {
+        knot.range.end = end;
+        knot = undefined;
+      } else if (!isRootClosed) {
+        tree.root.range.end = end;
+        isRootClosed = true;
+      }
+    }
+  };
+
+  lines.forEach((line, lineIndex) => {
+    for (const error of line.errors) {
+      tree.errors.push({ message: error.message, range: spanRange(lineIndex, error) });
+    }
+
+    if (line.type === LineType.KnotHeader) {
+      closeFlows(lineIndex, true);
+
+      // Headers without names still end the previous knot, but their
+      // content isn't attached to the tree.
+      const kind = line.isFunction ? SyntaxKind.Function : SyntaxKind.Knot;
+      const name = line.name
+        ? identifier(lineIndex, line.name)
+        : { name: "", range: lineRange(lines, lineIndex) };
+      knot = createFlow(kind, name, line.parameters || [], lineIndex, lineRange(lines, lineIndex));
+
+      if (line.name) {
+        tree.knots.push(knot);
+      }
+      return;
+    }
+
+    if (line.type === LineType.StitchHeader) {
+      closeFlows(lineIndex, false);
+
+      if (line.name) {
+        const name = identifier(lineIndex, line.name);
+        stitch = createFlow(
+          SyntaxKind.Stitch,
+          name,
+          line.parameters || [],
+          lineIndex,
+          lineRange(lines, lineIndex)
+        );
+        (knot || tree.root).stitches.push(stitch);
+      }
+      return;
+    }
+
+    if (line.type === LineType.Include && line.value) {
+      tree.includes.push({
+        kind: SyntaxKind.Include,
+        range: lineRange(lines, lineIndex),
+        path: line.value.text,
+        pathRange: spanRange(lineIndex, line.value)
+      });
+    } else if ((line.type === LineType.Variable || line.type === LineType.Constant) && line.name) {
+      tree.variables.push({
+        kind: line.type === LineType.Variable ? SyntaxKind.Variable : SyntaxKind.Constant,
+        range: lineRange(lines, lineIndex),
+        name: identifier(lineIndex, line.name),
+        value: line.value ? line.value.text : undefined
+      });
+    } else if (line.type === LineType.List && line.name) {
+      tree.lists.push({
+        kind: SyntaxKind.List,
+        range: lineRange(lines, lineIndex),
+        name: identifier(lineIndex, line.name),
+        items: (line.listItems || []).map(item => ({
+          kind: SyntaxKind.ListItem as SyntaxKind.ListItem,
+          range: spanRange(lineIndex, item.name),
+          name: identifier(lineIndex, item.name),
+          value: item.value,
+          isInitiallySet: item.isInitiallySet
+        }))
+      });
+    } else if (line.type === LineType.External && line.name) {
+      const range = lineRange(lines, lineIndex);
+      const external = createFlow(
+        SyntaxKind.Function,
+        identifier(lineIndex, line.name),
+        line.parameters || [],
+        lineIndex,
+        range
+      );
+
+      tree.externals.push({
+        kind: SyntaxKind.External,
+        range,
+        name: external.name,
+        parameters: external.parameters
+      });
+    }
+
+    const flow = stitch || knot || tree.root;
+
+    if (line.name && (line.type === LineType.Choice || line.type === LineType.Gather)) {
+      flow.labels.push({
+        kind: SyntaxKind.Label,
+        range: lineRange(lines, lineIndex),
+        name: identifier(lineIndex, line.name),
+        isChoice: line.type === LineType.Choice
+      });
+    }
+
+    if (line.temporary) {
+      flow.temporaries.push({
+        kind: SyntaxKind.Temporary,
+        range: lineRange(lines, lineIndex),
+        name: identifier(lineIndex, line.temporary.name),
+        value: line.temporary.value ? line.temporary.value.text : undefined
+      });
+    }
+
+    for (const reference of line.references) {
+      const node: ReferenceNode = {
+        kind: SyntaxKind.Reference,
+        referenceKind: reference.kind,
+        range: spanRange(lineIndex, reference),
+        path: reference.path.map(component => identifier(lineIndex, component))
+      };
+
+      flow.references.push(node);
+    }
+  });
+
+  closeFlows(lines.length, true);
+
+  return tree;
+}
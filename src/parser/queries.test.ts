@@ -0,0 +1,55 @@
+// Copyright (c) Frédéric Maquin <fred@ephread.com>
+// Licensed under the MIT License.
+// See LICENSE in the project root for license information.
+
+import { Position } from "vscode-languageserver";
+
+import { parse } from "./parser";
+import { findDeclarationAtPosition, findFlowsAtPosition, findReferenceAtPosition } from "./queries";
+
+const tree = parse(
+  ["VAR x = 1", "=== knot ===", "= stitch", "- (label) {x} -> knot.stitch"].join("\n"),
+  "file:///project/main.ink"
+);
+
+describe("findFlowsAtPosition", () => {
+  it("returns the enclosing knot and stitch", () => {
+    const flows = findFlowsAtPosition(tree, Position.create(3, 0));
+
+    expect(flows.knot && flows.knot.name.name).toEqual("knot");
+    expect(flows.stitch && flows.stitch.name.name).toEqual("stitch");
+  });
+
+  it("returns nothing outside of knots", () => {
+    expect(findFlowsAtPosition(tree, Position.create(0, 0))).toEqual({
+      knot: undefined,
+      stitch: undefined
+    });
+  });
+});
+
+describe("findReferenceAtPosition", () => {
+  it("returns the reference and the component under the position", () => {
+    const result = findReferenceAtPosition(tree, Position.create(3, 23));
+
+    expect(result && result.reference.path.map(component => component.name)).toEqual([
+      "knot",
+      "stitch"
+    ]);
+    expect(result && result.componentIndex).toEqual(1);
+  });
+
+  it("returns undefined when there is no reference", () => {
+    expect(findReferenceAtPosition(tree, Position.create(3, 0))).toBeUndefined();
+  });
+});
+
+describe("findDeclarationAtPosition", () => {
+  it("returns the declaration under the position", () => {
+    const label = findDeclarationAtPosition(tree, Position.create(3, 4));
+    const variable = findDeclarationAtPosition(tree, Position.create(0, 4));
+
+    expect(label && label.name.name).toEqual("label");
+    expect(variable && variable.name.name).toEqual("x");
+  });
+});
@@ -0,0 +1,165 @@
+// Copyright (c) Frédéric Maquin <fred@ephread.com>
+// Licensed under the MIT License.
+// See LICENSE in the project root for license information.
+
+import { Position, Range } from "vscode-languageserver";
+
+import {
+  DeclarationNode,
+  FlowContent,
+  FlowNode,
+  InkSyntaxTree,
+  ReferenceNode
+} from "../types/syntax";
+
+/** Flows enclosing a position. */
+export interface EnclosingFlows {
+  knot?: FlowNode;
+  stitch?: FlowNode;
+}
+
+/** A reference and the index of the path component found at a given position. */
+export interface ReferenceAtPosition {
+  reference: ReferenceNode;
+  componentIndex: number;
+}
+
+/**
+ * Returns `true` if `position` is inside `range`, bounds included.
+ *
+ * @param position the position to test.
+ * @param range the range to test.
+ */
+export function isPositionInRange(position: Position, range: Range): boolean {
+  if (position.line < range.start.line || position.line > range.end.line) {
+    return false;
+  }
+
+  if (position.line === range.start.line && position.character < range.start.character) {
+    return false;
+  }
+
+  if (position.line === range.end.line && position.character > range.end.character) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Returns the knot and the stitch enclosing the given position, if any.
+ *
+ * @param tree the syntax tree to search.
+ * @param position the position to look for.
+ */
+export function findFlowsAtPosition(tree: InkSyntaxTree, position: Position): EnclosingFlows {
+  const isInFlow = (flow: FlowNode) =>
+    position.line >= flow.range.start.line && position.line <= flow.range.end.line;
+
+  const knot = tree.knots.find(isInFlow);
+  const stitches = knot ? knot.stitches : tree.root.stitches;
+
+  return { knot, stitch: stitches.find(isInFlow) };
+}
+
+/**
+ * Returns the innermost flow content enclosing the given position,
+ * which may be the story root.
+ *
+ * @param tree the syntax tree to search.
+ * @param position the position to look for.
+ */
+export function findFlowContentAtPosition(tree: InkSyntaxTree, position: Position): FlowContent {
+  const flows = findFlowsAtPosition(tree, position);
+  return flows.stitch || flows.knot || tree.root;
+}
+
+/**
+ * Returns every flow content of the tree: the story root, knots and stitches.
+ *
+ * @param tree the syntax tree to walk.
+ */
+export function getAllFlowContents(tree: InkSyntaxTree): FlowContent[] {
+  const contents: FlowContent[] = [tree.root, ...tree.root.stitches];
+
+  for (const knot of tree.knots) {
+    contents.push(knot, ...knot.stitches);
+  }
+
+  return contents;
+}
+
+/**
+ * Returns the reference found at the given position, if any.
+ *
+ * @param tree the syntax tree to search.
+ * @param position the position to look for.
+ */
+export function findReferenceAtPosition(
+  tree: InkSyntaxTree,
+  position: Position
+): ReferenceAtPosition | undefined {
+  const content = findFlowContentAtPosition(tree, position);
+
+  for (const reference of content.references) {
+    if (!isPositionInRange(position, reference.range)) {
+      continue;
+    }
+
+    const componentIndex = reference.path.findIndex(component =>
+      isPositionInRange(position, component.range)
+    );
+
+    if (componentIndex > -1) {
+      return { reference, componentIndex };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Returns the declaration whose name is found at the given position, if any.
+ *
+ * @param tree the syntax tree to search.
+ * @param position the position to look for.
+ */
+export function findDeclarationAtPosition(
+  tree: InkSyntaxTree,
+  position: Position
+): DeclarationNode | undefined {
+  return getAllDeclarations(tree).find(declaration =>
+    isPositionInRange(position, declaration.name.range)
+  );
+}
+
+/**
+ * Returns every declaration of the tree, including parameters,
+ * temporary variables and list items.
+ *
+ * @param tree the syntax tree to walk.
+ */
+export function getAllDeclarations(tree: InkSyntaxTree): DeclarationNode[] {
+  const declarations: DeclarationNode[] = [...tree.variables, ...tree.externals];
+
+  for (const list of tree.lists) {
+    declarations.push(list, ...list.items);
+  }
+
+  for (const external of tree.externals) {
+    declarations.push(...external.parameters);
+  }
+
+  const flows: FlowNode[] = [...tree.root.stitches];
+  for (const knot of tree.knots) {
+    flows.push(knot, ...knot.stitches);
+  }
+
+  for (const flow of flows) {
+    declarations.push(flow, ...flow.parameters, ...flow.labels, ...flow.temporaries);
+  }
+
+  declarations.push(...tree.root.labels, ...tree.root.temporaries);
+
+  return declarations;
+}
@@ -0,0 +1,169 @@
+// Copyright (c) Frédéric Maquin <fred@ephread.com>
+// Licensed under the MIT License.
+// See LICENSE in the project root for license information.
+
+import { Position } from "vscode-languageserver";
+
+import { parse } from "./parser";
+import { findReferenceAtPosition } from "./queries";
+import {
+  findConflictingDeclaration,
+  findOccurrences,
+  resolveReference,
+  resolveSymbolAtPosition
+} from "./resolver";
+
+const main = parse(
+  [
+    "INCLUDE chapter.ink",
+    "VAR x = 1",
+    "LIST colours = red, blue",
+    "=== intro ===",
+    "-> details",
+    "= details",
+    "~ temp x = 2",
+    "{x} -> chapter.end.done",
+    "- (loop) -> loop",
+    "~ add(x, colours.red)",
+    "-> END",
+    "~ temp y = 0"
+  ].join("\n"),
+  "file:///project/main.ink"
+);
+
+const chapter = parse(
+  [
+    "=== chapter ===",
+    "= end",
+    "- (done) {x} -> intro.details.loop",
+    "-> details",
+    "=== function add(a, b) ===",
+    "~ return a + b"
+  ].join("\n"),
+  "file:///project/chapter.ink"
+);
+
+const trees = [main, chapter];
+
+function resolveAt(line: number, character: number, tree = main) {
+  const referenceAtPosition = findReferenceAtPosition(tree, Position.create(line, character));
+  if (!referenceAtPosition) {
+    return undefined;
+  }
+
+  const symbol = resolveReference(
+    trees,
+    tree,
+    referenceAtPosition.reference,
+    referenceAtPosition.componentIndex
+  );
+
+  return (
+    symbol && {
+      uri: symbol.tree.uri,
+      kind: symbol.declaration.kind,
+      name: symbol.declaration.name.name,
+      line: symbol.declaration.name.range.start.line
+    }
+  );
+}
+
+describe("resolveReference", () => {
+  it("resolves stitches relatively to the current knot", () => {
+    expect(resolveAt(4, 4)).toEqual({
+      uri: main.uri,
+      kind: "stitch",
+      name: "details",
+      line: 5
+    });
+  });
+
+  it("resolves each component of a qualified path, across files", () => {
+    expect(resolveAt(7, 8)).toEqual({ uri: chapter.uri, kind: "knot", name: "chapter", line: 0 });
+    expect(resolveAt(7, 16)).toEqual({ uri: chapter.uri, kind: "stitch", name: "end", line: 1 });
+    expect(resolveAt(7, 20)).toEqual({ uri: chapter.uri, kind: "label", name: "done", line: 2 });
+    expect(resolveAt(2, 30, chapter)).toEqual({
+      uri: main.uri,
+      kind: "label",
+      name: "loop",
+      line: 8
+    });
+  });
+
+  it("prefers temporary variables over global variables", () => {
+    expect(resolveAt(7, 1)).toEqual({ uri: main.uri, kind: "temporary", name: "x", line: 6 });
+    expect(resolveAt(2, 11, chapter)).toEqual({
+      uri: main.uri,
+      kind: "variable",
+      name: "x",
+      line: 1
+    });
+  });
+
+  it("resolves labels, functions and list items", () => {
+    expect(resolveAt(8, 13)).toEqual({ uri: main.uri, kind: "label", name: "loop", line: 8 });
+    expect(resolveAt(9, 3)).toEqual({ uri: chapter.uri, kind: "function", name: "add", line: 4 });
+    expect(resolveAt(9, 18)).toEqual({ uri: main.uri, kind: "listItem", name: "red", line: 2 });
+  });
+
+  it("doesn't resolve special targets or out-of-scope names", () => {
+    expect(resolveAt(10, 4)).toBeUndefined();
+    expect(resolveAt(3, 4, chapter)).toBeUndefined();
+  });
+});
+
+describe("findOccurrences", () => {
+  function describeOccurrences(line: number, character: number, includeDeclaration: boolean) {
+    const symbol = resolveSymbolAtPosition(trees, main, Position.create(line, character));
+    if (!symbol) {
+      return [];
+    }
+
+    return findOccurrences(trees, symbol, includeDeclaration).map(occurrence => [
+      occurrence.tree.uri === main.uri ? "main" : "chapter",
+      occurrence.identifier.range.start.line,
+      occurrence.identifier.range.start.character
+    ]);
+  }
+
+  it("finds references in every file, from the declaration", () => {
+    expect(describeOccurrences(1, 4, true)).toEqual([["main", 1, 4], ["chapter", 2, 10]]);
+  });
+
+  it("finds references from another reference", () => {
+    expect(describeOccurrences(8, 13, false)).toEqual([["main", 8, 12], ["chapter", 2, 30]]);
+  });
+
+  it("tells apart symbols sharing the same name in different scopes", () => {
+    expect(describeOccurrences(6, 8, true)).toEqual([
+      ["main", 6, 7],
+      ["main", 7, 1],
+      ["main", 9, 6]
+    ]);
+  });
+});
+
+describe("findConflictingDeclaration", () => {
+  function findConflict(line: number, character: number, name: string) {
+    const symbol = resolveSymbolAtPosition(trees, main, Position.create(line, character));
+    const conflict = symbol && findConflictingDeclaration(trees, symbol, name);
+
+    return conflict && [conflict.tree.uri, conflict.declaration.kind];
+  }
+
+  it("finds global declarations clashing across files", () => {
+    expect(findConflict(1, 4, "intro")).toEqual([main.uri, "knot"]);
+    expect(findConflict(1, 4, "add")).toEqual([chapter.uri, "function"]);
+    expect(findConflict(1, 4, "y")).toBeUndefined();
+  });
+
+  it("finds list items clashing within the same list", () => {
+    expect(findConflict(9, 18, "blue")).toEqual([main.uri, "listItem"]);
+  });
+
+  it("only considers the enclosing flow of local declarations", () => {
+    expect(findConflict(6, 8, "y")).toEqual([main.uri, "temporary"]);
+    expect(findConflict(6, 8, "intro")).toBeUndefined();
+    expect(findConflict(8, 13, "x")).toBeUndefined();
+  });
+});
@@ -0,0 +1,451 @@
+// Copyright (c) Frédéric Maquin <fred@ephread.com>
+// Licensed under the MIT License.
+// See LICENSE in the project root for license information.
+
+import { Position, Range } from "vscode-languageserver";
+
+import {
+  DeclarationNode,
+  FlowContent,
+  FlowNode,
+  Identifier,
+  InkSyntaxTree,
+  ListItemNode,
+  ListNode,
+  ParameterNode,
+  ReferenceKind,
+  ReferenceNode,
+  SyntaxKind
+} from "../types/syntax";
+
+import {
+  EnclosingFlows,
+  findDeclarationAtPosition,
+  findFlowsAtPosition,
+  findReferenceAtPosition,
+  getAllFlowContents
+} from "./queries";
+
+/** Divert targets which are part of the language. */
+export const SPECIAL_DIVERT_TARGETS = ["DONE", "END"];
+
+/** A declaration and the syntax tree in which it was found. */
+export interface ResolvedSymbol {
+  tree: InkSyntaxTree;
+  declaration: DeclarationNode;
+}
+
+/** An occurrence of a symbol, either its declaration or a reference to it. */
+export interface SymbolOccurrence {
+  tree: InkSyntaxTree;
+  identifier: Identifier;
+  isDeclaration: boolean;
+}
+
+/**
+ * Resolve a path component of the given reference to its declaration,
+ * following ink's scoping rules.
+ *
+ * Symbols declared in any of `trees` are visible, since all files of
+ * a story share the same namespace once included.
+ *
+ * @param trees the syntax trees of every file of the story.
+ * @param tree the syntax tree containing the reference.
+ * @param reference the reference to resolve.
+ * @param componentIndex the index of the path component to resolve,
+ *                       defaults to the last one.
+ */
+export function resolveReference(
+  trees: InkSyntaxTree[],
+  tree: InkSyntaxTree,
+  reference: ReferenceNode,
+  componentIndex: number = reference.path.length - 1
+): ResolvedSymbol | undefined {
+  const flows = findFlowsAtPosition(tree, reference.range.start);
+  const path = reference.path.slice(0, componentIndex + 1);
+  const isSingleName = reference.path.length === 1;
+
+  switch (reference.referenceKind) {
+    case ReferenceKind.Divert:
+    case ReferenceKind.Tunnel:
+    case ReferenceKind.Thread:
+    case ReferenceKind.DivertTarget:
+      if (isSingleName && SPECIAL_DIVERT_TARGETS.indexOf(path[0].name) > -1) {
+        return undefined;
+      }
+
+      return (
+        (isSingleName && resolveLocalVariable(tree, flows, path[0].name)) ||
+        resolveFlowPath(trees, tree, flows, path) ||
+        (isSingleName && resolveGlobalVariable(trees, path[0].name)) ||
+        undefined
+      );
+
+    case ReferenceKind.Assignment:
+      return isSingleName ? resolveVariable(trees, tree, flows, path[0].name) : undefined;
+
+    case ReferenceKind.FunctionCall:
+      return isSingleName ? resolveFunction(trees, path[0].name) : undefined;
+
+    case ReferenceKind.Read:
+      if (isSingleName) {
+        return (
+          resolveVariable(trees, tree, flows, path[0].name) ||
+          resolveFlowPath(trees, tree, flows, path)
+        );
+      }
+
+      return (
+        resolveListItemPath(trees, reference.path, componentIndex) ||
+        resolveFlowPath(trees, tree, flows, path)
+      );
+  }
+}
+
+/**
+ * Resolve the symbol found at the given position, whether the position is
+ * on its declaration or on a reference to it.
+ *
+ * @param trees the syntax trees of every file of the story.
+ * @param tree the syntax tree containing the position.
+ * @param position the position to look for.
+ */
+export function resolveSymbolAtPosition(
+  trees: InkSyntaxTree[],
+  tree: InkSyntaxTree,
+  position: Position
+): ResolvedSymbol | undefined {
+  const declaration = findDeclarationAtPosition(tree, position);
+  if (declaration) {
+    return { tree, declaration };
+  }
+
+  const referenceAtPosition = findReferenceAtPosition(tree, position);
+  if (referenceAtPosition) {
+    return resolveReference(
+      trees,
+      tree,
+      referenceAtPosition.reference,
+      referenceAtPosition.componentIndex
+    );
+  }
+
+  return undefined;
+}
+
+/**
+ * Resolve a path which isn't part of the syntax tree, such as a path being
+ * typed, as if it were referenced at the given position.
+ *
+ * @param trees the syntax trees of every file of the story.
+ * @param tree the syntax tree containing the position.
+ * @param position the position from which the path is referenced.
+ * @param names the components of the path.
+ * @param referenceKind the kind of reference.
+ */
+export function resolvePath(
+  trees: InkSyntaxTree[],
+  tree: InkSyntaxTree,
+  position: Position,
+  names: string[],
+  referenceKind: ReferenceKind
+): ResolvedSymbol | undefined {
+  const range = Range.create(position, position);
+
+  return resolveReference(trees, tree, {
+    kind: SyntaxKind.Reference,
+    referenceKind,
+    path: names.map(name => ({ name, range })),
+    range
+  });
+}
+
+/**
+ * Find every occurrence of the given symbol, in all trees.
+ * References are resolved following ink's scoping rules, so that
+ * symbols sharing the same name in different scopes are told apart.
+ *
+ * @param trees the syntax trees of every file of the story.
+ * @param symbol the symbol to look for.
+ * @param includeDeclaration `true` to include the declaration of the symbol.
+ */
+export function findOccurrences(
+  trees: InkSyntaxTree[],
+  symbol: ResolvedSymbol,
+  includeDeclaration: boolean
+): SymbolOccurrence[] {
+  const name = symbol.declaration.name.name;
+  const occurrences: SymbolOccurrence[] = [];
+
+  if (includeDeclaration) {
+    occurrences.push({
+      tree: symbol.tree,
+      identifier: symbol.declaration.name,
+      isDeclaration: true
+    });
+  }
+
+  for (const tree of trees) {
+    for (const content of getAllFlowContents(tree)) {
+      for (const reference of content.references) {
+        reference.path.forEach((component, componentIndex) => {
+          if (component.name !== name) {
+            return;
+          }
+
+          const resolved = resolveReference(trees, tree, reference, componentIndex);
+          if (resolved && isSameSymbol(resolved, symbol)) {
+            occurrences.push({ tree, identifier: component, isDeclaration: false });
+          }
+        });
+      }
+    }
+  }
+
+  return occurrences;
+}
+
+/**
+ * Returns `true` if both symbols refer to the same declaration.
+ */
+export function isSameSymbol(lhs: ResolvedSymbol, rhs: ResolvedSymbol): boolean {
+  return lhs.tree.uri === rhs.tree.uri && lhs.declaration === rhs.declaration;
+}
+
+/**
+ * Returns a declaration named `name` which would clash with `symbol`
+ * if `symbol` were renamed to `name`, or `undefined` if there are none.
+ *
+ * @param trees the syntax trees of every file of the story.
+ * @param symbol the symbol to rename.
+ * @param name the new name of the symbol.
+ */
+export function findConflictingDeclaration(
+  trees: InkSyntaxTree[],
+  symbol: ResolvedSymbol,
+  name: string
+): ResolvedSymbol | undefined {
+  const candidates: ResolvedSymbol[] = [];
+  const addCandidates = (tree: InkSyntaxTree, declarations: DeclarationNode[]) => {
+    candidates.push(...declarations.map(declaration => ({ tree, declaration })));
+  };
+
+  switch (symbol.declaration.kind) {
+    case SyntaxKind.Knot:
+    case SyntaxKind.Function:
+    case SyntaxKind.Variable:
+    case SyntaxKind.Constant:
+    case SyntaxKind.List:
+    case SyntaxKind.External:
+      for (const tree of trees) {
+        addCandidates(tree, [...tree.knots, ...tree.variables, ...tree.lists, ...tree.externals]);
+      }
+      break;
+
+    case SyntaxKind.ListItem:
+      const list = symbol.tree.lists.find(
+        candidate => candidate.items.indexOf(symbol.declaration as ListItemNode) > -1
+      );
+      addCandidates(symbol.tree, list ? list.items : []);
+      break;
+
+    default:
+      const flow = findEnclosingFlow(symbol.tree, symbol.declaration);
+      if (!flow) {
+        break;
+      }
+
+      if (
+        symbol.declaration.kind === SyntaxKind.Temporary ||
+        symbol.declaration.kind === SyntaxKind.Parameter
+      ) {
+        addCandidates(symbol.tree, [...(flow.parameters || []), ...flow.temporaries]);
+      } else {
+        addCandidates(symbol.tree, [...flow.stitches, ...flow.labels]);
+      }
+      break;
+  }
+
+  return candidates.find(
+    candidate =>
+      candidate.declaration.name.name === name && candidate.declaration !== symbol.declaration
+  );
+}
+
+/**
+ * Returns the flow directly enclosing the given stitch, label, temporary variable
+ * or parameter. The root of the story is returned for top-level declarations.
+ */
+function findEnclosingFlow(
+  tree: InkSyntaxTree,
+  declaration: DeclarationNode
+): (FlowContent & { stitches: FlowNode[]; parameters?: ParameterNode[] }) | undefined {
+  const flows = [tree.root, ...tree.root.stitches];
+  for (const knot of tree.knots) {
+    flows.push(knot, ...knot.stitches);
+  }
+
+  return flows.find(flow => {
+    const declarations: DeclarationNode[] = [
+      ...flow.stitches,
+      ...flow.labels,
+      ...flow.temporaries,
+      ...("parameters" in flow ? flow.parameters : [])
+    ];
+
+    return declarations.indexOf(declaration) > -1;
+  });
+}
+
+/* Variables */
+/******************************************************************************/
+/**
+ * Resolve a variable name, looking up temporary variables and parameters first,
+ * then global variables, lists and list items.
+ */
+export function resolveVariable(
+  trees: InkSyntaxTree[],
+  tree: InkSyntaxTree,
+  flows: EnclosingFlows,
+  name: string
+): ResolvedSymbol | undefined {
+  return resolveLocalVariable(tree, flows, name) || resolveGlobalVariable(trees, name);
+}
+
+function resolveLocalVariable(
+  tree: InkSyntaxTree,
+  flows: EnclosingFlows,
+  name: string
+): ResolvedSymbol | undefined {
+  const flow = flows.stitch || flows.knot;
+  const declarations: DeclarationNode[] = flow
+    ? [...flow.parameters, ...flow.temporaries]
+    : tree.root.temporaries;
+
+  const declaration = findByName(declarations, name);
+  return declaration ? { tree, declaration } : undefined;
+}
+
+function resolveGlobalVariable(trees: InkSyntaxTree[], name: string): ResolvedSymbol | undefined {
+  return (
+    findInTrees(trees, tree => tree.variables, name) ||
+    findInTrees(trees, tree => tree.lists, name) ||
+    findInTrees(trees, tree => flatten(tree.lists.map(list => list.items)), name)
+  );
+}
+
+/**
+ * Resolve `list.item` paths.
+ */
+function resolveListItemPath(
+  trees: InkSyntaxTree[],
+  path: Identifier[],
+  componentIndex: number
+): ResolvedSymbol | undefined {
+  if (path.length !== 2) {
+    return undefined;
+  }
+
+  const list = findInTrees(trees, tree => tree.lists, path[0].name);
+  if (!list || list.declaration.kind !== SyntaxKind.List || componentIndex === 0) {
+    return list;
+  }
+
+  const item = findByName((list.declaration as ListNode).items, path[1].name);
+
+  return item ? { tree: list.tree, declaration: item } : undefined;
+}
+
+/* Functions */
+/******************************************************************************/
+function resolveFunction(trees: InkSyntaxTree[], name: string): ResolvedSymbol | undefined {
+  return (
+    findInTrees(trees, tree => tree.knots, name) ||
+    findInTrees(trees, tree => tree.externals, name) ||
+    findInTrees(trees, tree => tree.lists, name)
+  );
+}
+
+/* Flows */
+/******************************************************************************/
+/**
+ * Resolve a path to a knot, a stitch or a label. The first component
+ * is looked up relatively to the enclosing flows, then globally.
+ */
+function resolveFlowPath(
+  trees: InkSyntaxTree[],
+  tree: InkSyntaxTree,
+  flows: EnclosingFlows,
+  path: Identifier[]
+): ResolvedSymbol | undefined {
+  const name = path[0].name;
+  let resolved: ResolvedSymbol | undefined;
+
+  if (flows.stitch) {
+    resolved = findIn(tree, flows.stitch.labels, name);
+  }
+
+  if (!resolved && flows.knot) {
+    resolved = findIn(tree, [...flows.knot.stitches, ...flows.knot.labels], name);
+  }
+
+  if (!resolved) {
+    resolved =
+      findInTrees(trees, candidate => candidate.knots, name) ||
+      findInTrees(trees, candidate => [...candidate.root.stitches, ...candidate.root.labels], name);
+  }
+
+  for (const component of path.slice(1)) {
+    if (!resolved) {
+      return undefined;
+    }
+
+    const declaration = resolved.declaration;
+    if (
+      declaration.kind === SyntaxKind.Knot ||
+      declaration.kind === SyntaxKind.Function ||
+      declaration.kind === SyntaxKind.Stitch
+    ) {
+      const flow = declaration as FlowNode;
+      resolved = findIn(resolved.tree, [...flow.stitches, ...flow.labels], component.name);
+    } else {
+      return undefined;
+    }
+  }
+
+  return resolved;
+}
+
+/* Helpers */
+/******************************************************************************/
+function findByName<T extends DeclarationNode>(declarations: T[], name: string): T | undefined {
+  return declarations.find(declaration => declaration.name.name === name);
+}
+
+function findIn(
+  tree: InkSyntaxTree,
+  declarations: DeclarationNode[],
+  name: string
+): ResolvedSymbol | undefined {
+  const declaration = findByName(declarations, name);
+  return declaration ? { tree, declaration } : undefined;
+}
+
+function findInTrees(
+  trees: InkSyntaxTree[],
+  getDeclarations: (tree: InkSyntaxTree) => DeclarationNode[],
+  name: string
+): ResolvedSymbol | undefined {
+  for (const tree of trees) {
+    const resolved = findIn(tree, getDeclarations(tree), name);
+    if (resolved) {
+      return resolved;
+    }
+  }
+
+  return undefined;
+}
+
+function flatten<T>(arrays: T[][]): T[] {
+  return ([] as T[]).concat(...arrays);
+}
@@ -7,23 +7,51 @@ import {
   DidChangeConfigurationNotification,
   IConnection,
   InitializeParams,
-  ProposedFeatures
+  ProposedFeatures,
+  ServerCapabilities
 } from "vscode-languageserver/lib/main";
 
-import { InkConnectionLogger } from "./types/types";
+import {
+  FileOperationFilter,
+  FileOperationsServerCapabilities,
+  InkBackend,
+  InkConnectionLogger,
+  RenameFilesParams,
+  RuntimeSessionParams
+} from "./types/types";
 
 import { flagDefaultSettingsAsDirty } from "./helpers/configuration";
 
-import { Commands } from "./types/identifiers";
+import {
+  Commands,
+  RuntimeRequest,
+  WorkspaceNotification,
+  WorkspaceRequest
+} from "./types/identifiers";
 
 import { checkPlatformAndDownloadBinaryDependency } from "./helpers/install";
 
+import BackendSelector from "./backends/BackendSelector";
+import InkjsBackend from "./backends/InkjsBackend";
 import InklecateBackend from "./backends/InklecateBackend";
+import CodeLensProvider from "./helpers/Class/CodeLensProvider";
 import CommandRunner from "./helpers/Class/CommandRunner";
 import CompilationDirectoryManager from "./helpers/Class/CompilationDirectoryManager";
+import CompilationScheduler from "./helpers/Class/CompilationScheduler";
+import CompletionProvider from "./helpers/Class/CompletionProvider";
+import DefinitionProvider from "./helpers/Class/DefinitionProvider";
 import DiagnosticManager from "./helpers/Class/DiagnosticManager";
 import DocumentManager from "./helpers/Class/DocumentManager";
-import StoryRenderer from "./helpers/Class/StoryRenderer";
+import DocumentSymbolProvider from "./helpers/Class/DocumentSymbolProvider";
+import FileRenameProvider from "./helpers/Class/FileRenameProvider";
+import HoverProvider from "./helpers/Class/HoverProvider";
+import MainStoryResolver from "./helpers/Class/MainStoryResolver";
+import ReferenceProvider from "./helpers/Class/ReferenceProvider";
+import RenameProvider from "./helpers/Class/RenameProvider";
+import SignatureHelpProvider from "./helpers/Class/SignatureHelpProvider";
+import StoryPlayer from "./helpers/Class/StoryPlayer";
+import SyntaxTreeManager from "./helpers/Class/SyntaxTreeManager";
+import VirtualFileSystem from "./helpers/Class/VirtualFileSystem";
 import WorkspaceManager from "./helpers/Class/WorkspaceManager";
 
 /* Properties */
@@ -33,27 +61,68 @@ const logger = createConnectionLogger(connection);
 
 const documentManager = new DocumentManager();
 const diagnosticManager = new DiagnosticManager(connection, documentManager, logger);
-const compilationDirectoryManager = new CompilationDirectoryManager(logger);
-const storyRenderer = new StoryRenderer(connection);
+const virtualFileSystem = new VirtualFileSystem(documentManager);
+const compilationDirectoryManager = new CompilationDirectoryManager(virtualFileSystem, logger);
+const syntaxTreeManager = new SyntaxTreeManager(documentManager, logger);
+const storyPlayer = new StoryPlayer(logger);
+const mainStoryResolver = new MainStoryResolver(
+  connection,
+  documentManager,
+  syntaxTreeManager,
+  logger
+);
 
-const inklecateBackend = new InklecateBackend(storyRenderer, diagnosticManager, logger);
+const backendSelector = new BackendSelector({
+  [InkBackend.Inklecate]: new InklecateBackend(
+    compilationDirectoryManager,
+    diagnosticManager,
+    storyPlayer,
+    logger
+  ),
+  [InkBackend.Inkjs]: new InkjsBackend(diagnosticManager, storyPlayer, virtualFileSystem, logger)
+});
+const compilationScheduler = new CompilationScheduler(backendSelector, logger);
 
 const workspaceManager = new WorkspaceManager(
   connection,
   documentManager,
   compilationDirectoryManager,
-  inklecateBackend,
+  mainStoryResolver,
+  compilationScheduler,
   logger
 );
 
 const commandRunner = new CommandRunner(
   connection,
   workspaceManager,
-  inklecateBackend,
-  inklecateBackend,
+  compilationScheduler,
+  backendSelector,
   logger
 );
 
+const documentSymbolProvider = new DocumentSymbolProvider(
+  syntaxTreeManager,
+  workspaceManager.capabilities
+);
+const signatureHelpProvider = new SignatureHelpProvider(workspaceManager, syntaxTreeManager);
+
+const definitionProvider = new DefinitionProvider(workspaceManager, syntaxTreeManager);
+const referenceProvider = new ReferenceProvider(workspaceManager, syntaxTreeManager);
+const renameProvider = new RenameProvider(workspaceManager, syntaxTreeManager);
+const fileRenameProvider = new FileRenameProvider(workspaceManager, syntaxTreeManager);
+const completionProvider = new CompletionProvider(
+  workspaceManager,
+  syntaxTreeManager,
+  workspaceManager.capabilities,
+  logger
+);
+const hoverProvider = new HoverProvider(
+  workspaceManager,
+  syntaxTreeManager,
+  workspaceManager.capabilities
+);
+const codeLensProvider = new CodeLensProvider(syntaxTreeManager);
+
 /* Helpers */
 /******************************************************************************/
 /**
@@ -75,14 +144,51 @@ connection.onInitialize((params: InitializeParams) => {
 
   workspaceManager.initialize(params);
 
-  return {
-    capabilities: {
-      textDocumentSync: documentManager.documents.syncKind,
-      executeCommandProvider: {
-        commands: [Commands.compileStory, Commands.playStory, Commands.selectOption]
+  // Ink files, and directories which may contain some.
+  const inkFileOperationFilters: FileOperationFilter[] = [
+    { scheme: "file", pattern: { glob: "**/*.{ink,ink2}", matches: "file" } },
+    { scheme: "file", pattern: { glob: "**/*", matches: "folder" } }
+  ];
+
+  const capabilities: ServerCapabilities & FileOperationsServerCapabilities = {
+    textDocumentSync: documentManager.documents.syncKind,
+    documentSymbolProvider: true,
+    definitionProvider: true,
+    referencesProvider: true,
+    renameProvider: workspaceManager.capabilities.prepareRename
+      ? { prepareProvider: true }
+      : true,
+    completionProvider: {
+      triggerCharacters: [">", ".", "{", "/"]
+    },
+    hoverProvider: true,
+    signatureHelpProvider: {
+      triggerCharacters: ["(", ","]
+    },
+    codeLensProvider: {
+      resolveProvider: false
+    },
+    workspace: {
+      fileOperations: {
+        willRename: { filters: inkFileOperationFilters },
+        didRename: { filters: inkFileOperationFilters }
       }
+    },
+    executeCommandProvider: {
+      commands: [
+        Commands.compileStory,
+        Commands.playStory,
+        Commands.killInklecate,
+        Commands.selectOption,
+        Commands.stepBack,
+        Commands.rewindToChoice,
+        Commands.saveSnapshot,
+        Commands.restoreSnapshot
+      ]
     }
   };
+
+  return { capabilities };
 });
 
 connection.onInitialized(() => {
@@ -102,6 +208,8 @@ connection.onInitialized(() => {
   });
 });
 
+connection.onShutdown(() => workspaceManager.removeTemporaryDirectories());
+
 connection.onDidChangeConfiguration(change => {
   // Probably a v2 client, update workspace wide config settings from this message
   if (!workspaceManager.capabilities.configuration && change.settings && change.settings.ink) {
@@ -110,34 +218,80 @@ connection.onDidChangeConfiguration(change => {
   documentManager.documentSettings.clear();
 });
 
-connection.onDidChangeWatchedFiles(workspaceManager.copyNewlyCreatedFiles);
+connection.onDidChangeWatchedFiles(params => workspaceManager.updateWatchedFiles(params));
+connection.onNotification(WorkspaceNotification.didRenameFiles, (params: RenameFilesParams) =>
+  workspaceManager.renameFiles(params)
+);
+
+// Play sessions reflect the latest edits, whichever backend compiled them.
+diagnosticManager.onDidCompileStory(event => storyPlayer.reloadStoryFile(event.outputStoryPath));
+
+// Files which are now included by another one are no longer compiled on their own.
+mainStoryResolver.onDidChangeWorkspaceRoots(event =>
+  diagnosticManager.removeStoryDiagnostics(event.workspace, event.removedRoots)
+);
 
 connection.onExecuteCommand(
-  (params): void => {
+  (params): string | void => {
     switch (params.command) {
       case Commands.compileStory:
         commandRunner.compileStory(params);
         break;
       case Commands.playStory:
-        commandRunner.playStory(params);
+        return commandRunner.playStory(params);
+      case Commands.killInklecate:
+        commandRunner.stopStory(params);
         break;
       case Commands.selectOption:
         commandRunner.selectOption(params);
         break;
+      case Commands.stepBack:
+        commandRunner.stepBack(params);
+        break;
+      case Commands.rewindToChoice:
+        commandRunner.rewindToChoice(params);
+        break;
+      case Commands.saveSnapshot:
+        commandRunner.saveSnapshot(params);
+        break;
+      case Commands.restoreSnapshot:
+        return commandRunner.restoreSnapshot(params);
       default:
         break;
     }
   }
 );
 
+connection.onRequest(RuntimeRequest.storyState, (params: RuntimeSessionParams) =>
+  commandRunner.getStoryState(params)
+);
+
+/* Language features */
+/******************************************************************************/
+connection.onDocumentSymbol(params => documentSymbolProvider.provideDocumentSymbols(params));
+connection.onDefinition(params => definitionProvider.provideDefinition(params));
+connection.onReferences(params => referenceProvider.provideReferences(params));
+connection.onPrepareRename(params => renameProvider.prepareRename(params));
+connection.onRenameRequest(params => renameProvider.provideRenameEdits(params));
+connection.onRequest(WorkspaceRequest.willRenameFiles, (params: RenameFilesParams) =>
+  fileRenameProvider.provideRenameFilesEdits(params)
+);
+connection.onCompletion(params => completionProvider.provideCompletion(params));
+connection.onHover(params => hoverProvider.provideHover(params));
+connection.onSignatureHelp(params => signatureHelpProvider.provideSignatureHelp(params));
+connection.onCodeLens(params => codeLensProvider.provideCodeLenses(params));
+
 /* Document callbacks */
 /******************************************************************************/
 documentManager.documents.onDidChangeContent(change => {
+  mainStoryResolver.updateDocument(syntaxTreeManager.updateDocument(change.document));
   workspaceManager.updateDocumentAndCompileWorkspace(change.document);
 });
 
 documentManager.documents.onDidClose(event => {
   documentManager.documentSettings.delete(event.document.uri);
+  syntaxTreeManager.removeDocument(event.document.uri);
+  mainStoryResolver.removeDocument(event.document.uri);
 });
 
 /* Final setup */
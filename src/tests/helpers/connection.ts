@@ -0,0 +1,15 @@
+// Copyright (c) Frédéric Maquin <fred@ephread.com>
+// Licensed under the MIT License.
+// See LICENSE in the project root for license information.
+
+import { PassThrough } from "stream";
+
+import { createConnection, IConnection } from "vscode-languageserver";
+
+/**
+ * Returns a connection which isn't attached to any client, messages sent
+ * to the client can be observed by spying on the connection.
+ */
+export function createTestConnection(): IConnection {
+  return createConnection(new PassThrough(), new PassThrough());
+}
@@ -0,0 +1,39 @@
+// Copyright (c) Frédéric Maquin <fred@ephread.com>
+// Licensed under the MIT License.
+// See LICENSE in the project root for license information.
+
+import { TextDocument, TextDocuments } from "vscode-languageserver";
+
+import DocumentManager from "../../helpers/Class/DocumentManager";
+
+/**
+ * Documents opened by a fake client. The given array can be modified at will,
+ * to open, edit or close documents.
+ */
+export class TestTextDocuments extends TextDocuments {
+  constructor(private openedDocuments: TextDocument[]) {
+    super();
+  }
+
+  public get(uri: string): TextDocument | undefined {
+    return this.openedDocuments.find(document => document.uri === uri);
+  }
+
+  public all(): TextDocument[] {
+    return this.openedDocuments;
+  }
+
+  public keys(): string[] {
+    return this.openedDocuments.map(document => document.uri);
+  }
+}
+
+/**
+ * Returns a document manager in which the given documents are opened.
+ */
+export function createDocumentManager(documents: TextDocument[] = []): DocumentManager {
+  const documentManager = new DocumentManager();
+  documentManager.documents = new TestTextDocuments(documents);
+
+  return documentManager;
+}
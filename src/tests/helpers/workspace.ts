@@ -0,0 +1,51 @@
+// Copyright (c) Frédéric Maquin <fred@ephread.com>
+// Licensed under the MIT License.
+// See LICENSE in the project root for license information.
+
+import { IConnection } from "vscode-languageserver";
+
+import { IInkCompiler } from "../../types/backend";
+import { InkWorkspace } from "../../types/types";
+
+import CompilationDirectoryManager from "../../helpers/Class/CompilationDirectoryManager";
+import DocumentManager from "../../helpers/Class/DocumentManager";
+import MainStoryResolver from "../../helpers/Class/MainStoryResolver";
+import SyntaxTreeManager from "../../helpers/Class/SyntaxTreeManager";
+import VirtualFileSystem from "../../helpers/Class/VirtualFileSystem";
+import WorkspaceManager from "../../helpers/Class/WorkspaceManager";
+
+import { createTestConnection } from "./connection";
+import mockedLogger from "./logger";
+
+/**
+ * Returns a workspace manager, ready to compile, which manages the given workspaces.
+ * Stories are compiled by `compiler`, which does nothing by default.
+ */
+export function createWorkspaceManager(
+  documentManager: DocumentManager,
+  workspaces: InkWorkspace[] = [],
+  compiler: IInkCompiler = { compileStory: jest.fn(async () => undefined) },
+  connection: IConnection = createTestConnection()
+): WorkspaceManager {
+  const workspaceManager = new WorkspaceManager(
+    connection,
+    documentManager,
+    new CompilationDirectoryManager(new VirtualFileSystem(documentManager), mockedLogger.logger),
+    new MainStoryResolver(
+      connection,
+      documentManager,
+      new SyntaxTreeManager(documentManager, mockedLogger.logger),
+      mockedLogger.logger
+    ),
+    compiler,
+    mockedLogger.logger
+  );
+
+  for (const workspace of workspaces) {
+    workspaceManager.workspaceDirectories.set(workspace.folder.uri, workspace);
+  }
+
+  workspaceManager.canCompile = true;
+
+  return workspaceManager;
+}
@@ -1,20 +1,94 @@
+import { CancellationToken, Event } from "vscode-languageserver";
+
 import DiagnosticManager from "../helpers/Class/DiagnosticManager";
+import StoryRenderer from "../helpers/Class/StoryRenderer";
 
-import { InkWorkspace, PartialInkConfigurationSettings } from './types';
+import {
+  InkError,
+  InkWorkspace,
+  PartialInkConfigurationSettings,
+  PlayOptions,
+  RuntimeChoice,
+  RuntimeStoryState,
+  StorySnapshot
+} from './types';
 
 export interface IInkRunner {
+  /**
+   * Fired with the id of a session once it has been stopped, by the client
+   * or because its story couldn't be played.
+   */
+  readonly onDidStopStory: Event<string>;
+
+  /**
+   * Play the story of the given workspace in a new session, independent from
+   * the other sessions being played.
+   *
+   * @param storyRenderer the renderer of the session, notifying the client.
+   *                      Its session id identifies the session.
+   * @param playOptions where the story starts and the initial values of its variables.
+   * @param snapshot the snapshot to restore, in which case the story resumes
+   *                 from the state it describes.
+   */
   runStory(
     settings: PartialInkConfigurationSettings,
-    inkWorkspace: InkWorkspace
+    inkWorkspace: InkWorkspace,
+    storyRenderer: StoryRenderer,
+    playOptions?: PlayOptions,
+    snapshot?: StorySnapshot
   ): void;
 
-  chooseOption(index: number): void;
-  stopCurrentStory(): void;
+  chooseOption(sessionId: string, index: number): void;
+
+  /**
+   * Stop the given session, notifying the client that the story ended.
+   */
+  stopStory(sessionId: string): void;
+
+  /**
+   * Returns the choices made since the beginning of the story, or `undefined`
+   * if the session doesn't exist.
+   */
+  getChoicePath(sessionId: string): RuntimeChoice[] | undefined;
+
+  /**
+   * Rewind the given session to the point where the choice at `choiceCount`
+   * was offered, keeping the choices made before it. The story is replayed
+   * deterministically, with the seed of the session.
+   */
+  rewindStory(sessionId: string, choiceCount: number): void;
+
+  /**
+   * Returns the state of the story played by the given session, or `undefined`
+   * if the session doesn't exist or hasn't started yet.
+   */
+  getStoryState(sessionId: string): RuntimeStoryState | undefined;
+
+  /**
+   * Returns a snapshot of the runtime state of the given session, or `undefined`
+   * if the session doesn't exist or hasn't started yet.
+   */
+  createSnapshot(sessionId: string): StorySnapshot | undefined;
 }
 
 export interface IInkCompiler {
+  /**
+   * Compile the story of the given workspace and push the resulting diagnostics.
+   * If `token` is cancelled before the compilation completes, its results
+   * are discarded.
+   *
+   * @returns a promise resolved when the compilation completes or is cancelled.
+   */
   compileStory(
     settings: PartialInkConfigurationSettings,
-    inkWorkspace: InkWorkspace
-  ): void;
-}
\ No newline at end of file
+    inkWorkspace: InkWorkspace,
+    token?: CancellationToken
+  ): Promise<void>;
+}
+
+/** Story compiled for a play session. */
+export interface PlayableStory {
+  /** The compiled story, `undefined` if the compilation failed. */
+  json?: string;
+  errors: InkError[];
+}
@@ -6,11 +6,24 @@ export enum Commands {
   compileStory = "compile-story",
   playStory = "play-story",
   killInklecate = "kill-inklecate",
-  selectOption = "select-option"
+  selectOption = "select-option",
+  stepBack = "step-back",
+  rewindToChoice = "rewind-to-choice",
+  saveSnapshot = "save-snapshot",
+  restoreSnapshot = "restore-snapshot"
 }
 
 export enum CompilationNotification {
   didCompileStory = "inkWorkspace/didCompileStory",
+  didChangeStoryRoots = "inkWorkspace/didChangeStoryRoots"
+}
+
+export enum WorkspaceNotification {
+  didRenameFiles = "workspace/didRenameFiles"
+}
+
+export enum WorkspaceRequest {
+  willRenameFiles = "workspace/willRenameFiles"
 }
 
 export enum RuntimeNotification {
@@ -19,5 +32,11 @@ export enum RuntimeNotification {
   choice = "inkRuntime/choice",
   prompt = "inkRuntime/prompt",
   endOfStory = "inkRuntime/endOfStory",
-  error = "inkRuntime/error"
+  error = "inkRuntime/error",
+  choicePath = "inkRuntime/choicePath",
+  didChangeStoryState = "inkRuntime/didChangeStoryState"
+}
+
+export enum RuntimeRequest {
+  storyState = "inkRuntime/storyState"
 }
@@ -0,0 +1,230 @@
+// Copyright (c) Frédéric Maquin <fred@ephread.com>
+// Licensed under the MIT License.
+// See LICENSE in the project root for license information.
+
+import { Range } from "vscode-languageserver";
+
+/** Kinds of nodes found in an ink syntax tree. */
+export enum SyntaxKind {
+  Story = "story",
+  Knot = "knot",
+  Function = "function",
+  Stitch = "stitch",
+  Label = "label",
+  Variable = "variable",
+  Constant = "constant",
+  Temporary = "temporary",
+  Parameter = "parameter",
+  List = "list",
+  ListItem = "listItem",
+  External = "external",
+  Include = "include",
+  Reference = "reference"
+}
+
+/** Kinds of references found in flow content or expressions. */
+export enum ReferenceKind {
+  /** `-> target` */
+  Divert = "divert",
+  /** `-> target ->` */
+  Tunnel = "tunnel",
+  /** `<- target` */
+  Thread = "thread",
+  /** `-> target` used as a value, e.g. `TURNS_SINCE(-> target)`. */
+  DivertTarget = "divertTarget",
+  /** `{name}` or `name` read in an expression. */
+  Read = "read",
+  /** `~ name = value`, `~ name++`, etc. */
+  Assignment = "assignment",
+  /** `name(arguments)` */
+  FunctionCall = "functionCall"
+}
+
+/** An identifier and its location in the document. */
+export interface Identifier {
+  name: string;
+  range: Range;
+}
+
+export interface SyntaxNode {
+  kind: SyntaxKind;
+  range: Range;
+}
+
+/** A node declaring a named symbol. */
+export interface DeclarationNode extends SyntaxNode {
+  name: Identifier;
+}
+
+/** Content found in the body of a flow (the story root, a knot or a stitch). */
+export interface FlowContent {
+  labels: LabelNode[];
+  temporaries: VariableNode[];
+  references: ReferenceNode[];
+}
+
+/** The top-level content of a document, found before the first knot. */
+export interface StoryNode extends SyntaxNode, FlowContent {
+  kind: SyntaxKind.Story;
+  stitches: FlowNode[];
+}
+
+/** A knot, a function or a stitch. */
+export interface FlowNode extends DeclarationNode, FlowContent {
+  kind: SyntaxKind.Knot | SyntaxKind.Function | SyntaxKind.Stitch;
+  parameters: ParameterNode[];
+  /** Stitches nested in this flow, always empty for stitches. */
+  stitches: FlowNode[];
+}
+
+export interface ParameterNode extends DeclarationNode {
+  kind: SyntaxKind.Parameter;
+  /** `true` if the parameter is passed by reference (`ref x`). */
+  isReference: boolean;
+  /** `true` if the parameter is a divert target (`-> x`). */
+  isDivertTarget: boolean;
+}
+
+/** A labelled gather (`- (label)`) or a labelled choice (`* (label)`). */
+export interface LabelNode extends DeclarationNode {
+  kind: SyntaxKind.Label;
+  isChoice: boolean;
+}
+
+/** A `VAR`, a `CONST` or a `temp` declaration. */
+export interface VariableNode extends DeclarationNode {
+  kind: SyntaxKind.Variable | SyntaxKind.Constant | SyntaxKind.Temporary;
+  /** Source of the initial value, if any. */
+  value?: string;
+}
+
+export interface ListNode extends DeclarationNode {
+  kind: SyntaxKind.List;
+  items: ListItemNode[];
+}
+
+export interface ListItemNode extends DeclarationNode {
+  kind: SyntaxKind.ListItem;
+  /** Explicit value of the item (`item = 2`), if any. */
+  value?: number;
+  /** `true` if the item is part of the initial value of the list (`(item)`). */
+  isInitiallySet: boolean;
+}
+
+export interface ExternalNode extends DeclarationNode {
+  kind: SyntaxKind.External;
+  parameters: ParameterNode[];
+}
+
+export interface IncludeNode extends SyntaxNode {
+  kind: SyntaxKind.Include;
+  /** The included path, as written in the document. */
+  path: string;
+  pathRange: Range;
+}
+
+/**
+ * A reference to a symbol, e.g. a divert target or a variable read.
+ * `path` contains each component of dotted paths (`knot.stitch.label`).
+ */
+export interface ReferenceNode extends SyntaxNode {
+  kind: SyntaxKind.Reference;
+  referenceKind: ReferenceKind;
+  path: Identifier[];
+}
+
+/** A recoverable error found while parsing. */
+export interface ParseError {
+  message: string;
+  range: Range;
+}
+
+/**
+ * State carried from one line to the next, ink being a mostly line-based language.
+ */
+export interface LineState {
+  /** `true` if the line starts inside a block comment. */
+  isInBlockComment: boolean;
+  /** Number of multiline blocks (`{`) opened before the line. */
+  blockDepth: number;
+}
+
+/** A column span within a single line. */
+export interface Span {
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface ParsedParameter {
+  name: Span;
+  isReference: boolean;
+  isDivertTarget: boolean;
+}
+
+export interface ParsedReference {
+  kind: ReferenceKind;
+  path: Span[];
+  start: number;
+  end: number;
+}
+
+export interface ParsedListItem {
+  name: Span;
+  value?: number;
+  isInitiallySet: boolean;
+}
+
+/** Type of statement held by a line. */
+export enum LineType {
+  Empty,
+  KnotHeader,
+  StitchHeader,
+  Include,
+  Variable,
+  Constant,
+  List,
+  External,
+  Logic,
+  Choice,
+  Gather,
+  Content
+}
+
+/**
+ * Result of parsing a single line. Positions are columns only, so that
+ * a parsed line can be reused when the surrounding lines change.
+ */
+export interface ParsedLine {
+  text: string;
+  startState: LineState;
+  endState: LineState;
+  type: LineType;
+  /** Name of the knot, stitch, declaration or label held by the line. */
+  name?: Span;
+  isFunction?: boolean;
+  parameters?: ParsedParameter[];
+  /** Initial value of a `VAR` or a `CONST`, or included path of an `INCLUDE`. */
+  value?: Span;
+  listItems?: ParsedListItem[];
+  temporary?: { name: Span; value?: Span };
+  references: ParsedReference[];
+  errors: Array<{ message: string; start: number; end: number }>;
+}
+
+/** Syntax tree of an ink document. */
+export interface InkSyntaxTree {
+  uri: string;
+  version: number;
+  root: StoryNode;
+  /** Knots and functions, in document order. */
+  knots: FlowNode[];
+  includes: IncludeNode[];
+  /** `VAR` and `CONST` declarations. */
+  variables: VariableNode[];
+  lists: ListNode[];
+  externals: ExternalNode[];
+  errors: ParseError[];
+  /** Parsed lines, reused by subsequent parses of the same document. */
+  lines: ParsedLine[];
+}
@@ -12,6 +12,18 @@ export interface InkConfigurationSettings {
   mainStoryPath: string;
   inklecateExecutablePath: string;
   runThroughMono: boolean | string;
+  /** Delay, in milliseconds, between the last edit of a document and its compilation. */
+  compilationDelay: number;
+  /** Implementation compiling and playing the stories. */
+  backend: InkBackend;
+}
+
+/** Implementations compiling and playing the stories, selected by the `ink.backend` setting. */
+export enum InkBackend {
+  /** Compiles stories with inklecate, in a child process. */
+  Inklecate = "inklecate",
+  /** Compiles stories with the JavaScript port of the ink compiler, in the server process. */
+  Inkjs = "inkjs"
 }
 
 export type PartialInkConfigurationSettings = Partial<InkConfigurationSettings>;
@@ -22,11 +34,52 @@ export interface InkWorkspace {
   temporaryCompilationDirectory?: string;
 }
 
+/** A file or directory renamed by the client. */
+export interface FileRename {
+  oldUri: string;
+  newUri: string;
+}
+
+/**
+ * Parameters of `workspace/willRenameFiles` and `workspace/didRenameFiles`, which
+ * were introduced in version 3.16 of the protocol, more recent than the one
+ * implemented by `vscode-languageserver`.
+ */
+export interface RenameFilesParams {
+  files: FileRename[];
+}
+
+/** Describes the files and directories concerned by a file operation. */
+export interface FileOperationFilter {
+  scheme?: string;
+  pattern: {
+    glob: string;
+    matches?: "file" | "folder";
+  };
+}
+
+/**
+ * File operations the server is interested in, introduced along with
+ * `workspace/willRenameFiles` and `workspace/didRenameFiles`.
+ */
+export interface FileOperationsServerCapabilities {
+  workspace?: {
+    fileOperations?: {
+      willRename?: { filters: FileOperationFilter[] };
+      didRename?: { filters: FileOperationFilter[] };
+    };
+  };
+}
+
 /** Capabilities supported by the client. */
 export interface Capabilities {
   configuration: boolean;
   workspaceFolder: boolean;
   diagnostic: boolean;
+  hierarchicalDocumentSymbol: boolean;
+  prepareRename: boolean;
+  snippetCompletion: boolean;
+  markdownHover: boolean;
 }
 
 /** Errors types returned by Inklecate. */
@@ -185,11 +238,49 @@ export interface DocumentPathAndWorkspace {
   workspace: InkWorkspace;
 }
 
+/** A value which can be assigned to an ink variable. */
+export type InkValue = number | boolean | string;
+
+/**
+ * Options of a play session, sent as the second argument of the `play-story` command.
+ */
+export interface PlayOptions {
+  /** Path of the knot or stitch the story starts from (`knot` or `knot.stitch`). */
+  startPath?: string;
+
+  /** Values assigned to global variables before the story starts, keyed by name. */
+  variables?: { [name: string]: InkValue };
+
+  /** Seed of the random number generator, picked randomly if missing. */
+  seed?: number;
+
+  /** `true` to send `inkRuntime/didChangeStoryState` after each turn. */
+  notifyStoryState?: boolean;
+}
+
 export interface RuntimeChoice {
   index: number;
   text: string;
 }
 
+/**
+ * Runtime state of a play session, saved by the `save-snapshot` command
+ * and restored by the `restore-snapshot` command.
+ */
+export interface StorySnapshot {
+  /** Options the session was started with, so that the restored session can be rewound. */
+  playOptions: PlayOptions;
+
+  /** Choices made before the snapshot was saved, in order. */
+  choices: RuntimeChoice[];
+
+  /**
+   * State of the story, as saved by the ink runtime. Its format belongs to the
+   * runtime, it's only checked when the snapshot is read and restored.
+   */
+  state: unknown;
+}
+
 /**
  * Parameters sent with the `inkWorkspace/didCompileStory` notification.
  */
@@ -201,18 +292,88 @@ export interface DidCompileStoryParams {
   storyUri: string;
 }
 
-export interface RuntimeTextParams {
+/**
+ * Parameters sent with the `inkWorkspace/didChangeStoryRoots` notification.
+ */
+export interface DidChangeStoryRootsParams {
+  /** Uri of the document opened by the client. */
+  uri: string;
+
+  /** Uris of the files, included by no other file, from which the document is included. */
+  rootUris: string[];
+}
+
+/**
+ * Event fired by `DiagnosticManager` when a story compiled successfully.
+ */
+export interface DidCompileStoryEvent {
+  /** The workspace in which the compilation happened. */
+  workspace: InkWorkspace;
+
+  /** Path of the compiled story, a JSON file. */
+  outputStoryPath: string;
+}
+
+/**
+ * Event fired by `MainStoryResolver` when the roots of a workspace changed.
+ */
+export interface DidChangeWorkspaceRootsEvent {
+  /** The workspace containing the roots. */
+  workspace: InkWorkspace;
+
+  /** Paths of the files which no other file includes. */
+  roots: string[];
+
+  /** Paths of the files which were roots until now, but are now included. */
+  removedRoots: string[];
+}
+
+/**
+ * Parameters sent with every `inkRuntime/*` notification.
+ */
+export interface RuntimeSessionParams {
+  /** Id of the play session, as returned by the `play-story` command. */
+  sessionId: string;
+}
+
+export interface RuntimeTextParams extends RuntimeSessionParams {
   text: string;
 }
 
-export interface RuntimeTagParams {
+export interface RuntimeTagParams extends RuntimeSessionParams {
   tags: string[];
 }
 
-export interface RuntimeChoicesParams {
+export interface RuntimeChoicesParams extends RuntimeSessionParams {
   choice: RuntimeChoice;
 }
 
-export interface RuntimeErrorParams {
+export interface RuntimeErrorParams extends RuntimeSessionParams {
   error: string;
 }
+
+export interface RuntimeChoicePathParams extends RuntimeSessionParams {
+  /** Choices made since the beginning of the story, in order. */
+  choices: RuntimeChoice[];
+}
+
+/**
+ * State of a story being played, returned by the `inkRuntime/storyState` request.
+ */
+export interface RuntimeStoryState {
+  /** Values of the global variables, keyed by name. Divert targets are described as `-> path`. */
+  variables: { [name: string]: InkValue };
+
+  /** Items of the global list variables, keyed by name, e. g. `colours.red`. */
+  lists: { [name: string]: string[] };
+
+  /** Visit counts of the knots, stitches and labels visited at least once, keyed by path. */
+  visitCounts: { [path: string]: number };
+
+  /** Index of the current turn, `-1` until the first choice is made. */
+  turnIndex: number;
+}
+
+export interface RuntimeStoryStateParams extends RuntimeSessionParams {
+  state: RuntimeStoryState;
+}